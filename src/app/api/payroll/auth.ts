@@ -0,0 +1,14 @@
+import { timingSafeEqual } from "crypto"
+
+// Cron endpoints move money, so they refuse every call unless CRON_SECRET is
+// set and presented as a bearer token.
+export function isAuthorized(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return false
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const actual = Buffer.from(request.headers.get("authorization") || "")
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { ServerPayrollSigner, SchedulerBusyError } from "@/lib/server/payroll-scheduler"
+import { getServerMetadataStore } from "@/lib/server/metadata-store"
+import { isCalendarDate } from "@/lib/schedules"
+import { isAuthorized } from "../auth"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+// Executes every payroll that is due today. Idempotent per pay period, so a
+// scheduler can call it as often as it likes. Pass ?date=YYYY-MM-DD to settle
+// a specific day.
+export async function POST(request: Request) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const date = new URL(request.url).searchParams.get("date") || undefined
+  if (date && !isCalendarDate(date)) {
+    return NextResponse.json({ error: "date must be YYYY-MM-DD" }, { status: 400 })
+  }
+
+  let signer: ServerPayrollSigner | null = null
+  try {
+    signer = ServerPayrollSigner.fromEnv()
+    const accounts = await getServerMetadataStore().list()
+    const result = await signer.runDuePayrolls(accounts, date)
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof SchedulerBusyError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    console.error("Scheduled payroll failed:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Scheduled payroll failed" },
+      { status: 500 }
+    )
+  } finally {
+    await signer?.disconnect()
+  }
+}
+
+// Hosted cron services such as Vercel Cron issue GET requests
+export const GET = POST
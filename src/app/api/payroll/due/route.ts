@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server"
+import { ServerPayrollSigner } from "@/lib/server/payroll-scheduler"
+import { formatDate, isCalendarDate } from "@/lib/schedules"
+import { getServerMetadataStore } from "@/lib/server/metadata-store"
+import { isAuthorized } from "../auth"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+// Read-only preview of what the cron endpoint would pay for a given day.
+// Paid periods are read from the signing account's ledger history, so this
+// needs the same configuration as the cron endpoint.
+export async function GET(request: Request) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const date = new URL(request.url).searchParams.get("date") || formatDate(new Date())
+  if (!isCalendarDate(date)) {
+    return NextResponse.json({ error: "date must be YYYY-MM-DD" }, { status: 400 })
+  }
+
+  let signer: ServerPayrollSigner | null = null
+  try {
+    signer = ServerPayrollSigner.fromEnv()
+    const accounts = await getServerMetadataStore().list()
+    return NextResponse.json({
+      date,
+      network: signer.network,
+      due: await signer.getDuePayrolls(accounts, date),
+    })
+  } catch (error) {
+    console.error("Error computing due payrolls:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to compute due payrolls" },
+      { status: 500 }
+    )
+  } finally {
+    await signer?.disconnect()
+  }
+}
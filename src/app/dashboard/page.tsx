@@ -3,16 +3,29 @@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import WalletConnect from "@/components/WalletConnect"
 import SendPayment from "@/components/SendPayment"
-import { Wallet, SendHorizontal, Users } from "lucide-react"
+import EscrowManager from "@/components/EscrowManager"
+import ChecksManager from "@/components/ChecksManager"
+import PaymentChannels from "@/components/PaymentChannels"
+import PayrollRun from "@/components/PayrollRun"
+import PaymentHistory from "@/components/PaymentHistory"
+import DeductionSettings from "@/components/DeductionSettings"
+import VaultUnlock from "@/components/VaultUnlock"
+import NetworkSwitcher from "@/components/NetworkSwitcher"
+import { Wallet, SendHorizontal, Users, ListChecks, History } from "lucide-react"
 import { XRPLProvider } from "../../context/XRPLContext"
 import AccountManagement from '@/components/AccountManagement'
+import SignerListSettings from "@/components/SignerListSettings"
 
 export default function DashboardPage() {
   return (
     <XRPLProvider>
       <div className="container mx-auto py-6 space-y-6 max-w-4xl">
-        <div>
-          <h1 className="text-4xl font-bold mb-2 pt-16">Dashboard</h1>
+        <div className="flex justify-between items-end pt-16 mb-2">
+          <div className="flex items-center gap-4">
+            <h1 className="text-4xl font-bold">Dashboard</h1>
+            <NetworkSwitcher />
+          </div>
+          <VaultUnlock />
         </div>
 
         <Tabs defaultValue="accounts" className="w-full">
@@ -25,6 +38,14 @@ export default function DashboardPage() {
               <SendHorizontal className="h-4 w-4" />
               <span>Payments</span>
             </TabsTrigger>
+            <TabsTrigger value="payroll" className="flex items-center gap-2 cursor-pointer">
+              <ListChecks className="h-4 w-4" />
+              <span>Payroll</span>
+            </TabsTrigger>
+            <TabsTrigger value="history" className="flex items-center gap-2 cursor-pointer">
+              <History className="h-4 w-4" />
+              <span>History</span>
+            </TabsTrigger>
             <TabsTrigger value="account-management" className="flex items-center gap-2 cursor-pointer">
               <Wallet className="h-4 w-4" />
               <span>Account</span>
@@ -35,12 +56,25 @@ export default function DashboardPage() {
             <WalletConnect />
           </TabsContent>
 
-          <TabsContent value="payments" className="p-6 border rounded-lg">
+          <TabsContent value="payments" className="p-6 border rounded-lg space-y-8">
             <SendPayment />
+            <EscrowManager />
+            <ChecksManager />
+            <PaymentChannels />
+          </TabsContent>
+
+          <TabsContent value="payroll" className="p-6 border rounded-lg space-y-8">
+            <PayrollRun />
+            <DeductionSettings />
+          </TabsContent>
+
+          <TabsContent value="history" className="p-6 border rounded-lg">
+            <PaymentHistory />
           </TabsContent>
 
-          <TabsContent value="account-management" className="p-6 border rounded-lg">
+          <TabsContent value="account-management" className="p-6 border rounded-lg space-y-8">
             <AccountManagement />
+            <SignerListSettings />
           </TabsContent>
         </Tabs>
       </div>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useXRPLContext } from '../context/XRPLContext';
-import { RefreshCcw, X } from "lucide-react";
+import { Droplets, RefreshCcw, X } from "lucide-react";
+import KeyManagement from './KeyManagement';
 
 interface Wallet {
   address: string;
@@ -18,11 +19,15 @@ export default function AccountManagement() {
     switchWallet,
     getWallets,
     removeWallet,
+    fundWallet,
+    networkConfig,
   } = useXRPLContext();
 
   const [secretKey, setSecretKey] = useState('');
   const [walletName, setWalletName] = useState('Company Account');
   const [wallets, setWallets] = useState<Wallet[]>([]);
+  const [fundingAddress, setFundingAddress] = useState<string | null>(null);
+  const [fundingError, setFundingError] = useState<string | null>(null);
 
   // Fetch wallets on mount and when wallet operations occur
   const refreshWallets = () => {
@@ -42,6 +47,16 @@ export default function AccountManagement() {
     refreshWallets();
   };
 
+  const handleFundWallet = async (address: string) => {
+    setFundingAddress(address);
+    setFundingError(null);
+    const result = await fundWallet(address);
+    if (!result.success) {
+      setFundingError(result.error || 'Faucet request failed');
+    }
+    setFundingAddress(null);
+  };
+
   const handleRemoveWallet = async (address: string) => {
     removeWallet(address);
     refreshWallets();
@@ -83,6 +98,7 @@ export default function AccountManagement() {
           <h3 className="text-lg font-semibold">Your Wallets</h3>
           <RefreshCcw onClick={refreshWallets} className="cursor-pointer ml-2"/>
         </div>
+        {fundingError && <p className="text-sm text-red-600 mb-2">{fundingError}</p>}
         {wallets.length === 0 ? (
           <p className="text-gray-500">No wallets added yet.</p>
         ) : (
@@ -102,6 +118,15 @@ export default function AccountManagement() {
                   )}
                 </div>
                 <div className="mt-2 md:mt-0 space-x-2">
+                  <button
+                    onClick={() => handleFundWallet(wallet.address)}
+                    disabled={!networkConfig.faucet || fundingAddress !== null}
+                    title={networkConfig.faucet ? `Fund from the ${networkConfig.label} faucet` : `${networkConfig.label} has no faucet`}
+                    className="inline-flex items-center gap-1 border px-3 py-1 rounded cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    <Droplets className="h-4 w-4" />
+                    {fundingAddress === wallet.address ? 'Funding...' : 'Faucet'}
+                  </button>
                   {walletAddress !== wallet.address && (
                     <button 
                       onClick={() => switchWallet(wallet.address)} 
@@ -122,6 +147,10 @@ export default function AccountManagement() {
           </ul>
         )}
       </div>
+
+      <div className="mt-6 p-4 border rounded-lg">
+        <KeyManagement />
+      </div>
     </div>
   );
 }
\ No newline at end of file
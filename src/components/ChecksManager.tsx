@@ -0,0 +1,163 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { useXRPLContext } from "../context/XRPLContext"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, FileCheck, RefreshCcw } from "lucide-react"
+import { formatAmount } from "../lib/currency"
+import { CheckRecord, LineDelivery, getDeliveryReport, isCheckExpired } from "../lib/checks"
+import { PayrollRun, PayrollRunStore } from "../lib/payroll-runs"
+
+const STATUS_LABELS: Record<CheckRecord["status"] | "expired", string> = {
+  outstanding: "Uncashed",
+  expired: "Expired",
+  cashed: "Cashed",
+  cancelled: "Cancelled",
+  closed: "Closed",
+}
+
+const STATUS_CLASSES: Record<CheckRecord["status"] | "expired", string> = {
+  outstanding: "bg-blue-100 text-blue-800",
+  expired: "bg-yellow-100 text-yellow-800",
+  cashed: "bg-green-100 text-green-800",
+  cancelled: "bg-gray-100 text-gray-800",
+  closed: "bg-gray-100 text-gray-800",
+}
+
+const REPORTED_RUNS = 5
+
+// Checks written for salaries the employee could not receive yet, and per
+// payroll run which salaries arrived and which are still uncashed checks
+export default function ChecksManager() {
+  const { isConnected, walletAddress, isVaultLocked, network, getChecks, cancelCheck } = useXRPLContext()
+  const [checks, setChecks] = useState<CheckRecord[]>([])
+  const [runs, setRuns] = useState<PayrollRun[]>([])
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    const list = await getChecks()
+    setChecks(list || [])
+    // Read here rather than during render; storage is not available on the server
+    setRuns(new PayrollRunStore().list())
+  }, [getChecks])
+
+  useEffect(() => {
+    if (isConnected && walletAddress) {
+      refresh()
+    }
+  }, [isConnected, walletAddress, network, refresh])
+
+  const handleCancel = async (check: CheckRecord) => {
+    setIsWorking(true)
+    setError(null)
+    const result = await cancelCheck(check)
+    setIsWorking(false)
+    if (!result.success) {
+      setError(result.error || "The check could not be cancelled")
+    }
+    await refresh()
+  }
+
+  const reports = useMemo(() => runs
+    .filter((run) => run.account === walletAddress && run.network === network && run.lines.some((line) => line.byCheck))
+    .slice(0, REPORTED_RUNS)
+    .map((run) => {
+      const report = getDeliveryReport(run, checks)
+      const count = (delivery: LineDelivery) => Object.values(report).filter((value) => value === delivery).length
+      return {
+        run,
+        delivered: count("delivered"),
+        uncashed: count("check_outstanding") + count("check_expired"),
+        expired: count("check_expired"),
+        returned: count("check_cancelled") + count("check_closed"),
+        unpaid: count("not_paid"),
+      }
+    }), [runs, checks, walletAddress, network])
+
+  const outstanding = checks.filter((check) => check.status === "outstanding")
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium flex items-center gap-2">
+          <FileCheck className="h-5 w-5" />
+          Checks
+        </h3>
+        <Button variant="ghost" size="sm" onClick={refresh} className="h-8 w-8 p-0 cursor-pointer">
+          <RefreshCcw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {checks.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No checks written. Salaries an employee cannot receive yet, e.g. without a trust line, can be sent as a check.
+        </p>
+      ) : (
+        <p className="text-sm text-muted-foreground">{outstanding.length} uncashed of {checks.length} written</p>
+      )}
+
+      {reports.length > 0 && (
+        <div className="space-y-1 text-sm">
+          {reports.map(({ run, delivered, uncashed, expired, returned, unpaid }) => (
+            <div key={run.id} className="flex justify-between p-2 border rounded-lg">
+              <span>Run of {new Date(run.createdAt).toLocaleDateString()}</span>
+              <span className="text-muted-foreground">
+                {delivered} delivered, {uncashed} uncashed checks{expired > 0 && ` (${expired} expired)`}
+                {returned > 0 && `, ${returned} checks not cashed`}
+                {unpaid > 0 && `, ${unpaid} not paid`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {checks.map((check) => {
+          const status = isCheckExpired(check) ? "expired" : check.status
+          return (
+            <Card key={`${check.owner}:${check.sequence}`}>
+              <CardContent className="p-4 flex items-center justify-between">
+                <div className="overflow-hidden">
+                  <div className="font-medium">{check.employeeName || check.destination}</div>
+                  <div className="text-sm text-muted-foreground truncate max-w-[300px]">{check.destination}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Written {new Date(check.createdAt).toLocaleDateString()}
+                    {check.expiration && `, expires ${new Date(check.expiration).toLocaleString()}`}
+                    {check.period && `, period ${check.period}`}
+                  </div>
+                </div>
+                <div className="flex flex-col items-end gap-1">
+                  <span className="font-medium">{formatAmount(check.amount)}</span>
+                  <span className={`inline-block px-2 py-1 text-xs rounded-full ${STATUS_CLASSES[status]}`}>
+                    {STATUS_LABELS[status]}
+                  </span>
+                  {check.status === "outstanding" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleCancel(check)}
+                      disabled={isWorking || isVaultLocked}
+                      className="h-7 cursor-pointer"
+                    >
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )
+        })}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
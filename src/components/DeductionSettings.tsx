@@ -0,0 +1,212 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, Plus, Trash2 } from "lucide-react"
+import { DeductionTableStore } from "../lib/deduction-table"
+import { DEDUCTION_STAGES, DeductionRule, DeductionStage, STAGE_LABELS } from "../lib/payroll-calc"
+
+type DeductionKind = DeductionRule["kind"]
+
+const KIND_LABELS: Record<DeductionKind, string> = {
+  flat: "Flat amount",
+  percentage: "Percentage",
+  brackets: "Bracket table",
+}
+
+function describeRule(rule: DeductionRule): string {
+  switch (rule.kind) {
+    case "flat":
+      return `${rule.amount} per payment`
+    case "percentage":
+      return `${rule.rate}%${rule.cap ? `, at most ${rule.cap}` : ""}`
+    case "brackets":
+      return rule.brackets.map((bracket) => `${bracket.rate}% from ${bracket.from}`).join(", ")
+  }
+}
+
+// Brackets are typed as threshold:rate pairs, e.g. "0:0, 1000:10, 5000:20"
+function parseBrackets(text: string): { from: string; rate: string }[] {
+  return text.split(",").map((pair) => pair.trim()).filter(Boolean).map((pair) => {
+    const [from, rate] = pair.split(":").map((part) => part.trim())
+    return { from: from || "", rate: rate || "" }
+  })
+}
+
+export default function DeductionSettings() {
+  const [rules, setRules] = useState<DeductionRule[]>([])
+  const [label, setLabel] = useState("")
+  const [stage, setStage] = useState<DeductionStage>("tax")
+  const [kind, setKind] = useState<DeductionKind>("percentage")
+  const [value, setValue] = useState("")
+  const [cap, setCap] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  // Set when the stored table cannot be read; payroll refuses to run until it is reset
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  useEffect(() => {
+    try {
+      setRules(new DeductionTableStore().list())
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : "The deduction table could not be read")
+    }
+  }, [])
+
+  const save = (next: DeductionRule[]) => {
+    new DeductionTableStore().save(next)
+    setRules(next)
+  }
+
+  const handleReset = () => {
+    new DeductionTableStore().reset()
+    setRules([])
+    setLoadError(null)
+  }
+
+  const handleAdd = (e: React.MouseEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    const base = { id: crypto.randomUUID(), label: label.trim(), stage }
+    let rule: DeductionRule
+    switch (kind) {
+      case "flat":
+        rule = { ...base, kind, amount: value.trim() }
+        break
+      case "percentage":
+        rule = { ...base, kind, rate: value.trim(), cap: cap.trim() || undefined }
+        break
+      case "brackets":
+        rule = { ...base, kind, brackets: parseBrackets(value) }
+        break
+    }
+
+    try {
+      save([...rules, rule])
+      setLabel("")
+      setValue("")
+      setCap("")
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Invalid deduction")
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium">Deductions</h3>
+        <p className="text-xs text-muted-foreground">
+          Applied to every gross salary on this device, in order: pre-tax deductions on gross pay, taxes on what
+          remains, then post-tax deductions. Each amount is rounded to the payout currency.
+        </p>
+      </div>
+
+      {loadError ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-4">
+            <span>{loadError}</span>
+            <Button variant="outline" size="sm" onClick={handleReset} className="cursor-pointer">
+              Reset table
+            </Button>
+          </AlertDescription>
+        </Alert>
+      ) : rules.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No deductions configured. Net pay equals gross pay.</p>
+      ) : (
+        <div className="space-y-2">
+          {DEDUCTION_STAGES.flatMap((s) => rules.filter((rule) => rule.stage === s)).map((rule) => (
+            <Card key={rule.id}>
+              <CardContent className="p-3 flex items-center justify-between gap-4">
+                <div>
+                  <div className="font-medium text-sm">{rule.label}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {STAGE_LABELS[rule.stage]} · {describeRule(rule)}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => save(rules.filter((r) => r.id !== rule.id))}
+                  className="h-8 w-8 p-0 cursor-pointer"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-end">
+        <div className="space-y-1">
+          <Label htmlFor="deduction-label" className="text-xs">Label</Label>
+          <Input id="deduction-label" value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Income tax" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="deduction-stage" className="text-xs">Applies</Label>
+          <select
+            id="deduction-stage"
+            value={stage}
+            onChange={(e) => setStage(e.target.value as DeductionStage)}
+            className="w-full p-2 border rounded-lg text-sm text-neutral-500"
+          >
+            {DEDUCTION_STAGES.map((value) => (
+              <option key={value} value={value}>{STAGE_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="deduction-kind" className="text-xs">Type</Label>
+          <select
+            id="deduction-kind"
+            value={kind}
+            onChange={(e) => setKind(e.target.value as DeductionKind)}
+            className="w-full p-2 border rounded-lg text-sm text-neutral-500"
+          >
+            {(Object.keys(KIND_LABELS) as DeductionKind[]).map((value) => (
+              <option key={value} value={value}>{KIND_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="deduction-value" className="text-xs">
+            {kind === "flat" ? "Amount" : kind === "percentage" ? "Rate (%)" : "Brackets (from:rate, ...)"}
+          </Label>
+          <Input
+            id="deduction-value"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={kind === "brackets" ? "0:0, 1000:10, 5000:20" : ""}
+          />
+        </div>
+        {kind === "percentage" && (
+          <div className="space-y-1">
+            <Label htmlFor="deduction-cap" className="text-xs">Cap per payment (optional)</Label>
+            <Input id="deduction-cap" value={cap} onChange={(e) => setCap(e.target.value)} />
+          </div>
+        )}
+        <Button
+          variant="outline"
+          onClick={handleAdd}
+          disabled={!!loadError || !label.trim() || !value.trim()}
+          className="cursor-pointer"
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add deduction
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
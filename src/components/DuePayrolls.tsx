@@ -0,0 +1,234 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent } from "@/components/ui/card"
+import { CalendarClock, RefreshCcw } from "lucide-react"
+import { getMetadataStore } from "../lib/metadata-store"
+import { PayrollLineInput } from "../lib/payroll-runs"
+import { DuePayroll, getCatchUpStart, getDuePayrolls, toCalendarDate } from "../lib/schedules"
+import { FX_SOURCE_LABELS, FxRate, FxRateSource, convertSalary, fxPair, getRequiredPairs, manualRate } from "../lib/fx"
+import { useXRPLContext } from "../context/XRPLContext"
+import FundingCheck from "./FundingCheck"
+
+type DuePayrollsProps = {
+  disabled?: boolean
+  onRun: (lines: PayrollLineInput[]) => void
+}
+
+export default function DuePayrolls({ disabled, onRun }: DuePayrollsProps) {
+  const [due, setDue] = useState<DuePayroll[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [sources, setSources] = useState<Record<string, FxRateSource>>({})
+  const [manualRates, setManualRates] = useState<Record<string, string>>({})
+  const [bookRates, setBookRates] = useState<Record<string, FxRate>>({})
+  const [rateErrors, setRateErrors] = useState<Record<string, string>>({})
+  const [fetchingPair, setFetchingPair] = useState<string | null>(null)
+  const { network, walletAddress, getFxRate, getCommittedPeriods } = useXRPLContext()
+
+  useEffect(() => {
+    const fetchDue = async () => {
+      try {
+        const today = toCalendarDate(new Date())
+        const accounts = await getMetadataStore().list()
+        // Periods the scheduler or another device paid are only known from
+        // the ledger; without it nothing is shown as due
+        const committed = await getCommittedPeriods(getCatchUpStart(today))
+        if (!committed) {
+          setDue([])
+          setError("Could not read earlier salary payments from the ledger")
+          return
+        }
+        setDue(getDuePayrolls(accounts, today, committed, network))
+        setError(null)
+      } catch (error) {
+        console.error("Error computing due payrolls:", error)
+        setError(error instanceof Error ? error.message : "Failed to load pay schedules")
+      }
+    }
+
+    if (walletAddress) {
+      fetchDue()
+    }
+  }, [disabled, network, walletAddress, getCommittedPeriods])
+
+  // Order book rates belong to the ledger they were read from
+  useEffect(() => {
+    setBookRates({})
+    setRateErrors({})
+  }, [network])
+
+  const pairs = useMemo(() => getRequiredPairs(due), [due])
+
+  const sourceOf = (pair: string): FxRateSource => sources[pair] || "book_offers"
+
+  const fetchRate = async (fiat: FxRate["fiat"], payout: DuePayroll["payout"]) => {
+    const pair = fxPair(fiat, payout.currency)
+    setFetchingPair(pair)
+    const result = await getFxRate(fiat, payout)
+    setFetchingPair(null)
+    if (result.rate) {
+      setBookRates((prev) => ({ ...prev, [pair]: result.rate as FxRate }))
+      setRateErrors((prev) => ({ ...prev, [pair]: "" }))
+    } else {
+      setRateErrors((prev) => ({ ...prev, [pair]: result.error || "Could not read the order book" }))
+    }
+  }
+
+  // The rate each pair would be paid at right now, or a reason it has none
+  const rates = useMemo(() => {
+    const resolved: FxRate[] = []
+    const problems: Record<string, string> = {}
+    for (const { fiat, payout } of pairs) {
+      const pair = fxPair(fiat, payout.currency)
+      if ((sources[pair] || "book_offers") === "book_offers") {
+        if (bookRates[pair]) {
+          resolved.push(bookRates[pair])
+        }
+        continue
+      }
+      if (!manualRates[pair]) {
+        continue
+      }
+      try {
+        resolved.push(manualRate(fiat, payout.currency, manualRates[pair]))
+      } catch (error) {
+        problems[pair] = error instanceof Error ? error.message : "Invalid rate"
+      }
+    }
+    return { resolved, problems }
+  }, [pairs, sources, bookRates, manualRates])
+
+  const missingRate = rates.resolved.length < pairs.length
+
+  // Salaries still waiting on a rate are left out of the projection
+  const projected = useMemo(() => due.flatMap((item) => {
+    try {
+      return [convertSalary(item.salary, item.payout, rates.resolved).amount]
+    } catch {
+      return []
+    }
+  }), [due, rates])
+
+  // The rate is fixed here: manual rates are stamped with the time the run is
+  // created and every line keeps the rate it was converted at
+  const handleRun = () => {
+    try {
+      onRun(due.map((item) => {
+        const { amount, fx } = convertSalary(item.salary, item.payout, rates.resolved)
+        return {
+          destination: item.address,
+          destinationTag: item.destinationTag,
+          name: item.name,
+          amount,
+          fx,
+          period: item.period.id,
+          memo: `Salary ${item.period.start} to ${item.period.end}`,
+        }
+      }))
+      setError(null)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Could not convert salaries")
+    }
+  }
+
+  if (error && due.length === 0) {
+    return <p className="text-sm text-destructive">{error}</p>
+  }
+
+  if (due.length === 0) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-3">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="h-4 w-4" />
+          <h3 className="text-sm font-medium">Due pay periods ({due.length})</h3>
+        </div>
+        <div className="space-y-1 text-sm">
+          {due.map((item) => (
+            <div key={`${item.address}:${item.period.id}`} className="flex justify-between">
+              <span>
+                {item.name}
+                <span className="text-muted-foreground"> · {item.period.start} to {item.period.end}</span>
+              </span>
+              <span>
+                {item.salary.value} {item.salary.currency}
+                {item.salary.currency !== item.payout.currency && (
+                  <span className="text-muted-foreground"> in {item.payout.currency}</span>
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+        {pairs.map(({ fiat, payout }) => {
+          const pair = fxPair(fiat, payout.currency)
+          const bookRate = bookRates[pair]
+          const problem = rateErrors[pair] || rates.problems[pair]
+          return (
+            <div key={pair} className="border rounded-lg p-3 space-y-2">
+              <div className="flex justify-between items-center gap-2">
+                <span className="text-sm font-medium">{pair}</span>
+                <select
+                  value={sourceOf(pair)}
+                  onChange={(e) => setSources((prev) => ({ ...prev, [pair]: e.target.value as FxRateSource }))}
+                  className="p-1 border rounded-lg text-xs text-neutral-500"
+                >
+                  {(Object.keys(FX_SOURCE_LABELS) as FxRateSource[]).map((source) => (
+                    <option key={source} value={source}>{FX_SOURCE_LABELS[source]}</option>
+                  ))}
+                </select>
+              </div>
+              {sourceOf(pair) === "book_offers" ? (
+                <div className="flex justify-between items-center gap-2 text-xs">
+                  <span className="text-muted-foreground">
+                    {bookRate
+                      ? `1 ${fiat} = ${bookRate.rate} ${payout.currency} · ledger ${bookRate.ledgerIndex} · ${new Date(bookRate.timestamp).toLocaleString()}`
+                      : "No rate read yet"}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => fetchRate(fiat, payout)}
+                    disabled={fetchingPair === pair}
+                    className="cursor-pointer"
+                  >
+                    <RefreshCcw className="mr-1 h-3 w-3" />
+                    {fetchingPair === pair ? "Reading..." : bookRate ? "Refresh" : "Get rate"}
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="text-muted-foreground whitespace-nowrap">1 {fiat} =</span>
+                  <Input
+                    type="text"
+                    inputMode="decimal"
+                    placeholder="0.00"
+                    value={manualRates[pair] || ""}
+                    onChange={(e) => setManualRates((prev) => ({ ...prev, [pair]: e.target.value }))}
+                    className="h-8"
+                  />
+                  <span className="text-muted-foreground">{payout.currency}</span>
+                </div>
+              )}
+              {problem && <p className="text-xs text-destructive">{problem}</p>}
+            </div>
+          )
+        })}
+        <Button
+          size="sm"
+          onClick={handleRun}
+          disabled={disabled || missingRate}
+          className="bg-emerald-500 hover:bg-emerald-600 cursor-pointer"
+        >
+          Create Payroll Run
+        </Button>
+        <FundingCheck amounts={projected} label="the salaries due" />
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,250 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useXRPLContext } from "../context/XRPLContext"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, CheckCircle2, Lock, RefreshCcw } from "lucide-react"
+import { xrp, formatAmount } from "../lib/currency"
+import { EscrowEntry, EscrowState, getEscrowState } from "../lib/escrows"
+
+const STATE_LABELS: Record<EscrowState, string> = {
+  locked: "Locked",
+  finishable: "Ready to release",
+  cancellable: "Expired",
+}
+
+const STATE_CLASSES: Record<EscrowState, string> = {
+  locked: "bg-blue-100 text-blue-800",
+  finishable: "bg-green-100 text-green-800",
+  cancellable: "bg-yellow-100 text-yellow-800",
+}
+
+// datetime-local inputs hold local time without a zone
+function parseLocalTime(value: string): Date | undefined {
+  return value ? new Date(value) : undefined
+}
+
+// Milestone pay for contractors: XRP locked on the ledger until a release
+// time passes, a condition's fulfillment is presented, or both.
+export default function EscrowManager() {
+  const { isConnected, walletAddress, isVaultLocked, balance, createEscrow, getEscrows, hasEscrowFulfillment, finishEscrow, cancelEscrow } = useXRPLContext()
+  const [escrows, setEscrows] = useState<EscrowEntry[]>([])
+  const [destination, setDestination] = useState("")
+  const [amount, setAmount] = useState("")
+  const [finishAfter, setFinishAfter] = useState("")
+  const [cancelAfter, setCancelAfter] = useState("")
+  const [withCondition, setWithCondition] = useState(false)
+  const [memo, setMemo] = useState("")
+  const [fulfillments, setFulfillments] = useState<Record<number, string>>({})
+  const [created, setCreated] = useState<{ sequence: number; fulfillment?: string } | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    const list = await getEscrows()
+    setEscrows(list || [])
+  }, [getEscrows])
+
+  useEffect(() => {
+    if (isConnected && walletAddress) {
+      refresh()
+    }
+  }, [isConnected, walletAddress, refresh])
+
+  const handleCreate = async () => {
+    setIsWorking(true)
+    setError(null)
+    setCreated(null)
+
+    const result = await createEscrow({
+      destination,
+      amount: xrp(amount),
+      finishAfter: parseLocalTime(finishAfter),
+      cancelAfter: parseLocalTime(cancelAfter),
+      withCondition,
+      memo: memo.trim() || undefined,
+    })
+    setIsWorking(false)
+
+    if (!result.success || !result.escrow) {
+      setError(result.error || "Could not create the escrow")
+      // It may still be created, so it is not offered for a second try
+      if (result.outcomeUnknown) {
+        setAmount("")
+        setMemo("")
+        await refresh()
+      }
+      return
+    }
+    setCreated({ sequence: result.escrow.sequence, fulfillment: result.fulfillment })
+    setAmount("")
+    setMemo("")
+    await refresh()
+  }
+
+  const settle = async (action: () => Promise<{ success: boolean; error?: string }>) => {
+    setIsWorking(true)
+    setError(null)
+    const result = await action()
+    setIsWorking(false)
+    if (!result.success) {
+      setError(result.error || "The escrow could not be settled")
+    }
+    await refresh()
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          Escrowed payments
+        </h3>
+        <Button variant="ghost" size="sm" onClick={refresh} className="h-8 w-8 p-0 cursor-pointer">
+          <RefreshCcw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div className="p-3 border rounded-lg">
+          <div className="text-muted-foreground">Committed, not released</div>
+          <div className="font-medium">
+            {balance && typeof balance === "object" ? `${balance.escrowed} XRP` : "—"} in {escrows.length} escrows
+          </div>
+        </div>
+        <div className="p-3 border rounded-lg">
+          <div className="text-muted-foreground">Available to send</div>
+          <div className="font-medium">
+            {balance && typeof balance === "object" ? `${balance.available} XRP` : "—"}
+          </div>
+        </div>
+      </div>
+
+      {escrows.length > 0 && (
+        <div className="space-y-2">
+          {escrows.map((escrow) => {
+            const state = getEscrowState(escrow)
+            const needsFulfillment = !!escrow.condition && !hasEscrowFulfillment(escrow)
+            return (
+              <Card key={`${escrow.owner}:${escrow.sequence}`}>
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="overflow-hidden">
+                      <div className="font-medium">{escrow.memo || `Escrow #${escrow.sequence}`}</div>
+                      <div className="text-sm text-muted-foreground truncate max-w-[300px]">{escrow.destination}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {escrow.finishAfter && `Releasable from ${new Date(escrow.finishAfter).toLocaleString()}. `}
+                        {escrow.cancelAfter && `Expires ${new Date(escrow.cancelAfter).toLocaleString()}. `}
+                        {escrow.condition && "Needs its fulfillment to release."}
+                      </div>
+                    </div>
+                    <div className="flex flex-col items-end gap-1">
+                      <span className="font-medium">{formatAmount(escrow.amount)}</span>
+                      <span className={`inline-block px-2 py-1 text-xs rounded-full ${STATE_CLASSES[state]}`}>
+                        {STATE_LABELS[state]}
+                      </span>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {state === "finishable" && needsFulfillment && (
+                      <Input
+                        value={fulfillments[escrow.sequence] || ""}
+                        onChange={(e) => setFulfillments((prev) => ({ ...prev, [escrow.sequence]: e.target.value }))}
+                        placeholder="Fulfillment (A022...)"
+                        className="w-64 h-8 font-mono text-xs"
+                      />
+                    )}
+                    {state === "finishable" && (
+                      <Button
+                        size="sm"
+                        onClick={() => settle(() => finishEscrow(escrow, fulfillments[escrow.sequence]))}
+                        disabled={isWorking || isVaultLocked || (needsFulfillment && !fulfillments[escrow.sequence])}
+                        className="bg-emerald-500 hover:bg-emerald-600 cursor-pointer"
+                      >
+                        Release
+                      </Button>
+                    )}
+                    {state === "cancellable" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => settle(() => cancelEscrow(escrow))}
+                        disabled={isWorking || isVaultLocked}
+                        className="cursor-pointer"
+                      >
+                        Cancel and return funds
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+
+      <div className="space-y-3 p-4 border rounded-lg">
+        <h4 className="font-medium text-sm">New escrow</h4>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="escrow-destination" className="text-xs">Contractor address</Label>
+            <Input id="escrow-destination" value={destination} onChange={(e) => setDestination(e.target.value)} placeholder="r... or X..." />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="escrow-amount" className="text-xs">Amount (XRP)</Label>
+            <Input id="escrow-amount" type="number" min="0" step="0.000001" value={amount} onChange={(e) => setAmount(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="escrow-finish" className="text-xs">Release from</Label>
+            <Input id="escrow-finish" type="datetime-local" value={finishAfter} onChange={(e) => setFinishAfter(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="escrow-cancel" className="text-xs">Return to company after</Label>
+            <Input id="escrow-cancel" type="datetime-local" value={cancelAfter} onChange={(e) => setCancelAfter(e.target.value)} />
+          </div>
+          <div className="space-y-1 col-span-2">
+            <Label htmlFor="escrow-memo" className="text-xs">Milestone (public memo)</Label>
+            <Input id="escrow-memo" value={memo} onChange={(e) => setMemo(e.target.value)} />
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={withCondition} onChange={(e) => setWithCondition(e.target.checked)} />
+          Hold until a condition is fulfilled, e.g. milestone sign-off
+        </label>
+        <Button
+          onClick={handleCreate}
+          disabled={isWorking || isVaultLocked || !destination.trim() || !(Number(amount) > 0)}
+          className="bg-emerald-500 hover:bg-emerald-600 cursor-pointer"
+        >
+          {isWorking ? "Working..." : "Create escrow"}
+        </Button>
+      </div>
+
+      {created && (
+        <Alert variant="default" className="bg-green-50 text-green-800 border-green-200">
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertDescription>
+            Escrow #{created.sequence} created.
+            {created.fulfillment && (
+              <>
+                {" "}Its fulfillment is stored on this device, encrypted with your vault. Keep a copy: anyone holding it can release the funds.
+                <code className="block text-xs break-all mt-1">{created.fulfillment}</code>
+              </>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
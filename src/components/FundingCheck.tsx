@@ -0,0 +1,68 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { dropsToXrp } from "xrpl"
+import { useXRPLContext } from "../context/XRPLContext"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle } from "lucide-react"
+import { PaymentAmount } from "../lib/currency"
+import { PaymentProjection, describeShortfall } from "../lib/preflight"
+
+type FundingCheckProps = {
+  amounts: PaymentAmount[]
+  // What the amounts are, e.g. "this payroll run"
+  label: string
+}
+
+// Projects the cost of sending `amounts` from the company wallet and warns
+// when it would dip into the reserve. Sends that fail this check are
+// refused by the service, so the warning shows up before the attempt.
+export default function FundingCheck({ amounts, label }: FundingCheckProps) {
+  const { isConnected, walletAddress, balance, getPaymentProjection } = useXRPLContext()
+  const [projection, setProjection] = useState<PaymentProjection | null>(null)
+  const key = JSON.stringify(amounts)
+
+  useEffect(() => {
+    const parsed: PaymentAmount[] = JSON.parse(key)
+    if (!isConnected || !walletAddress || parsed.length === 0) {
+      setProjection(null)
+      return
+    }
+
+    let cancelled = false
+    getPaymentProjection(parsed).then((result) => {
+      if (!cancelled) {
+        setProjection(result)
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+    // The balance is a dependency so the check reruns after each payment
+  }, [key, isConnected, walletAddress, balance, getPaymentProjection])
+
+  if (!projection) {
+    return null
+  }
+
+  const short = projection.requirements.filter((requirement) => Number(requirement.shortfall) > 0)
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Network fee {dropsToXrp(projection.fee.drops)} XRP per payment
+        {projection.fee.escalated && " (raised while the network is busy)"}.
+        {" "}Spendable: {dropsToXrp(projection.funds.spendableDrops)} XRP after the
+        {" "}{dropsToXrp(projection.funds.reserveDrops)} XRP reserve.
+      </p>
+      {short.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            The company wallet cannot cover {label}: {short.map(describeShortfall).join("; ")}.
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
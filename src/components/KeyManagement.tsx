@@ -0,0 +1,265 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useXRPLContext } from "../context/XRPLContext"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, AlertTriangle, CheckCircle2, KeyRound } from "lucide-react"
+import { AccountKeys, SigningKeyKind } from "../lib/account-keys"
+
+const KEY_KIND_LABELS: Record<SigningKeyKind, string> = {
+  master: "the master key",
+  regular: "the regular key",
+}
+
+// Regular key rotation for the company account. The vault should hold a
+// regular key that can be replaced at will, with the master seed kept
+// offline as the way back in when the regular key is lost.
+export default function KeyManagement() {
+  const {
+    isConnected,
+    walletAddress,
+    isVaultLocked,
+    getSecretKey,
+    getAccountKeys,
+    getVaultKeyKind,
+    rotateRegularKey,
+    recoverWithMasterKey,
+    importAccountKey,
+    setMasterKeyDisabled,
+  } = useXRPLContext()
+  const [keys, setKeys] = useState<AccountKeys | null>(null)
+  const [vaultKey, setVaultKey] = useState<SigningKeyKind | null>(null)
+  const [revealed, setRevealed] = useState<string | null>(null)
+  const [backedUp, setBackedUp] = useState(false)
+  const [masterSeed, setMasterSeed] = useState("")
+  const [importAccount, setImportAccount] = useState("")
+  const [importSeed, setImportSeed] = useState("")
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!walletAddress) return
+    setKeys(await getAccountKeys(walletAddress))
+    setVaultKey(getVaultKeyKind(walletAddress))
+  }, [walletAddress, getAccountKeys, getVaultKeyKind])
+
+  useEffect(() => {
+    if (isConnected) {
+      refresh()
+    }
+    setRevealed(null)
+    setBackedUp(false)
+  }, [isConnected, isVaultLocked, refresh])
+
+  useEffect(() => {
+    setImportAccount(walletAddress || "")
+  }, [walletAddress])
+
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>, done: string) => {
+    setIsWorking(true)
+    setError(null)
+    setMessage(null)
+    const result = await action()
+    setIsWorking(false)
+    if (result.success) {
+      setMessage(done)
+      setRevealed(null)
+      setBackedUp(false)
+    } else {
+      setError(result.error || "Something went wrong")
+    }
+    await refresh()
+  }
+
+  const handleRotate = () => run(async () => {
+    const result = await rotateRegularKey()
+    return result.success ? { success: true } : result
+  }, "The vault now signs with a new regular key. Back it up before disabling the master key.")
+
+  const handleRecover = () => run(async () => {
+    const result = await recoverWithMasterKey(masterSeed)
+    setMasterSeed("")
+    return result
+  }, "A new regular key replaced the lost one and is stored in the vault. The master seed was not stored.")
+
+  const handleImport = () => run(async () => {
+    const result = await importAccountKey(importAccount.trim(), importSeed)
+    setImportSeed("")
+    return result
+  }, "Key added to the vault.")
+
+  const reveal = () => {
+    if (!walletAddress) return
+    try {
+      setRevealed(getSecretKey(walletAddress))
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Could not read the key")
+    }
+  }
+
+  const busy = isWorking || isVaultLocked
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Signing keys
+        </h3>
+        <p className="text-xs text-muted-foreground">
+          Sign day to day with a regular key and keep the master seed offline. If this device is lost, the master
+          seed replaces the regular key and the lost copy stops working.
+        </p>
+      </div>
+
+      {keys && (
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+          <dt className="text-muted-foreground">Regular key</dt>
+          <dd className="font-mono truncate">{keys.regularKey || "None"}</dd>
+          <dt className="text-muted-foreground">Master key</dt>
+          <dd>{keys.masterDisabled ? "Disabled" : "Enabled"}</dd>
+          <dt className="text-muted-foreground">Signer list</dt>
+          <dd>{keys.hasSignerList ? "Set" : "None"}</dd>
+          <dt className="text-muted-foreground">This vault holds</dt>
+          <dd>{vaultKey ? KEY_KIND_LABELS[vaultKey] : isVaultLocked ? "Unknown while locked" : "No key"}</dd>
+        </dl>
+      )}
+
+      {vaultKey && (
+        <div className="space-y-2 p-3 border rounded-lg">
+          <p className="text-sm">
+            {vaultKey === "master"
+              ? "Setting a regular key replaces the master seed in this vault with the new key. Write the master seed down first: it is how you recover the account."
+              : "Rotating generates a new regular key and retires the current one, e.g. after a device was exposed."}
+          </p>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={reveal} className="cursor-pointer">
+              Show {KEY_KIND_LABELS[vaultKey]}
+            </Button>
+            {revealed && <code className="text-xs break-all">{revealed}</code>}
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={backedUp} onChange={(e) => setBackedUp(e.target.checked)} />
+            I have stored {KEY_KIND_LABELS[vaultKey]} somewhere safe
+          </label>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              size="sm"
+              onClick={handleRotate}
+              disabled={busy || (vaultKey === "master" && !backedUp)}
+              className="bg-emerald-500 hover:bg-emerald-600 cursor-pointer"
+            >
+              {keys?.regularKey ? "Rotate regular key" : "Set regular key"}
+            </Button>
+            {keys && !keys.masterDisabled && keys.regularKey && vaultKey === "regular" && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => run(() => setMasterKeyDisabled(true), "The master key is disabled.")}
+                disabled={busy || !backedUp}
+                className="cursor-pointer"
+              >
+                Disable master key
+              </Button>
+            )}
+            {keys?.masterDisabled && vaultKey === "regular" && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => run(() => setMasterKeyDisabled(false), "The master key is enabled again.")}
+                disabled={busy}
+                className="cursor-pointer"
+              >
+                Enable master key
+              </Button>
+            )}
+          </div>
+          {keys && !keys.masterDisabled && keys.regularKey && !keys.hasSignerList && (
+            <p className="text-xs text-muted-foreground">
+              With the master key disabled and no signer list, losing the regular key locks the account for good.
+            </p>
+          )}
+        </div>
+      )}
+
+      {walletAddress && (
+        <div className="space-y-2 p-3 border rounded-lg">
+          <h4 className="font-medium text-sm">Lost the regular key?</h4>
+          {keys?.masterDisabled ? (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {keys.hasSignerList
+                  ? "The master key is disabled. Only the approvers on the signer list can name a new regular key, by multi-signing a SetRegularKey."
+                  : "The master key is disabled and there is no signer list. Without the regular key this account cannot be recovered."}
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <>
+              <p className="text-xs text-muted-foreground">
+                Enter the master seed. It signs a new regular key, which replaces the lost one in this vault; the master
+                seed itself is not stored.
+              </p>
+              <div className="flex gap-2">
+                <Input
+                  type="password"
+                  value={masterSeed}
+                  onChange={(e) => setMasterSeed(e.target.value)}
+                  placeholder="Master seed (s...)"
+                  autoComplete="off"
+                />
+                <Button onClick={handleRecover} disabled={busy || !masterSeed.trim()} variant="outline" className="cursor-pointer">
+                  Recover
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2 p-3 border rounded-lg">
+        <h4 className="font-medium text-sm">Restore a backed-up key</h4>
+        <p className="text-xs text-muted-foreground">
+          On a new device, add the account with its regular key (or its master key while that is enabled).
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="import-account" className="text-xs">Account</Label>
+            <Input id="import-account" value={importAccount} onChange={(e) => setImportAccount(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="import-seed" className="text-xs">Seed</Label>
+            <Input id="import-seed" type="password" value={importSeed} onChange={(e) => setImportSeed(e.target.value)} autoComplete="off" />
+          </div>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleImport}
+          disabled={busy || !importAccount.trim() || !importSeed.trim()}
+          className="cursor-pointer"
+        >
+          Add to vault
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {message && (
+        <Alert variant="default" className="bg-green-50 text-green-800 border-green-200">
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertDescription>{message}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
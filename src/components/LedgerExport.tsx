@@ -0,0 +1,140 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import { useXRPLContext } from "../context/XRPLContext"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, Download } from "lucide-react"
+import { PayrollRunStore } from "../lib/payroll-runs"
+import {
+  LedgerExportFilters,
+  buildLedgerExport,
+  fetchFullHistory,
+  getPeriodsByHash,
+  toLedgerCsv,
+  toLedgerJson,
+} from "../lib/ledger-export"
+
+type LedgerExportProps = {
+  names: Record<string, string>
+}
+
+type ExportFormat = "csv" | "json"
+
+function download(content: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export default function LedgerExport({ names }: LedgerExportProps) {
+  const { network, walletAddress, getTransactionHistory } = useXRPLContext()
+  const [filters, setFilters] = useState<LedgerExportFilters>({})
+  const [isExporting, setIsExporting] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const runs = useMemo(
+    () => new PayrollRunStore().list().filter((run) => run.account === walletAddress && run.network === network),
+    [walletAddress, network],
+  )
+  const periods = useMemo(
+    () => [...new Set(runs.flatMap((run) => run.lines.map((line) => line.period)).filter(Boolean) as string[])].sort().reverse(),
+    [runs],
+  )
+
+  const updateFilter = (key: keyof LedgerExportFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value || undefined }))
+  }
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!walletAddress) return
+    setIsExporting(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const records = await fetchFullHistory(async (options) => {
+        const page = await getTransactionHistory(options)
+        if (!page) {
+          throw new Error("Could not load transaction history. Check the ledger connection.")
+        }
+        return page
+      })
+
+      const employees = Object.entries(names).map(([address, name]) => ({ address, name }))
+      const rows = buildLedgerExport(records, walletAddress, employees, filters, getPeriodsByHash(runs))
+      const suffix = [filters.from || "start", filters.to || "end", filters.period?.replace("/", "_")].filter(Boolean).join("_")
+      const fileName = `payroll-ledger_${network}_${walletAddress}_${suffix}.${format}`
+
+      if (format === "csv") {
+        download(toLedgerCsv(rows), fileName, "text/csv")
+      } else {
+        download(toLedgerJson(rows), fileName, "application/json")
+      }
+      setMessage(`Exported ${rows.length} payment${rows.length === 1 ? "" : "s"}`)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Export failed")
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <h4 className="text-sm font-medium">Export for accounting</h4>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="export-from" className="text-xs">From</Label>
+            <Input type="date" id="export-from" value={filters.from || ""} onChange={(e) => updateFilter("from", e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="export-to" className="text-xs">To</Label>
+            <Input type="date" id="export-to" value={filters.to || ""} onChange={(e) => updateFilter("to", e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="export-period" className="text-xs">Pay period</Label>
+            <select
+              id="export-period"
+              value={filters.period || ""}
+              onChange={(e) => updateFilter("period", e.target.value)}
+              className="w-full p-2 border rounded-lg text-sm text-neutral-500"
+            >
+              <option value="">All periods</option>
+              {periods.map((period) => (
+                <option key={period} value={period}>{period.replace("/", " to ")}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Exports walk the full ledger history of the company account. Pay periods are read from payment memos, or matched from payroll runs recorded on this device for older payments.
+        </p>
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" onClick={() => handleExport("csv")} disabled={isExporting} className="cursor-pointer">
+            <Download className="mr-1 h-3 w-3" />
+            {isExporting ? "Exporting..." : "CSV"}
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleExport("json")} disabled={isExporting} className="cursor-pointer">
+            <Download className="mr-1 h-3 w-3" />
+            {isExporting ? "Exporting..." : "JSON"}
+          </Button>
+        </div>
+        {message && <p className="text-xs text-muted-foreground">{message}</p>}
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { useState } from "react"
+import { useXRPLContext } from "../context/XRPLContext"
+import { NETWORKS, XRPLNetwork, isXRPLNetwork } from "../lib/networks"
+import { Globe } from "lucide-react"
+
+const BADGE_STYLES: Record<XRPLNetwork, string> = {
+  mainnet: "bg-red-100 text-red-800 border-red-300",
+  testnet: "bg-amber-100 text-amber-800 border-amber-300",
+  devnet: "bg-sky-100 text-sky-800 border-sky-300",
+  standalone: "bg-gray-100 text-gray-800 border-gray-300",
+}
+
+export default function NetworkSwitcher() {
+  const { network, networkConfig, isConnected, switchNetwork } = useXRPLContext()
+  const [isSwitching, setIsSwitching] = useState(false)
+
+  const handleChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const target = e.target.value
+    if (!isXRPLNetwork(target) || target === network) return
+
+    // Mainnet moves real money, so never switch to it by accident
+    if (target === "mainnet" && !window.confirm("Switch to Mainnet? Payments sent from here will move real funds.")) {
+      return
+    }
+
+    setIsSwitching(true)
+    await switchNetwork(target)
+    setIsSwitching(false)
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <span
+        suppressHydrationWarning
+        className={`inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold border rounded-full ${BADGE_STYLES[network]}`}
+      >
+        <Globe className="h-3 w-3" />
+        {network === "mainnet" ? "LIVE · " : ""}{networkConfig.label}
+        {!isConnected && " (offline)"}
+      </span>
+      <select
+        suppressHydrationWarning
+        aria-label="XRPL network"
+        value={network}
+        onChange={handleChange}
+        disabled={isSwitching}
+        className="text-sm border rounded-md px-2 py-1 bg-background cursor-pointer"
+      >
+        {Object.values(NETWORKS).map((config) => (
+          <option key={config.id} value={config.id}>
+            {config.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
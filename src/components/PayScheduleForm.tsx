@@ -0,0 +1,147 @@
+"use client"
+
+import { useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { RLUSD_CURRENCY, XRP_CURRENCY } from "../lib/currency"
+import { PayFrequency, PaySchedule, FREQUENCY_LABELS, getFirstPayDate, toCalendarDate } from "../lib/schedules"
+import { FIAT_CURRENCIES, isFiatCurrency } from "../lib/fx"
+
+type PayScheduleFormProps = {
+  schedule?: PaySchedule
+  onSave: (schedule: PaySchedule) => Promise<void>
+  onCancel: () => void
+}
+
+export default function PayScheduleForm({ schedule, onSave, onCancel }: PayScheduleFormProps) {
+  const [frequency, setFrequency] = useState<PayFrequency>(schedule?.frequency || "monthly")
+  // A new schedule starts today and is first paid at the end of its first
+  // full period, so saving it does not make a period due straight away
+  const [anchorDate, setAnchorDate] = useState(schedule?.anchorDate || getFirstPayDate(frequency, toCalendarDate(new Date())))
+  const [anchorEdited, setAnchorEdited] = useState(!!schedule)
+  const [amount, setAmount] = useState(schedule?.amount || "")
+  const [salaryCurrency, setSalaryCurrency] = useState<string>(schedule?.salaryCurrency || schedule?.currency || RLUSD_CURRENCY)
+  const [payout, setPayout] = useState(schedule?.currency || RLUSD_CURRENCY)
+  const isFiat = isFiatCurrency(salaryCurrency)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSave = async (e: React.MouseEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (!(Number(amount) > 0)) {
+      setError("Salary amount must be greater than zero")
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      await onSave(isFiatCurrency(salaryCurrency)
+        ? { frequency, anchorDate, amount, currency: payout, salaryCurrency }
+        : { frequency, anchorDate, amount, currency: salaryCurrency })
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to save schedule")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3 pt-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="frequency" className="text-xs">Frequency</Label>
+          <select
+            id="frequency"
+            value={frequency}
+            onChange={(e) => {
+              const next = e.target.value as PayFrequency
+              setFrequency(next)
+              if (!anchorEdited) {
+                setAnchorDate(getFirstPayDate(next, toCalendarDate(new Date())))
+              }
+            }}
+            className="w-full p-2 border rounded-lg text-sm text-neutral-500"
+          >
+            {(Object.keys(FREQUENCY_LABELS) as PayFrequency[]).map((value) => (
+              <option key={value} value={value}>{FREQUENCY_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="anchorDate" className="text-xs">First pay date</Label>
+          <Input
+            type="date"
+            id="anchorDate"
+            value={anchorDate}
+            onChange={(e) => {
+              setAnchorDate(e.target.value)
+              setAnchorEdited(true)
+            }}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="salary" className="text-xs">Gross salary per period</Label>
+          <Input
+            type="number"
+            id="salary"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            step="0.000001"
+            min="0"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="salaryCurrency" className="text-xs">Currency</Label>
+          <select
+            id="salaryCurrency"
+            value={salaryCurrency}
+            onChange={(e) => setSalaryCurrency(e.target.value)}
+            className="w-full p-2 border rounded-lg text-sm text-neutral-500"
+          >
+            <option value={RLUSD_CURRENCY}>{RLUSD_CURRENCY}</option>
+            <option value={XRP_CURRENCY}>{XRP_CURRENCY}</option>
+            {FIAT_CURRENCIES.map((fiat) => (
+              <option key={fiat} value={fiat}>{fiat}</option>
+            ))}
+          </select>
+        </div>
+        {isFiat && (
+          <div className="space-y-1">
+            <Label htmlFor="payoutCurrency" className="text-xs">Paid in</Label>
+            <select
+              id="payoutCurrency"
+              value={payout}
+              onChange={(e) => setPayout(e.target.value)}
+              className="w-full p-2 border rounded-lg text-sm text-neutral-500"
+            >
+              <option value={RLUSD_CURRENCY}>{RLUSD_CURRENCY}</option>
+              <option value={XRP_CURRENCY}>{XRP_CURRENCY}</option>
+            </select>
+          </div>
+        )}
+      </div>
+      {isFiat && (
+        <p className="text-xs text-muted-foreground">
+          Converted to {payout} at the rate chosen when each payroll run is created.
+        </p>
+      )}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      <div className="flex space-x-2">
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={isSaving}
+          className="bg-emerald-500 hover:bg-emerald-600 cursor-pointer"
+        >
+          {isSaving ? "Saving..." : "Save Schedule"}
+        </Button>
+        <Button size="sm" variant="outline" onClick={onCancel} className="cursor-pointer">
+          Cancel
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,272 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useXRPLContext } from "../context/XRPLContext"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, CheckCircle2, RefreshCcw, Timer } from "lucide-react"
+import { xrp } from "../lib/currency"
+import { ChannelEntry, summarizeChannel } from "../lib/channels"
+
+// Streaming pay for hourly contractors. Each contractor gets a channel;
+// approving hours signs a claim they can redeem whenever they like.
+export default function PaymentChannels() {
+  const {
+    isConnected,
+    walletAddress,
+    isVaultLocked,
+    network,
+    getSecretKey,
+    openChannel,
+    getChannels,
+    getChannelRecord,
+    approveChannelHours,
+    exportChannelClaim,
+    redeemChannelClaim,
+    closeChannel,
+  } = useXRPLContext()
+  const [channels, setChannels] = useState<ChannelEntry[]>([])
+  const [hours, setHours] = useState<Record<string, string>>({})
+  const [exported, setExported] = useState<{ id: string; json: string } | null>(null)
+  const [destination, setDestination] = useState("")
+  const [name, setName] = useState("")
+  const [amount, setAmount] = useState("")
+  const [hourlyRate, setHourlyRate] = useState("")
+  const [endsAt, setEndsAt] = useState("")
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    const list = await getChannels()
+    setChannels(list || [])
+  }, [getChannels])
+
+  useEffect(() => {
+    if (isConnected && walletAddress) {
+      refresh()
+    }
+  }, [isConnected, walletAddress, network, refresh])
+
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>, done: string) => {
+    setIsWorking(true)
+    setError(null)
+    setMessage(null)
+    const result = await action()
+    setIsWorking(false)
+    if (result.success) {
+      setMessage(done)
+    } else {
+      setError(result.error || "Something went wrong")
+    }
+    await refresh()
+  }
+
+  const handleOpen = () => run(async () => {
+    const result = await openChannel(
+      { destination: destination.trim(), amount: xrp(amount), cancelAfter: endsAt ? new Date(endsAt) : undefined },
+      { name: name.trim() || undefined, hourlyRate: hourlyRate || undefined },
+    )
+    if (result.success) {
+      setDestination("")
+      setName("")
+      setAmount("")
+      setHourlyRate("")
+      setEndsAt("")
+    }
+    return result
+  }, "Channel opened.")
+
+  const handleApprove = (channel: ChannelEntry) => {
+    setError(null)
+    setMessage(null)
+    const result = approveChannelHours(channel, hours[channel.id] || "")
+    if (result.success && result.claim) {
+      setHours((prev) => ({ ...prev, [channel.id]: "" }))
+      setMessage(`Signed a claim for ${result.claim.amount} XRP in total.`)
+      // Totals are read from the updated record on render
+      setChannels((prev) => [...prev])
+    } else {
+      setError(result.error || "Could not approve the hours")
+    }
+  }
+
+  const handleExport = (channel: ChannelEntry) => {
+    const result = exportChannelClaim(channel.id)
+    if (result.success && result.json) {
+      setExported({ id: channel.id, json: result.json })
+    } else {
+      setError(result.error || "Could not export the claim")
+    }
+  }
+
+  // Contractors onboarded with a seed in this vault can redeem here
+  const canRedeem = (channel: ChannelEntry) => {
+    try {
+      return !!getSecretKey(channel.destination)
+    } catch {
+      return false
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium flex items-center gap-2">
+          <Timer className="h-5 w-5" />
+          Hourly contractors
+        </h3>
+        <Button variant="ghost" size="sm" onClick={refresh} className="h-8 w-8 p-0 cursor-pointer">
+          <RefreshCcw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {channels.length === 0 && <p className="text-sm text-muted-foreground">No open payment channels.</p>}
+
+      <div className="space-y-2">
+        {channels.map((channel) => {
+          const record = getChannelRecord(channel.id)
+          const summary = summarizeChannel(channel, record)
+          return (
+            <Card key={channel.id}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="overflow-hidden">
+                    <div className="font-medium">{record?.contractorName || channel.destination}</div>
+                    <div className="text-sm text-muted-foreground truncate max-w-[300px]">{channel.destination}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {record?.hourlyRate && `${record.hourlyRate} XRP per hour, ${record.hours} hours approved. `}
+                      {channel.expiration && `Closing ${new Date(channel.expiration).toLocaleString()}.`}
+                    </div>
+                  </div>
+                </div>
+
+                <dl className="grid grid-cols-4 gap-2 text-sm">
+                  <div>
+                    <dt className="text-muted-foreground text-xs">Capacity</dt>
+                    <dd>{summary.capacity} XRP</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground text-xs">Claimed</dt>
+                    <dd>{summary.claimed} XRP</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground text-xs">Outstanding</dt>
+                    <dd>{summary.outstanding} XRP</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground text-xs">Unapproved</dt>
+                    <dd>{summary.remaining} XRP</dd>
+                  </div>
+                </dl>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  {record?.hourlyRate && !channel.expiration && (
+                    <>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={hours[channel.id] || ""}
+                        onChange={(e) => setHours((prev) => ({ ...prev, [channel.id]: e.target.value }))}
+                        placeholder="Hours"
+                        className="w-24 h-8"
+                      />
+                      <Button
+                        size="sm"
+                        onClick={() => handleApprove(channel)}
+                        disabled={isWorking || isVaultLocked || !(Number(hours[channel.id]) > 0)}
+                        className="bg-emerald-500 hover:bg-emerald-600 cursor-pointer"
+                      >
+                        Approve hours
+                      </Button>
+                    </>
+                  )}
+                  {record && record.claims.length > 0 && (
+                    <Button size="sm" variant="outline" onClick={() => handleExport(channel)} className="cursor-pointer">
+                      Export claim
+                    </Button>
+                  )}
+                  {Number(summary.outstanding) > 0 && canRedeem(channel) && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => run(() => redeemChannelClaim(channel), "The contractor redeemed the approved hours.")}
+                      disabled={isWorking || isVaultLocked}
+                      className="cursor-pointer"
+                    >
+                      Redeem for contractor
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => run(() => closeChannel(channel), "Closing requested. Approved hours were paid out.")}
+                    disabled={isWorking || isVaultLocked}
+                    className="cursor-pointer"
+                  >
+                    {channel.expiration ? "Finish closing" : "End contract"}
+                  </Button>
+                </div>
+
+                {exported?.id === channel.id && (
+                  <code className="block text-xs break-all whitespace-pre-wrap p-2 bg-muted rounded">{exported.json}</code>
+                )}
+              </CardContent>
+            </Card>
+          )
+        })}
+      </div>
+
+      <div className="space-y-3 p-4 border rounded-lg">
+        <h4 className="font-medium text-sm">New contractor channel</h4>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="channel-destination" className="text-xs">Contractor address</Label>
+            <Input id="channel-destination" value={destination} onChange={(e) => setDestination(e.target.value)} placeholder="r... or X..." />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="channel-name" className="text-xs">Name</Label>
+            <Input id="channel-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="channel-amount" className="text-xs">Capacity (XRP)</Label>
+            <Input id="channel-amount" type="number" min="0" step="0.000001" value={amount} onChange={(e) => setAmount(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="channel-rate" className="text-xs">Hourly rate (XRP)</Label>
+            <Input id="channel-rate" type="number" min="0" step="0.000001" value={hourlyRate} onChange={(e) => setHourlyRate(e.target.value)} />
+          </div>
+          <div className="space-y-1 col-span-2">
+            <Label htmlFor="channel-end" className="text-xs">Contract end (optional)</Label>
+            <Input id="channel-end" type="datetime-local" value={endsAt} onChange={(e) => setEndsAt(e.target.value)} />
+          </div>
+        </div>
+        <Button
+          onClick={handleOpen}
+          disabled={isWorking || isVaultLocked || !destination.trim() || !(Number(amount) > 0) || !(Number(hourlyRate) > 0)}
+          className="bg-emerald-500 hover:bg-emerald-600 cursor-pointer"
+        >
+          {isWorking ? "Working..." : "Open channel"}
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {message && (
+        <Alert variant="default" className="bg-green-50 text-green-800 border-green-200">
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertDescription>{message}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
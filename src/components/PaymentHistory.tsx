@@ -0,0 +1,249 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { useXRPLContext } from "../context/XRPLContext"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, ExternalLink, RefreshCcw } from "lucide-react"
+import { getGatewayUrl } from "../lib/pinata"
+import { getMetadataStore } from "../lib/metadata-store"
+import { RLUSD_CURRENCY, XRP_CURRENCY } from "../lib/currency"
+import { getExplorerTxUrl } from "../lib/networks"
+import { HistoryFilters, PayrollHistoryGroup, TransactionRecord, TransactionStatus, filterPayrollHistory, groupPayrollHistory } from "../lib/history"
+import LedgerExport from "./LedgerExport"
+
+const PAGE_SIZE = 50
+
+const STATUS_CLASSES: Record<TransactionStatus, string> = {
+  success: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+}
+
+function groupTitle(group: PayrollHistoryGroup): string {
+  if (group.run) {
+    return `Payroll run ${group.run.slice(0, 8)}`
+  }
+  return group.period ? "One-off payments" : "Payments without payroll details"
+}
+
+export default function PaymentHistory() {
+  const { connect, isConnected, network, walletAddress, getTransactionHistory } = useXRPLContext()
+  const [records, setRecords] = useState<TransactionRecord[]>([])
+  const [marker, setMarker] = useState<unknown>(undefined)
+  const [hasMore, setHasMore] = useState(false)
+  const [names, setNames] = useState<Record<string, string>>({})
+  const [filters, setFilters] = useState<HistoryFilters>({})
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchNames = async () => {
+      try {
+        const accounts = await getMetadataStore().list()
+        setNames(Object.fromEntries(accounts.map((account) => [account.address, account.name])))
+      } catch (error) {
+        console.error("Error fetching employee metadata:", error)
+      }
+    }
+
+    fetchNames()
+    if (!isConnected) {
+      connect()
+    }
+  }, [connect, isConnected])
+
+  const loadPage = useCallback(async (from?: unknown) => {
+    setIsLoading(true)
+    setError(null)
+
+    const page = await getTransactionHistory({ limit: PAGE_SIZE, marker: from })
+    setIsLoading(false)
+
+    if (!page) {
+      setError("Could not load transaction history. Check the ledger connection.")
+      return
+    }
+    setRecords((prev) => (from === undefined ? page.transactions : [...prev, ...page.transactions]))
+    setMarker(page.marker)
+    setHasMore(page.marker !== undefined)
+  }, [getTransactionHistory])
+
+  // Start over whenever the company account or the network changes
+  useEffect(() => {
+    setRecords([])
+    setMarker(undefined)
+    setHasMore(false)
+    if (isConnected && walletAddress) {
+      loadPage()
+    }
+  }, [isConnected, walletAddress, network, loadPage])
+
+  const payments = useMemo(
+    () => (walletAddress ? filterPayrollHistory(records, walletAddress, filters) : []),
+    [records, walletAddress, filters],
+  )
+  const groups = useMemo(() => groupPayrollHistory(payments), [payments])
+
+  const updateFilter = (key: keyof HistoryFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value || undefined }))
+  }
+
+  const renderPayment = (payment: TransactionRecord) => {
+    const explorerUrl = getExplorerTxUrl(network, payment.hash)
+    return (
+      <Card key={payment.hash}>
+        <CardContent className="p-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="overflow-hidden">
+              <div className="font-medium">{names[payment.payroll?.employee || payment.destination] || "Unknown Employee"}</div>
+              <div className="text-sm text-muted-foreground truncate max-w-[300px]">{payment.destination}</div>
+              <div className="text-xs text-muted-foreground">{payment.date.toLocaleString()}</div>
+              {explorerUrl ? (
+                <a
+                  href={explorerUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-xs font-mono text-emerald-600 hover:underline truncate max-w-[300px]"
+                >
+                  {payment.hash}
+                  <ExternalLink className="h-3 w-3 shrink-0" />
+                </a>
+              ) : (
+                <div className="text-xs text-muted-foreground font-mono truncate max-w-[300px]">{payment.hash}</div>
+              )}
+              {payment.payroll?.fx && (
+                <div className="text-xs text-muted-foreground">
+                  {payment.payroll.fx.amount} {payment.payroll.fx.pair.split("/")[0]} at {payment.payroll.fx.rate} {payment.payroll.fx.pair}
+                  {" · "}{new Date(payment.payroll.fx.at).toLocaleString()}
+                </div>
+              )}
+              {payment.payroll?.payslip && (
+                <a
+                  href={getGatewayUrl(payment.payroll.payslip)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex w-fit items-center gap-1 text-xs text-muted-foreground hover:underline"
+                >
+                  Payslip
+                  <ExternalLink className="h-3 w-3 shrink-0" />
+                </a>
+              )}
+            </div>
+            <div className="flex flex-col items-end gap-1">
+              <span className="font-medium">{payment.amount}</span>
+              <span className={`inline-block px-2 py-1 text-xs rounded-full ${STATUS_CLASSES[payment.status]}`}>
+                {payment.status === "success" ? "success" : payment.resultCode}
+              </span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (!walletAddress) {
+    return <p className="text-muted-foreground">Select a company wallet to see its payment history.</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium">Payment history</h3>
+        <Button variant="outline" size="sm" onClick={() => loadPage()} disabled={isLoading} className="cursor-pointer">
+          <RefreshCcw className="mr-1 h-3 w-3" />
+          Refresh
+        </Button>
+      </div>
+
+      <LedgerExport names={names} />
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="history-employee" className="text-xs">Employee</Label>
+          <select
+            id="history-employee"
+            value={filters.employee || ""}
+            onChange={(e) => updateFilter("employee", e.target.value)}
+            className="w-full p-2 border rounded-lg text-sm text-neutral-500"
+          >
+            <option value="">All employees</option>
+            {Object.entries(names).map(([address, name]) => (
+              <option key={address} value={address}>{name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="history-from" className="text-xs">From</Label>
+          <Input type="date" id="history-from" value={filters.from || ""} onChange={(e) => updateFilter("from", e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="history-to" className="text-xs">To</Label>
+          <Input type="date" id="history-to" value={filters.to || ""} onChange={(e) => updateFilter("to", e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="history-status" className="text-xs">Status</Label>
+          <select
+            id="history-status"
+            value={filters.status || ""}
+            onChange={(e) => updateFilter("status", e.target.value)}
+            className="w-full p-2 border rounded-lg text-sm text-neutral-500"
+          >
+            <option value="">Any status</option>
+            <option value="success">Success</option>
+            <option value="failed">Failed</option>
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="history-currency" className="text-xs">Currency</Label>
+          <select
+            id="history-currency"
+            value={filters.currency || ""}
+            onChange={(e) => updateFilter("currency", e.target.value)}
+            className="w-full p-2 border rounded-lg text-sm text-neutral-500"
+          >
+            <option value="">Any currency</option>
+            <option value={RLUSD_CURRENCY}>{RLUSD_CURRENCY}</option>
+            <option value={XRP_CURRENCY}>{XRP_CURRENCY}</option>
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {groups.length === 0 ? (
+        <p className="text-muted-foreground">
+          {isLoading ? "Loading payments..." : "No payments match these filters in the loaded history."}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {groups.map((group) => (
+            <div key={group.key} className="space-y-2">
+              <div className="flex justify-between items-baseline">
+                <h4 className="text-sm font-medium">{groupTitle(group)}</h4>
+                <span className="text-xs text-muted-foreground">
+                  {group.period ? `${group.period.replace("/", " to ")} · ` : ""}
+                  {group.records.length} payment{group.records.length === 1 ? "" : "s"}
+                </span>
+              </div>
+              {group.records.map((payment) => renderPayment(payment))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {hasMore && (
+        <Button variant="outline" onClick={() => loadPage(marker)} disabled={isLoading} className="cursor-pointer">
+          {isLoading ? "Loading..." : "Load older transactions"}
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,240 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useXRPLContext } from "../context/XRPLContext"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, Check, Download, Send, X } from "lucide-react"
+import { formatAmount } from "../lib/currency"
+import {
+  PaymentProposal,
+  ProposalStatus,
+  getOutstandingSigners,
+  getProposalPayments,
+  getProposalTotals,
+  getSignedWeight,
+  hasQuorum,
+} from "../lib/multisig"
+
+type PayrollProposalsProps = {
+  disabled: boolean
+  // Reloads the list when it changes, e.g. the run being shown
+  refresh?: unknown
+  // Submission is left to the parent, which shows the run's progress
+  onSubmit: (id: string) => void
+}
+
+const STATUS_CLASSES: Record<ProposalStatus, string> = {
+  collecting: "bg-blue-100 text-blue-800",
+  submitted: "bg-purple-100 text-purple-800",
+  completed: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  needs_attention: "bg-yellow-100 text-yellow-800",
+}
+
+function download(content: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Payroll runs of a multi-signed company wallet, with every approval and
+// rejection recorded. Approvers whose seeds are in this vault sign here;
+// others sign an exported copy on their own device, which is imported back.
+export default function PayrollProposals({ disabled, refresh, onSubmit }: PayrollProposalsProps) {
+  const { network, walletAddress, isVaultLocked, getWallets, getProposals, approveProposal, rejectProposal, exportProposal, importProposal } = useXRPLContext()
+  const [proposals, setProposals] = useState<PaymentProposal[]>([])
+  const [approvers, setApprovers] = useState<Record<string, string>>({})
+  const [reasons, setReasons] = useState<Record<string, string>>({})
+  const [error, setError] = useState<string | null>(null)
+
+  const localSigners = new Set(getWallets().map((wallet) => wallet.address))
+
+  // The company wallet's own proposals, and any this vault can sign
+  const reload = useCallback(() => {
+    const local = new Set(getWallets().map((wallet) => wallet.address))
+    setProposals(getProposals().filter((proposal) =>
+      proposal.account === walletAddress || proposal.signerList.signers.some((signer) => local.has(signer.account))))
+  }, [getProposals, getWallets, walletAddress])
+
+  useEffect(() => {
+    reload()
+  }, [reload, network, refresh])
+
+  const handleResult = (result: { success: boolean; error?: string }) => {
+    setError(result.success ? null : result.error || "Could not update the proposal")
+    reload()
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    handleResult(importProposal(await file.text()))
+    e.target.value = ""
+  }
+
+  const handleExport = (proposal: PaymentProposal) => {
+    const json = exportProposal(proposal.id)
+    if (json) {
+      download(json, `payroll-proposal-${proposal.id}.json`, "application/json")
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium">Payroll proposals</h3>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="proposalFile" className="text-xs">Import signed copy</Label>
+          <input id="proposalFile" type="file" accept=".json,application/json" onChange={handleImport} className="block text-xs w-48" />
+        </div>
+      </div>
+
+      {proposals.length === 0 && (
+        <p className="text-sm text-muted-foreground">No payroll proposals to approve.</p>
+      )}
+
+      {proposals.map((proposal) => {
+        const outstanding = getOutstandingSigners(proposal).filter((signer) => localSigners.has(signer.account))
+        const chosen = outstanding.find((signer) => signer.account === approvers[proposal.id])
+        const approver = (chosen || outstanding[0])?.account || ""
+        const collecting = proposal.status === "collecting"
+        const canSubmit = (collecting && hasQuorum(proposal)) || proposal.status === "submitted"
+        const totals = getProposalTotals(proposal)
+
+        return (
+          <Card key={proposal.id}>
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="font-medium">
+                    {Object.keys(proposal.transactions).length} payments, proposed {new Date(proposal.createdAt).toLocaleString()}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Signed weight {getSignedWeight(proposal)} of {proposal.signerList.quorum} needed
+                  </div>
+                </div>
+                <span className={`inline-block px-2 py-1 text-xs rounded-full ${STATUS_CLASSES[proposal.status]}`}>
+                  {proposal.status.replace("_", " ")}
+                </span>
+              </div>
+
+              {/* The transactions approvers sign, read from the proposal itself */}
+              <div className="text-xs border rounded-md divide-y">
+                {getProposalPayments(proposal).map((payment) => (
+                  <div key={payment.lineId} className="flex justify-between gap-4 px-2 py-1">
+                    <span className="font-mono truncate">
+                      {payment.destination}
+                      {payment.destinationTag !== undefined && ` (tag ${payment.destinationTag})`}
+                    </span>
+                    <span className="whitespace-nowrap">
+                      {formatAmount(payment.amount)}
+                      {payment.type === "CheckCreate" && " by check"}
+                    </span>
+                  </div>
+                ))}
+                <div className="flex justify-between gap-4 px-2 py-1 font-medium">
+                  <span>Total</span>
+                  <span className="text-right">
+                    {totals.amounts.map(formatAmount).join(" + ")} plus {totals.feeXrp} XRP in fees
+                  </span>
+                </div>
+              </div>
+
+              {(proposal.signatures.length > 0 || proposal.rejections.length > 0) && (
+                <ul className="text-xs space-y-1">
+                  {proposal.signatures.map((signature) => (
+                    <li key={signature.signer} className="flex items-center gap-1 text-green-700">
+                      <Check className="h-3 w-3" />
+                      <span className="font-mono truncate max-w-[260px]">{signature.signer}</span>
+                      <span>signed (weight {signature.weight}) {new Date(signature.signedAt).toLocaleString()}</span>
+                    </li>
+                  ))}
+                  {proposal.rejections.map((rejection) => (
+                    <li key={rejection.signer} className="flex items-center gap-1 text-destructive">
+                      <X className="h-3 w-3" />
+                      <span className="font-mono truncate max-w-[260px]">{rejection.signer}</span>
+                      <span>
+                        rejected {new Date(rejection.rejectedAt).toLocaleString()}
+                        {rejection.reason && `: ${rejection.reason}`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {collecting && outstanding.length > 0 && (
+                <div className="flex flex-wrap items-end gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor={`approver-${proposal.id}`} className="text-xs">Approver</Label>
+                    <select
+                      id={`approver-${proposal.id}`}
+                      value={approver}
+                      onChange={(e) => setApprovers((prev) => ({ ...prev, [proposal.id]: e.target.value }))}
+                      className="p-2 border rounded-lg text-sm text-neutral-500 max-w-[220px]"
+                    >
+                      {outstanding.map((signer) => (
+                        <option key={signer.account} value={signer.account}>{signer.account}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => handleResult(approveProposal(proposal.id, approver))}
+                    disabled={disabled || isVaultLocked || !approver}
+                    className="bg-emerald-500 hover:bg-emerald-600 cursor-pointer"
+                  >
+                    Sign
+                  </Button>
+                  <Input
+                    value={reasons[proposal.id] || ""}
+                    onChange={(e) => setReasons((prev) => ({ ...prev, [proposal.id]: e.target.value }))}
+                    placeholder="Reason for rejecting"
+                    className="w-48 h-8"
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleResult(rejectProposal(proposal.id, approver, reasons[proposal.id]))}
+                    disabled={disabled || isVaultLocked || !approver}
+                    className="cursor-pointer"
+                  >
+                    Reject
+                  </Button>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                {canSubmit && (
+                  <Button size="sm" onClick={() => onSubmit(proposal.id)} disabled={disabled} className="cursor-pointer">
+                    <Send className="mr-2 h-4 w-4" />
+                    {proposal.status === "submitted" ? "Resume submission" : "Submit"}
+                  </Button>
+                )}
+                {collecting && (
+                  <Button size="sm" variant="outline" onClick={() => handleExport(proposal)} className="cursor-pointer">
+                    <Download className="mr-2 h-4 w-4" />
+                    Export for signing
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )
+      })}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,440 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { useXRPLContext } from "../context/XRPLContext"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, CheckCircle2, RotateCcw } from "lucide-react"
+import { getMetadataStore } from "../lib/metadata-store"
+import DuePayrolls from "./DuePayrolls"
+import PayrollProposals from "./PayrollProposals"
+import FundingCheck from "./FundingCheck"
+import { RLUSD_CURRENCY, XRP_CURRENCY, paymentAmount, formatAmount } from "../lib/currency"
+import { FX_SOURCE_LABELS } from "../lib/fx"
+import {
+  PayrollRun as PayrollRunRecord,
+  PayrollLineInput,
+  PayrollLineStatus,
+  PayrollRunStore,
+  createPayrollRun,
+  hasUnsettledLines,
+  retryFailedLines,
+  summarizePayrollRun,
+  withDeductions,
+} from "../lib/payroll-runs"
+import { DeductionTableStore } from "../lib/deduction-table"
+import { DeductionRule } from "../lib/payroll-calc"
+import { SignerListConfig } from "../lib/multisig"
+import { canPayByCheck } from "../lib/checks"
+
+type Employee = {
+  name: string
+  address: string
+  destinationTag?: number
+}
+
+const STATUS_CLASSES: Record<PayrollLineStatus, string> = {
+  pending: "bg-blue-100 text-blue-800",
+  validated: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  expired: "bg-yellow-100 text-yellow-800",
+}
+
+export default function PayrollRun() {
+  const {
+    connect,
+    isConnected,
+    network,
+    walletAddress,
+    validatePayrollRun,
+    executePayrollRun,
+    getSignerList,
+    proposePayroll,
+    submitProposal,
+  } = useXRPLContext()
+  const [employees, setEmployees] = useState<Employee[]>([])
+  const [amounts, setAmounts] = useState<Record<string, string>>({})
+  const [memos, setMemos] = useState<Record<string, string>>({})
+  const [byCheck, setByCheck] = useState<Record<string, boolean>>({})
+  const [currency, setCurrency] = useState(RLUSD_CURRENCY)
+  const [run, setRun] = useState<PayrollRunRecord | null>(null)
+  const [signerList, setSignerList] = useState<SignerListConfig | null>(null)
+  const [resumable, setResumable] = useState<PayrollRunRecord[]>([])
+  const [problems, setProblems] = useState<Record<string, string>>({})
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchEmployees = async () => {
+      try {
+        const accounts = await getMetadataStore().list()
+        setEmployees(accounts.map((account) => ({
+          name: account.name || "Unknown Employee",
+          address: account.address,
+          destinationTag: account.destinationTag,
+        })))
+      } catch (error) {
+        console.error("Error fetching employee metadata:", error)
+      }
+    }
+
+    fetchEmployees()
+    if (!isConnected) {
+      connect()
+    }
+  }, [connect, isConnected])
+
+  useEffect(() => {
+    if (!walletAddress) return
+    setResumable(new PayrollRunStore().getResumable(network).filter((r) => r.account === walletAddress))
+  }, [walletAddress, run, network])
+
+  useEffect(() => {
+    if (!isConnected || !walletAddress) return
+
+    let cancelled = false
+    getSignerList(walletAddress).then((list) => {
+      if (!cancelled) {
+        setSignerList(list)
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [isConnected, walletAddress, network, getSignerList])
+
+  // A multi-signed company wallet cannot send on its own, so the run becomes
+  // a proposal for the approvers instead
+  const execute = async (target: PayrollRunRecord) => {
+    setIsRunning(true)
+    setError(null)
+    setRun(target)
+
+    try {
+      const result = signerList ? await proposePayroll(target) : await executePayrollRun(target, setRun)
+      if (result.run) {
+        setRun(result.run)
+      }
+      if (result.error) {
+        throw new Error(result.error)
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Payroll run failed")
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const submitApproved = async (id: string) => {
+    setIsRunning(true)
+    setError(null)
+
+    try {
+      const result = await submitProposal(id, setRun)
+      if (result.run) {
+        setRun(result.run)
+      }
+      if (result.error) {
+        throw new Error(result.error)
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Submitting the proposal failed")
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const startRun = async (lines: PayrollLineInput[]) => {
+    setError(null)
+    setProblems({})
+
+    if (!walletAddress) {
+      setError("No wallet selected. Please select or create a wallet first.")
+      return
+    }
+
+    // Amounts are gross salaries; each line pays what is left after deductions
+    let rules: DeductionRule[]
+    try {
+      rules = new DeductionTableStore().list()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "The deduction table could not be read")
+      return
+    }
+    const deductionProblems: Record<string, string> = {}
+    const netLines = lines.flatMap((line) => {
+      try {
+        return [withDeductions(line, rules)]
+      } catch (error) {
+        deductionProblems[line.destination] = error instanceof Error ? error.message : "Could not apply deductions"
+        return []
+      }
+    })
+    if (Object.keys(deductionProblems).length > 0) {
+      setProblems(deductionProblems)
+      setError("Deductions could not be applied to some employees.")
+      return
+    }
+
+    const draft = createPayrollRun(walletAddress, netLines, network)
+    setIsRunning(true)
+    const found = await validatePayrollRun(draft)
+    setIsRunning(false)
+
+    if (!found) {
+      setError("Could not validate the payroll run. Check the ledger connection.")
+      return
+    }
+    if (Object.keys(found).length > 0) {
+      // Map problems back to addresses so they show next to the right employee
+      setProblems(Object.fromEntries(draft.lines.filter((line) => found[line.id]).map((line) => [line.destination, found[line.id]])))
+      setError("Some lines failed validation. Fix them before starting the run.")
+      return
+    }
+
+    await execute(draft)
+  }
+
+  const handleStart = async () => {
+    const lines = employees
+      .filter((employee) => Number(amounts[employee.address]) > 0)
+      .map((employee) => ({
+        destination: employee.address,
+        destinationTag: employee.destinationTag,
+        name: employee.name,
+        amount: paymentAmount(currency, amounts[employee.address], network),
+        memo: memos[employee.address] || undefined,
+        byCheck: byCheck[employee.address] || undefined,
+      }))
+
+    if (lines.length === 0) {
+      setError("Enter an amount for at least one employee")
+      return
+    }
+
+    await startRun(lines)
+  }
+
+  // Gross amounts, so the projection is what the run costs at most
+  const enteredAmounts = useMemo(
+    () => Object.values(amounts).filter((value) => Number(value) > 0).map((value) => paymentAmount(currency, value, network)),
+    [amounts, currency, network],
+  )
+
+  const handleRetry = async () => {
+    if (!run) return
+    await execute(retryFailedLines({ ...run, lines: run.lines.map((line) => ({ ...line })) }))
+  }
+
+  const summary = run ? summarizePayrollRun(run) : null
+
+  if (run) {
+    return (
+      <div className="space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-medium">Payroll run</h3>
+          <span className="text-sm text-muted-foreground">
+            {summary!.validated} of {summary!.total} paid
+            {summary!.failed + summary!.expired > 0 && `, ${summary!.failed + summary!.expired} need attention`}
+          </span>
+        </div>
+
+        <div className="space-y-2">
+          {run.lines.map((line) => (
+            <Card key={line.id}>
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <div className="overflow-hidden">
+                    <div className="font-medium">{line.name || line.destination}</div>
+                    <div className="text-sm text-muted-foreground truncate max-w-[300px]">{line.destination}</div>
+                    {line.hash && (
+                      <div className="text-xs text-muted-foreground font-mono truncate max-w-[300px]">{line.hash}</div>
+                    )}
+                    {line.error && <div className="text-xs text-destructive">{line.error}</div>}
+                  </div>
+                  <div className="flex flex-col items-end gap-1">
+                    <span className="font-medium">{formatAmount(line.amount)}</span>
+                    {line.gross !== undefined && line.gross !== line.amount.value && (
+                      <span className="text-xs text-muted-foreground">gross {line.gross} {line.amount.currency}</span>
+                    )}
+                    {line.fx && (
+                      <span className="text-xs text-muted-foreground">
+                        {line.fx.fiatAmount} {line.fx.fiat} at {line.fx.rate} ({FX_SOURCE_LABELS[line.fx.source].toLowerCase()}, {new Date(line.fx.timestamp).toLocaleString()})
+                      </span>
+                    )}
+                    {line.byCheck && <span className="text-xs text-muted-foreground">by check</span>}
+                    <span className={`inline-block px-2 py-1 text-xs rounded-full ${STATUS_CLASSES[line.status]}`}>
+                      {line.status}
+                    </span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {run.status === "awaiting_approval" && (
+          <Alert className="bg-blue-50 text-blue-800 border-blue-200">
+            <AlertDescription>
+              Nothing has been sent yet. This run waits for {signerList ? `a signed weight of ${signerList.quorum}` : "its approvers"};
+              close it to sign, reject or submit it under Payroll proposals.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {run.status === "needs_attention" && !run.proposal && hasUnsettledLines(run) && !isRunning && (
+          <Alert className="bg-blue-50 text-blue-800 border-blue-200">
+            <AlertDescription className="flex justify-between items-center w-full">
+              <span>Some payments have not settled on the ledger yet. They are not sent again; resume later to settle them.</span>
+              <Button size="sm" onClick={() => execute(run)} className="cursor-pointer">
+                Resume
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {run.status === "completed" && (
+          <Alert variant="default" className="bg-green-50 text-green-800 border-green-200">
+            <CheckCircle2 className="h-4 w-4" />
+            <AlertDescription>
+              {run.lines.some((line) => line.byCheck)
+                ? "Every line in this run went through. Checks count as delivered once cashed; follow them under Checks."
+                : "Every employee in this run has been paid."}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex space-x-2">
+          {summary!.failed + summary!.expired > 0 && (
+            <Button onClick={handleRetry} disabled={isRunning} className="bg-emerald-500 hover:bg-emerald-600 cursor-pointer">
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Retry failed lines
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => setRun(null)} disabled={isRunning} className="cursor-pointer">
+            {isRunning ? "Running..." : "Close"}
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {resumable.map((unfinished) => {
+        const progress = summarizePayrollRun(unfinished)
+        return (
+          <Alert key={unfinished.id} className="bg-blue-50 text-blue-800 border-blue-200">
+            <AlertDescription className="flex justify-between items-center w-full">
+              <span>
+                Unfinished run from {new Date(unfinished.createdAt).toLocaleString()} ({progress.validated} of {progress.total} paid)
+              </span>
+              <Button size="sm" onClick={() => execute(unfinished)} disabled={isRunning} className="cursor-pointer">
+                Resume
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )
+      })}
+
+      <PayrollProposals disabled={isRunning} refresh={run} onSubmit={submitApproved} />
+
+      <DuePayrolls disabled={isRunning} onRun={startRun} />
+
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium">New payroll run</h3>
+        <select
+          value={currency}
+          onChange={(e) => setCurrency(e.target.value)}
+          className="p-2 border rounded-lg text-sm text-neutral-500"
+        >
+          <option value={RLUSD_CURRENCY}>{RLUSD_CURRENCY}</option>
+          <option value={XRP_CURRENCY}>{XRP_CURRENCY}</option>
+        </select>
+      </div>
+
+      {employees.length === 0 ? (
+        <p className="text-muted-foreground">No employees found.</p>
+      ) : (
+        <div className="space-y-2">
+          {employees.map((employee) => (
+            <Card key={employee.address}>
+              <CardContent className="p-4 space-y-2">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="overflow-hidden">
+                    <div className="font-medium">{employee.name}</div>
+                    <div className="text-sm text-muted-foreground truncate max-w-[250px]">{employee.address}</div>
+                  </div>
+                  <div className="flex gap-2">
+                    <div className="space-y-1">
+                      <Label htmlFor={`amount-${employee.address}`} className="text-xs">Gross ({currency})</Label>
+                      <Input
+                        type="number"
+                        id={`amount-${employee.address}`}
+                        value={amounts[employee.address] || ""}
+                        onChange={(e) => setAmounts((prev) => ({ ...prev, [employee.address]: e.target.value }))}
+                        step="0.000001"
+                        min="0"
+                        className="w-32"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`memo-${employee.address}`} className="text-xs">Memo</Label>
+                      <Input
+                        id={`memo-${employee.address}`}
+                        value={memos[employee.address] || ""}
+                        onChange={(e) => setMemos((prev) => ({ ...prev, [employee.address]: e.target.value }))}
+                        className="w-40"
+                      />
+                    </div>
+                  </div>
+                </div>
+                {problems[employee.address] && (
+                  <div className="text-xs text-destructive">{problems[employee.address]}</div>
+                )}
+                {(byCheck[employee.address] || canPayByCheck(problems[employee.address] || "")) && (
+                  <label className="flex items-center gap-2 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={!!byCheck[employee.address]}
+                      onChange={(e) => setByCheck((prev) => ({ ...prev, [employee.address]: e.target.checked }))}
+                    />
+                    Pay by check, to be cashed once the trust line is set up
+                  </label>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <FundingCheck amounts={enteredAmounts} label="this payroll run" />
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button
+        onClick={handleStart}
+        disabled={isRunning || employees.length === 0}
+        className="w-48 bg-emerald-500 hover:bg-emerald-600 rounded-lg cursor-pointer"
+        style={{ padding: "1rem" }}
+      >
+        {isRunning ? "Validating..." : "Start Payroll Run"}
+      </Button>
+    </div>
+  )
+}
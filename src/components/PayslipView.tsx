@@ -0,0 +1,114 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Download, ExternalLink, Printer } from "lucide-react"
+import { getGatewayUrl } from "../lib/pinata"
+import { getExplorerTxUrl } from "../lib/networks"
+import { IssuedPayslip, payslipFileName, renderPayslipHtml, renderPayslipPdf } from "../lib/payslips"
+
+type PayslipViewProps = {
+  payslip: IssuedPayslip
+}
+
+function download(content: BlobPart, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export default function PayslipView({ payslip }: PayslipViewProps) {
+  const explorerUrl = getExplorerTxUrl(payslip.network, payslip.hash)
+
+  const handlePrint = () => {
+    const printWindow = window.open("", "_blank")
+    if (!printWindow) {
+      // Pop-ups are blocked, so hand over the document instead
+      download(renderPayslipHtml(payslip), payslipFileName(payslip, "html"), "text/html")
+      return
+    }
+    printWindow.document.write(renderPayslipHtml(payslip))
+    printWindow.document.close()
+    printWindow.focus()
+    printWindow.print()
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex justify-between items-center">
+          <h4 className="text-sm font-medium">Payslip</h4>
+          <span className="text-xs text-muted-foreground">
+            {payslip.period.start} to {payslip.period.end}
+          </span>
+        </div>
+        <div className="space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Employee:</span>
+            <span>{payslip.employeeName}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Gross pay:</span>
+            <span>{payslip.gross} {payslip.currency}</span>
+          </div>
+          {payslip.deductions.map((deduction) => (
+            <div key={deduction.label} className="flex justify-between">
+              <span className="text-muted-foreground">{deduction.label}:</span>
+              <span>-{deduction.amount} {payslip.currency}</span>
+            </div>
+          ))}
+          <div className="flex justify-between font-medium">
+            <span>Net pay:</span>
+            <span>{payslip.net} {payslip.currency}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Validated ledger:</span>
+            <span>{payslip.ledgerIndex}</span>
+          </div>
+        </div>
+        <div className="text-xs text-muted-foreground space-y-1">
+          {explorerUrl ? (
+            <a
+              href={explorerUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 font-mono text-emerald-600 hover:underline truncate"
+            >
+              {payslip.hash}
+              <ExternalLink className="h-3 w-3 shrink-0" />
+            </a>
+          ) : (
+            <div className="font-mono truncate">{payslip.hash}</div>
+          )}
+          <a
+            href={getGatewayUrl(payslip.cid)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 font-mono hover:underline truncate"
+          >
+            {payslip.cid}
+            <ExternalLink className="h-3 w-3 shrink-0" />
+          </a>
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" onClick={handlePrint} className="cursor-pointer">
+            <Printer className="mr-1 h-3 w-3" />
+            Print
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => download(renderPayslipPdf(payslip), payslipFileName(payslip, "pdf"), "application/pdf")}
+            className="cursor-pointer"
+          >
+            <Download className="mr-1 h-3 w-3" />
+            PDF
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,201 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Label } from "@/components/ui/label"
+import { AlertCircle, CheckCircle2, FileUp } from "lucide-react"
+import { getMetadataStore } from "../lib/metadata-store"
+import { toCalendarDate } from "../lib/schedules"
+import {
+  ROSTER_COLUMNS,
+  RosterDiffRow,
+  RosterImportResult,
+  RosterRowKind,
+  applyRosterImport,
+  diffRoster,
+} from "../lib/roster-import"
+
+type RosterImportProps = {
+  onImported: () => void
+  onCancel: () => void
+}
+
+const KIND_CLASSES: Record<RosterRowKind, string> = {
+  new: "bg-green-100 text-green-800",
+  changed: "bg-blue-100 text-blue-800",
+  unchanged: "bg-gray-100 text-gray-800",
+  invalid: "bg-red-100 text-red-800",
+}
+
+export default function RosterImport({ onImported, onCancel }: RosterImportProps) {
+  const [csv, setCsv] = useState("")
+  const [diff, setDiff] = useState<RosterDiffRow[] | null>(null)
+  const [results, setResults] = useState<RosterImportResult[] | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setCsv(await file.text())
+    setDiff(null)
+    setResults(null)
+  }
+
+  const handlePreview = async () => {
+    setIsWorking(true)
+    setError(null)
+    setResults(null)
+    try {
+      const accounts = await getMetadataStore().list()
+      setDiff(diffRoster(csv, accounts, toCalendarDate(new Date())))
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Could not read the file")
+      setDiff(null)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!diff) return
+    setIsWorking(true)
+    setError(null)
+    const written = await applyRosterImport(diff)
+    setResults(written)
+    setIsWorking(false)
+    onImported()
+  }
+
+  const counts = (diff || []).reduce<Record<RosterRowKind, number>>(
+    (total, row) => ({ ...total, [row.kind]: total[row.kind] + 1 }),
+    { new: 0, changed: 0, unchanged: 0, invalid: 0 },
+  )
+  const pending = counts.new + counts.changed
+  const failures = (results || []).filter((result) => result.error)
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-medium">Import employees from CSV</h3>
+      <p className="text-xs text-muted-foreground">
+        Columns: {ROSTER_COLUMNS.join(", ")}. Only name and address are required. The schedule is a frequency
+        such as <code>monthly</code>, optionally with a first pay date: <code>biweekly:2026-01-09</code>. Without
+        one, a new employee is first paid at the end of a full period from today. Separate tags with semicolons.
+        Give a destination tag for exchange deposit addresses, or use an X-address that carries it. The currency
+        may be USD or EUR for fiat contracts, paid out in the payout currency (RLUSD unless given). Columns left
+        out keep each employee&apos;s current values; an empty cell in a column that is there clears the value.
+        Pay schedule cells are the exception: an empty one keeps the current value, and a row whose salary and
+        schedule cells are both empty has no pay schedule.
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor="rosterFile">CSV file</Label>
+        <input
+          id="rosterFile"
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv"
+          onChange={handleFile}
+          className="block text-sm"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="rosterText">Or paste rows from a spreadsheet</Label>
+        <textarea
+          id="rosterText"
+          value={csv}
+          onChange={(e) => {
+            setCsv(e.target.value)
+            setDiff(null)
+            setResults(null)
+          }}
+          rows={6}
+          placeholder={ROSTER_COLUMNS.join(",")}
+          className="w-full p-2 border rounded-lg font-mono text-xs"
+        />
+      </div>
+
+      <div className="flex space-x-2">
+        <Button
+          variant="outline"
+          onClick={handlePreview}
+          disabled={isWorking || !csv.trim()}
+          className="cursor-pointer"
+        >
+          <FileUp className="mr-2 h-4 w-4" />
+          Preview changes
+        </Button>
+        <Button variant="outline" onClick={onCancel} disabled={isWorking} className="cursor-pointer">
+          Close
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {diff && (
+        <div className="space-y-2">
+          <p className="text-sm">
+            {counts.new} new, {counts.changed} changed, {counts.unchanged} unchanged, {counts.invalid} invalid
+          </p>
+          {diff.map((entry) => (
+            <Card key={entry.row}>
+              <CardContent className="p-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="overflow-hidden">
+                    <div className="font-medium">
+                      <span className="text-muted-foreground mr-2">Row {entry.row}</span>
+                      {entry.name || "No name"}
+                    </div>
+                    <div className="text-sm text-muted-foreground truncate max-w-[300px]">{entry.address}</div>
+                    {entry.changes.length > 0 && (
+                      <div className="text-xs text-muted-foreground">Changes: {entry.changes.join(", ")}</div>
+                    )}
+                    {entry.errors.map((message) => (
+                      <div key={message} className="text-xs text-destructive">Row {entry.row}: {message}</div>
+                    ))}
+                  </div>
+                  <span className={`inline-block px-2 py-1 text-xs rounded-full ${KIND_CLASSES[entry.kind]}`}>
+                    {entry.kind}
+                  </span>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+
+          {!results && (
+            <Button
+              onClick={handleImport}
+              disabled={isWorking || pending === 0}
+              className="bg-emerald-500 hover:bg-emerald-600 cursor-pointer"
+            >
+              {isWorking ? "Importing..." : `Import ${pending} employee${pending === 1 ? "" : "s"}`}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {results && failures.length === 0 && (
+        <Alert variant="default" className="bg-green-50 text-green-800 border-green-200">
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertDescription>Imported {results.length} employee{results.length === 1 ? "" : "s"}.</AlertDescription>
+        </Alert>
+      )}
+      {failures.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {failures.map((failure) => (
+              <div key={failure.row}>Row {failure.row}: {failure.error}</div>
+            ))}
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
@@ -1,15 +1,24 @@
 "use client"
 
 import type React from "react"
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo, useCallback } from "react"
 import { useXRPLContext } from "../context/XRPLContext"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { CheckCircle2, AlertCircle } from "lucide-react"
-import { PinataService } from "../lib/pinata"
+import { CheckCircle2, AlertCircle, Clock } from "lucide-react"
+import { getMetadataStore } from "../lib/metadata-store"
+import { PaymentAmount, RLUSD_CURRENCY, XRP_CURRENCY, rlusd, xrp, formatAmount } from "../lib/currency"
+import { IssuedPayslip } from "../lib/payslips"
+import { DeductionRule, PayrollCalculation, STAGE_LABELS, applyDeductions, calculatePay } from "../lib/payroll-calc"
+import { DeductionTableStore } from "../lib/deduction-table"
+import PayslipView from "./PayslipView"
+import FundingCheck from "./FundingCheck"
+import { Submission } from "../lib/submission-tracker"
+import { CheckRecord, canPayByCheck } from "../lib/checks"
+import { SendPaymentOptions } from "../lib/xrpl"
 
 type Wallet = {
   address: string
@@ -17,36 +26,69 @@ type Wallet = {
   seed?: string
 }
 
-type PinataResponse = {
-  id: string;
-  ipfs_pin_hash: string;
-  size: number;
-  user_id: string;
-  date_pinned: string;
-  metadata: {
-    name: string;
-    keyvalues: {
-      address: string;
-      createdAt: string;
-      lastUsed: string;
-      type: string;
-    };
-  };
-};
-
 export default function SendPayment() {
-  const { sendPayment, connect, isConnected, walletAddress } = useXRPLContext()
+  const { sendPayment, sendCheck, reconcileSubmissions, connect, isConnected, network, walletAddress } = useXRPLContext()
   const [destination, setDestination] = useState("")
   const [amount, setAmount] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [success, setSuccess] = useState(false)
+  const [success, setSuccess] = useState<PaymentAmount | null>(null)
+  const [payslip, setPayslip] = useState<IssuedPayslip | null>(null)
   const [showQR, setShowQR] = useState(false)
   const [qrData, setQrData] = useState<string | null>(null)
   const [wallets, setWallets] = useState<Wallet[]>([])
   const [selectedEmployee, setSelectedEmployee] = useState("")
+  const [currency, setCurrency] = useState(RLUSD_CURRENCY)
+  // Identifies the payment being entered, so resubmitting after an unknown
+  // outcome cannot pay twice. A new one is drawn whenever the employee, amount
+  // or currency changes, which includes clearing the form once it is settled.
+  const [obligation, setObligation] = useState(() => crypto.randomUUID())
+  const [unsettled, setUnsettled] = useState<Submission[]>([])
+  const [isChecking, setIsChecking] = useState(false)
+  // A payment the destination cannot receive yet, offered as a check instead.
+  // The check settles the same obligation and carries the same payslip.
+  const [checkOffer, setCheckOffer] = useState<{ destination: string; amount: PaymentAmount; options: SendPaymentOptions } | null>(null)
+  const [check, setCheck] = useState<CheckRecord | null>(null)
+
+  const [deductionRules, setDeductionRules] = useState<DeductionRule[]>([])
+  // Set when the stored table cannot be read; nothing is paid until it is fixed
+  const [deductionError, setDeductionError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setObligation(crypto.randomUUID())
+  }, [selectedEmployee, amount, currency])
+
+  // Read after mount; storage is not available during server rendering
+  useEffect(() => {
+    try {
+      setDeductionRules(new DeductionTableStore().list())
+    } catch (error) {
+      setDeductionError(error instanceof Error ? error.message : "The deduction table could not be read")
+    }
+  }, [])
+
+  // The amount entered is gross pay; the breakdown shows what is withheld
+  const breakdown = useMemo((): { calculation?: PayrollCalculation; error?: string } => {
+    if (deductionError) {
+      return { error: deductionError }
+    }
+    if (!amount || Number(amount) <= 0) {
+      return {}
+    }
+    try {
+      return { calculation: calculatePay(amount, currency, deductionRules) }
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : "Could not calculate net pay" }
+    }
+  }, [amount, currency, deductionRules, deductionError])
 
-  const pinataService = PinataService.getInstance()
+  const netAmounts = useMemo(() => {
+    const net = breakdown.calculation?.net
+    if (!net || Number(net) <= 0) {
+      return []
+    }
+    return [currency === XRP_CURRENCY ? xrp(net) : rlusd(net, network)]
+  }, [breakdown, currency, network])
 
   useEffect(() => {
     const ensureConnection = async () => {
@@ -61,24 +103,10 @@ export default function SendPayment() {
     };
     const fetchAccounts = async () => {
       try {
-        const pinataAccounts = await pinataService.getAllAccounts();
-        console.log("Fetched accounts:", pinataAccounts);
-        
-        // Transform the Pinata response to match our Wallet interface
-        const transformedWallets: Wallet[] = pinataAccounts.map((account: PinataResponse) => {
-          // Make sure we access the right properties based on the console output
-          return {
-            name: account.metadata?.name || "Unknown Employee",
-            address: account.metadata?.keyvalues?.address || "Unknown Address",
-            createdAt: account.metadata?.keyvalues?.createdAt || account.date_pinned,
-            lastUsed: account.metadata?.keyvalues?.lastUsed || account.date_pinned
-          };
-        });
-        
-        console.log("Transformed wallets:", transformedWallets);
-        setWallets(transformedWallets);
+        const accounts = await getMetadataStore().list();
+        setWallets(accounts.map(({ name, address }) => ({ name, address })));
       } catch (error) {
-        console.error('Error fetching accounts from Pinata:', error);
+        console.error('Error fetching employee metadata:', error);
       }
     }
 
@@ -86,10 +114,28 @@ export default function SendPayment() {
     ensureConnection();
   }, [connect, isConnected])
   
+  const checkUnsettled = useCallback(async () => {
+    setIsChecking(true)
+    const submissions = await reconcileSubmissions()
+    setIsChecking(false)
+    if (submissions) {
+      setUnsettled(submissions.filter((submission) => submission.status === "pending"))
+    }
+  }, [reconcileSubmissions])
+
+  useEffect(() => {
+    if (isConnected && walletAddress) {
+      checkUnsettled()
+    }
+  }, [isConnected, walletAddress, network, checkUnsettled])
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError(null)
-    setSuccess(false)
+    setSuccess(null)
+    setPayslip(null)
+    setCheckOffer(null)
+    setCheck(null)
     setShowQR(false)
     setQrData(null)
     setIsLoading(true)
@@ -116,19 +162,43 @@ export default function SendPayment() {
         throw new Error("Invalid XRPL address format. XRPL addresses start with 'r' and are 34 characters long.")
       }
 
-      const result = await sendPayment(selectedEmployee, amount)
+      if (deductionError) {
+        throw new Error(deductionError)
+      }
 
-      if (result.success) {
-        setSuccess(true)
-        setSelectedEmployee("")
+      const gross = currency === XRP_CURRENCY ? xrp(amount) : rlusd(amount, network)
+      const { amount: paymentAmount, calculation } = applyDeductions(gross, deductionRules)
+      if (Number(paymentAmount.value) <= 0) {
+        throw new Error("Deductions leave nothing to pay")
+      }
+      const options: SendPaymentOptions = {
+        gross: calculation.gross,
+        deductions: calculation.items.map(({ label, amount }) => ({ label, amount })),
+        obligation,
+      }
+      const result = await sendPayment(selectedEmployee, paymentAmount, options)
+
+      if (result.success || result.alreadyPaid) {
+          setSelectedEmployee("")
         setAmount("")
+      }
+      if (result.outcomeUnknown) {
+        await checkUnsettled()
+      }
+
+      if (result.success) {
+        setSuccess(result.amount || paymentAmount)
+        setPayslip(result.payslip || null)
       } else {
         // Improve error message for account not found
         if (result.error?.includes("Account not found")) {
           throw new Error(
-            "The destination account doesn't exist on the XRPL network. Please verify the address is correct and that the account has been activated.",
+            "The destination account doesn't exist on the XRPL network. Please verify the address is correct and that the account has been activated. A check cannot be sent until it is.",
           )
         }
+        if (result.error && canPayByCheck(result.error)) {
+          setCheckOffer({ destination: selectedEmployee, amount: paymentAmount, options })
+        }
         throw new Error(result.error)
       }
     } catch (error) {
@@ -138,6 +208,31 @@ export default function SendPayment() {
     }
   }
 
+  const handleSendCheck = async () => {
+    if (!checkOffer) return
+    setIsLoading(true)
+    const result = await sendCheck(checkOffer.destination, checkOffer.amount, checkOffer.options)
+    setIsLoading(false)
+
+    if (result.success || result.alreadyPaid) {
+      setCheckOffer(null)
+      setSelectedEmployee("")
+      setAmount("")
+    }
+    if (result.outcomeUnknown) {
+      setCheckOffer(null)
+      await checkUnsettled()
+    }
+
+    if (result.success && result.check) {
+      setCheck(result.check)
+      setPayslip(result.payslip || null)
+      setError(null)
+    } else {
+      setError(result.error || "Could not write the check")
+    }
+  }
+
   return (
     <div>
       <form onSubmit={handleSubmit} className="space-y-4">
@@ -160,16 +255,27 @@ export default function SendPayment() {
         </div>
 
         <div className="space-y-2">
-          <Label htmlFor="amount">Payment Amount (RLUSD)</Label>
-          <Input
-            type="number"
-            id="amount"
-            value={amount}
-            onChange={(e) => setAmount(e.target.value)}
-            placeholder="Enter payment amount"
-            step="0.000001"
-            min="0.000001"
-          />
+          <Label htmlFor="amount">Gross Amount ({currency})</Label>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              id="amount"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="Enter gross pay"
+              step="0.000001"
+              min="0.000001"
+            />
+            <select
+              id="currency"
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              className="p-2 border rounded-lg text-sm text-neutral-500"
+            >
+              <option value={RLUSD_CURRENCY}>{RLUSD_CURRENCY}</option>
+              <option value={XRP_CURRENCY}>{XRP_CURRENCY}</option>
+            </select>
+          </div>
         </div>
 
         <Card>
@@ -177,38 +283,82 @@ export default function SendPayment() {
             <h3 className="text-sm font-medium mb-2">Payment Details</h3>
             <div className="space-y-1 text-sm">
               <div className="flex justify-between">
-                <span className="text-muted-foreground">Payment amount:</span>
-                <span>{amount || "0"} RLUSD</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Transaction fee:</span>
-                <span>0.00001 RLUSD</span>
+                <span className="text-muted-foreground">Gross pay:</span>
+                <span>{breakdown.calculation?.gross || amount || "0"} {currency}</span>
               </div>
+              {breakdown.calculation?.items.map((item) => (
+                <div key={item.id} className="flex justify-between">
+                  <span className="text-muted-foreground">{item.label} ({STAGE_LABELS[item.stage].toLowerCase()}):</span>
+                  <span>-{item.amount} {currency}</span>
+                </div>
+              ))}
               <div className="flex justify-between font-medium">
-                <span>Total payment:</span>
-                <span>{amount ? (Number(amount) + 0.00001).toFixed(6) : "0"} RLUSD</span>
+                <span>Net pay:</span>
+                <span>{breakdown.calculation?.net || amount || "0"} {currency}</span>
               </div>
+              {breakdown.error && <p className="text-xs text-destructive">{breakdown.error}</p>}
+              {!deductionError && deductionRules.length === 0 && (
+                <p className="text-xs text-muted-foreground">No deductions are configured, so net pay equals gross pay.</p>
+              )}
+              <FundingCheck amounts={netAmounts} label="this payment" />
             </div>
           </CardContent>
         </Card>
 
+        {unsettled.length > 0 && (
+          <Alert className="bg-yellow-50 text-yellow-800 border-yellow-200">
+            <Clock className="h-4 w-4" />
+            <AlertDescription className="flex justify-between items-center w-full gap-4">
+              <span>
+                {unsettled.length} payment{unsettled.length === 1 ? " has" : "s have"} not settled yet and will not be sent again
+                until {unsettled.length === 1 ? "it validates or expires" : "they validate or expire"}.
+              </span>
+              <Button type="button" size="sm" onClick={checkUnsettled} disabled={isChecking} className="cursor-pointer">
+                {isChecking ? "Checking..." : "Check status"}
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {error && (
           <Alert variant="destructive">
             <AlertCircle className="h-4 w-4" />
-            <AlertDescription>{error}</AlertDescription>
+            <AlertDescription className="space-y-2">
+              <p>{error}</p>
+              {checkOffer && (
+                <div className="flex items-center justify-between gap-4">
+                  <span>Send a check for {formatAmount(checkOffer.amount)} instead? The employee cashes it once their trust line is set up.</span>
+                  <Button type="button" size="sm" onClick={handleSendCheck} disabled={isLoading} className="cursor-pointer">
+                    Send as check
+                  </Button>
+                </div>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {check && (
+          <Alert variant="default" className="bg-green-50 text-green-800 border-green-200">
+            <CheckCircle2 className="h-4 w-4" />
+            <AlertDescription>
+              Check for {formatAmount(check.amount)} written to {check.employeeName || check.destination}.
+              {check.expiration && ` It can be cashed until ${new Date(check.expiration).toLocaleString()}.`}
+            </AlertDescription>
           </Alert>
         )}
 
         {success && (
           <Alert variant="default" className="bg-green-50 text-green-800 border-green-200">
             <CheckCircle2 className="h-4 w-4" />
-            <AlertDescription>Payment processed successfully!</AlertDescription>
+            <AlertDescription>Payment of {formatAmount(success)} processed successfully!</AlertDescription>
           </Alert>
         )}
 
+        {payslip && <PayslipView payslip={payslip} />}
+
         <Button
           type="submit"
-          disabled={isLoading}
+          disabled={isLoading || !!deductionError}
           className="w-48 bg-emerald-500 hover:bg-emerald-600 rounded-lg cursor-pointer"
           style={{ padding: "1rem" }}
         >
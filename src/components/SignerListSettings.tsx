@@ -0,0 +1,149 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useXRPLContext } from "../context/XRPLContext"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, CheckCircle2, Plus, Trash2 } from "lucide-react"
+import { SignerEntry, validateSignerList } from "../lib/multisig"
+
+// Edits the company wallet's signer list. Once one is set, payroll runs
+// become proposals that the approvers sign before anything is sent.
+export default function SignerListSettings() {
+  const { isConnected, walletAddress, isVaultLocked, getSignerList, setSignerList } = useXRPLContext()
+  const [signers, setSigners] = useState<SignerEntry[]>([])
+  const [quorum, setQuorum] = useState("")
+  const [address, setAddress] = useState("")
+  const [weight, setWeight] = useState("1")
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isConnected || !walletAddress) return
+
+    let cancelled = false
+    getSignerList(walletAddress).then((list) => {
+      if (cancelled) return
+      setSigners(list?.signers || [])
+      setQuorum(list ? String(list.quorum) : "")
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [isConnected, walletAddress, getSignerList])
+
+  const handleAdd = (e: React.MouseEvent) => {
+    e.preventDefault()
+    setSigners((prev) => [...prev, { account: address.trim(), weight: Number(weight) }])
+    setAddress("")
+    setWeight("1")
+  }
+
+  const handleSave = async () => {
+    if (!walletAddress) return
+    setError(null)
+    setSaved(null)
+
+    const config = { quorum: Number(quorum), signers }
+    const problems = validateSignerList(walletAddress, config)
+    if (problems.length > 0) {
+      setError(problems.join(". "))
+      return
+    }
+
+    setIsSaving(true)
+    const result = await setSignerList(config)
+    setIsSaving(false)
+    if (result.success) {
+      setSaved(result.txid || null)
+    } else {
+      setError(result.error || "Could not set the signer list")
+    }
+  }
+
+  const totalWeight = signers.reduce((total, signer) => total + signer.weight, 0)
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium">Payroll approvers</h3>
+        <p className="text-xs text-muted-foreground">
+          The signer list of the company wallet. With one set, every payroll run needs signatures from approvers
+          whose weights add up to the quorum before it is submitted.
+        </p>
+      </div>
+
+      {signers.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No signer list. Payroll runs are signed by the company wallet alone.</p>
+      ) : (
+        <div className="space-y-2">
+          {signers.map((signer) => (
+            <Card key={signer.account}>
+              <CardContent className="p-3 flex items-center justify-between gap-4">
+                <div className="overflow-hidden">
+                  <div className="font-mono text-sm truncate">{signer.account}</div>
+                  <div className="text-xs text-muted-foreground">Weight {signer.weight}</div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSigners((prev) => prev.filter((s) => s.account !== signer.account))}
+                  className="h-8 w-8 p-0 cursor-pointer"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-4 gap-2 items-end">
+        <div className="space-y-1 col-span-2">
+          <Label htmlFor="signer-address" className="text-xs">Approver address</Label>
+          <Input id="signer-address" value={address} onChange={(e) => setAddress(e.target.value)} placeholder="r..." />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="signer-weight" className="text-xs">Weight</Label>
+          <Input id="signer-weight" type="number" min="1" value={weight} onChange={(e) => setWeight(e.target.value)} />
+        </div>
+        <Button onClick={handleAdd} disabled={!address.trim()} variant="outline" className="cursor-pointer">
+          <Plus className="mr-2 h-4 w-4" />
+          Add
+        </Button>
+      </div>
+
+      <div className="flex items-end gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="signer-quorum" className="text-xs">Quorum (of {totalWeight})</Label>
+          <Input id="signer-quorum" type="number" min="1" value={quorum} onChange={(e) => setQuorum(e.target.value)} className="w-32" />
+        </div>
+        <Button
+          onClick={handleSave}
+          disabled={isSaving || isVaultLocked || !walletAddress || signers.length === 0}
+          className="bg-emerald-500 hover:bg-emerald-600 cursor-pointer"
+        >
+          {isSaving ? "Saving..." : "Save signer list"}
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {saved && (
+        <Alert variant="default" className="bg-green-50 text-green-800 border-green-200">
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertDescription>Signer list updated in transaction {saved}.</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
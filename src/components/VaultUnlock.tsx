@@ -0,0 +1,107 @@
+"use client"
+
+import { useState } from "react"
+import { useXRPLContext } from "../context/XRPLContext"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, Lock, LockOpen } from "lucide-react"
+
+export default function VaultUnlock() {
+  const { isVaultLocked, isVaultInitialized, unlockVault, lockVault } = useXRPLContext()
+  const [passphrase, setPassphrase] = useState("")
+  const [confirmation, setConfirmation] = useState("")
+  const [isUnlocking, setIsUnlocking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (!isVaultInitialized && passphrase !== confirmation) {
+      setError("Passphrases do not match")
+      return
+    }
+
+    setIsUnlocking(true)
+    const result = await unlockVault(passphrase)
+    setIsUnlocking(false)
+
+    if (!result.success) {
+      setError(result.error || "Failed to unlock vault")
+      return
+    }
+    setPassphrase("")
+    setConfirmation("")
+  }
+
+  if (!isVaultLocked) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <LockOpen className="h-4 w-4 text-emerald-500" />
+        <span>Vault unlocked</span>
+        <Button variant="outline" size="sm" onClick={lockVault} className="cursor-pointer">
+          <Lock className="mr-1 h-3 w-3" />
+          Lock
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <form onSubmit={handleUnlock} className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Lock className="h-4 w-4" />
+            <h3 className="text-sm font-medium">
+              {isVaultInitialized ? "Unlock wallet vault" : "Create a passphrase for the wallet vault"}
+            </h3>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {isVaultInitialized
+              ? "Wallet seeds are encrypted on this device. Unlock the vault to sign payments."
+              : "Wallet seeds will be encrypted on this device with this passphrase. It cannot be recovered if lost."}
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="passphrase">Passphrase</Label>
+            <Input
+              type="password"
+              id="passphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoComplete={isVaultInitialized ? "current-password" : "new-password"}
+            />
+          </div>
+          {!isVaultInitialized && (
+            <div className="space-y-2">
+              <Label htmlFor="passphraseConfirmation">Confirm passphrase</Label>
+              <Input
+                type="password"
+                id="passphraseConfirmation"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                autoComplete="new-password"
+              />
+            </div>
+          )}
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          <Button
+            type="submit"
+            disabled={isUnlocking || !passphrase}
+            className="bg-emerald-500 hover:bg-emerald-600 cursor-pointer"
+          >
+            {isUnlocking ? "Unlocking..." : isVaultInitialized ? "Unlock" : "Create Vault"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
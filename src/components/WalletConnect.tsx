@@ -7,33 +7,24 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Label } from "@/components/ui/label"
-import { Loader2, AlertCircle, Import, Copy, Trash2 } from "lucide-react"
+import { Loader2, AlertCircle, Import, Copy, Trash2, Link2, CalendarClock, FileUp } from "lucide-react"
 import { Separator } from "@/components/ui/separator"
 import { useToast } from "@/components/ui/use-toast"
-import { PinataService } from "../lib/pinata"
-
-interface PinataResponse {
-  id: string;
-  ipfs_pin_hash: string;
-  size: number;
-  user_id: string;
-  date_pinned: string;
-  metadata: {
-    name: string;
-    keyvalues: {
-      address: string;
-      createdAt: string;
-      lastUsed: string;
-      type: string;
-    };
-  };
-}
+import { getMetadataStore, updateMetadata } from "../lib/metadata-store"
+import { TrustLineStatus, TRUST_LINE_LABELS } from "../lib/trustlines"
+import { PaySchedule, FREQUENCY_LABELS } from "../lib/schedules"
+import { parseDestinationTag } from "../lib/employees"
+import PayScheduleForm from "./PayScheduleForm"
+import RosterImport from "./RosterImport"
 
 interface Wallet {
   name: string;
   address: string;
   createdAt: string;
   lastUsed: string;
+  department?: string;
+  destinationTag?: number;
+  schedule?: PaySchedule;
 }
 
 export default function WalletConnect() {
@@ -42,18 +33,26 @@ export default function WalletConnect() {
     walletAddress,
     balance,
     connect,
-    addWallet,
+    addEmployee,
+    removeEmployeeSeeds,
     removeWallet,
+    getSecretKey,
+    getTrustLineStatus,
+    setTrustLine,
   } = useXRPLContext()
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [status, setStatus] = useState<string | null>(null)
   const [newAccountName, setNewAccountName] = useState("")
-  const [secretKey, setSecretKey] = useState("")
-  const [showSecretKeyInput, setShowSecretKeyInput] = useState(false)
+  const [employeeAddress, setEmployeeAddress] = useState("")
+  const [destinationTag, setDestinationTag] = useState("")
+  const [showAddressInput, setShowAddressInput] = useState(false)
   const { toast } = useToast()
-  const pinataService = PinataService.getInstance()
   const [wallets, setWallets] = useState<Wallet[]>([])
+  const [trustLines, setTrustLines] = useState<Record<string, TrustLineStatus | null>>({})
+  const [editingSchedule, setEditingSchedule] = useState<string | null>(null)
+  const [showRosterImport, setShowRosterImport] = useState(false)
+  const [rosterVersion, setRosterVersion] = useState(0)
 
   useEffect(() => {
     const checkConnection = async () => {
@@ -74,124 +73,125 @@ export default function WalletConnect() {
   useEffect(() => {
     const fetchAccounts = async () => {
       try {
-        const pinataAccounts = await pinataService.getAllAccounts();
-        console.log("Fetched accounts:", pinataAccounts);
-        
-        // Transform the Pinata response to match our Wallet interface
-        const transformedWallets: Wallet[] = pinataAccounts.map((account: any) => {
-          // Access data based on the structure returned by Pinata
-          let name, address, createdAt, lastUsed;
-          
-          // Try to access data from different possible structures
-          if (account.metadata?.keyvalues) {
-            // Direct from pin list
-            name = account.metadata.name || "Unknown Employee";
-            address = account.metadata.keyvalues.address || "Unknown Address";
-            createdAt = account.metadata.keyvalues.createdAt || account.date_pinned;
-            lastUsed = account.metadata.keyvalues.lastUsed || account.date_pinned;
-          } else if (account.name) {
-            // Direct from account metadata
-            name = account.name;
-            address = account.address;
-            createdAt = account.createdAt;
-            lastUsed = account.lastUsed;
-          } else {
-            // Fallback
-            name = "Unknown Employee";
-            address = "Unknown Address";
-            createdAt = account.date_pinned || new Date().toISOString();
-            lastUsed = account.date_pinned || new Date().toISOString();
-          }
-          
-          return {
-            name,
-            address,
-            createdAt,
-            lastUsed
-          };
-        });
-        
-        console.log("Transformed wallets:", transformedWallets);
-        setWallets(transformedWallets);
+        setWallets(await getMetadataStore().list())
       } catch (error) {
-        console.error('Error fetching accounts from Pinata:', error);
+        console.error('Error fetching employee metadata:', error);
       }
     }
 
     fetchAccounts()
-  }, [])
+  }, [rosterVersion])
+
+  useEffect(() => {
+    if (!isConnected || wallets.length === 0) return
+
+    const fetchTrustLines = async () => {
+      const statuses = await Promise.all(
+        wallets.map(async (wallet) => [wallet.address, await getTrustLineStatus(wallet.address)] as const)
+      )
+      setTrustLines(Object.fromEntries(statuses))
+    }
+
+    fetchTrustLines()
+  }, [isConnected, wallets, getTrustLineStatus])
+
+  const handleSetTrustLine = async (address: string) => {
+    try {
+      setError(null)
+      setStatus("Creating trust line...")
+
+      const result = await setTrustLine(address)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      const trustLine = await getTrustLineStatus(address)
+      setTrustLines(prev => ({ ...prev, [address]: trustLine }))
+      setStatus(null)
+
+      toast({
+        title: "Trust line created",
+        description: "The employee can now receive RLUSD",
+      })
+    } catch (error) {
+      console.error("Error creating trust line:", error)
+      setError(error instanceof Error ? error.message : "Failed to create trust line")
+      setStatus(null)
+    }
+  }
+
+  const handleSaveSchedule = async (address: string, schedule: PaySchedule) => {
+    await updateMetadata(getMetadataStore(), address, { schedule })
+    setWallets(prev => prev.map(wallet => wallet.address === address ? { ...wallet, schedule } : wallet))
+    setEditingSchedule(null)
+
+    toast({
+      title: "Schedule saved",
+      description: "The employee's pay schedule has been updated",
+    })
+  }
+
+  const trustLineClassName = (trustLine: TrustLineStatus | null | undefined) => {
+    switch (trustLine?.state) {
+      case "ok":
+        return "bg-green-100 text-green-800"
+      case "limit_too_low":
+        return "bg-yellow-100 text-yellow-800"
+      case "none":
+      case "frozen":
+        return "bg-red-100 text-red-800"
+      default:
+        return "bg-gray-100 text-gray-600"
+    }
+  }
+
+  // Employee seeds imported by earlier versions are dropped once the roster is known
+  useEffect(() => {
+    if (wallets.length === 0) return
+
+    const removed = removeEmployeeSeeds(wallets.map(wallet => wallet.address))
+    if (removed.length > 0) {
+      toast({
+        title: "Employee keys removed",
+        description: `${removed.length} employee secret key(s) were removed from this browser`,
+      })
+    }
+  }, [wallets, removeEmployeeSeeds, toast])
 
   const handleImportClick = (e: React.MouseEvent) => {
     e.preventDefault()
-    setShowSecretKeyInput((prev) => !prev)
+    setShowAddressInput((prev) => !prev)
     setError(null)
     setStatus(null)
   }
 
-  const handleConnectWithSecretKey = async (e: React.MouseEvent) => {
+  const handleAddEmployee = async (e: React.MouseEvent) => {
     e.preventDefault()
     try {
       setIsLoading(true)
       setError(null)
-      setStatus("Adding employee account...")
+      setStatus("Checking employee address...")
 
-      if (!secretKey) {
-        throw new Error("Please enter a secret key")
+      if (!employeeAddress) {
+        throw new Error("Please enter the employee's XRPL address")
       }
 
       if (!isConnected) {
         await connect()
       }
 
-      // Capture the returned wallet
-      const newWallet = await addWallet(newAccountName || undefined, secretKey)
-      
-      if (!newWallet) {
-        throw new Error("Failed to add wallet")
+      const result = await addEmployee(newAccountName, employeeAddress, parseDestinationTag(destinationTag))
+      if (!result.success || !result.employee) {
+        throw new Error(result.error || "Failed to add employee")
       }
-      
-      // Use the address from the newly added wallet
-      const employeeMetadata = {
-        name: newAccountName || newWallet.name || "Unknown Employee",
-        address: newWallet.address,
-        createdAt: new Date().toISOString(),
-        lastUsed: new Date().toISOString(),
-      }
-      
-      // Save to Pinata with the correct address
-      await pinataService.saveAccountMetadata(newWallet.address, employeeMetadata)
-      
-      // Refresh the wallets list
-      const pinataAccounts = await pinataService.getAllAccounts();
-      const transformedWallets: Wallet[] = pinataAccounts.map((account: any) => {
-        // Same transformation logic as in the useEffect
-        let name, address, createdAt, lastUsed;
-        
-        if (account.metadata?.keyvalues) {
-          name = account.metadata.name || "Unknown Employee";
-          address = account.metadata.keyvalues.address || "Unknown Address";
-          createdAt = account.metadata.keyvalues.createdAt || account.date_pinned;
-          lastUsed = account.metadata.keyvalues.lastUsed || account.date_pinned;
-        } else if (account.name) {
-          name = account.name;
-          address = account.address;
-          createdAt = account.createdAt;
-          lastUsed = account.lastUsed;
-        } else {
-          name = "Unknown Employee";
-          address = "Unknown Address";
-          createdAt = account.date_pinned || new Date().toISOString();
-          lastUsed = account.date_pinned || new Date().toISOString();
-        }
-        
-        return { name, address, createdAt, lastUsed };
-      });
-      
-      setWallets(transformedWallets);
 
-      setSecretKey("")
+      const employee = result.employee
+      setWallets(prev => [...prev, { ...employee }])
+
+      setEmployeeAddress("")
+      setDestinationTag("")
       setNewAccountName("")
-      setShowSecretKeyInput(false)
+      setShowAddressInput(false)
       setStatus(null)
       
       toast({
@@ -199,7 +199,7 @@ export default function WalletConnect() {
         description: "Employee account added successfully",
       })
     } catch (error) {
-      console.error("Error connecting with secret key:", error)
+      console.error("Error adding employee:", error)
       if (error instanceof Error) {
         setError(error.message)
       } else {
@@ -218,7 +218,7 @@ export default function WalletConnect() {
       setStatus("Removing account...")
 
       removeWallet(address)
-      await pinataService.removeAccount(address);
+      await getMetadataStore().delete(address);
       
       // Update wallets list by filtering out the removed one
       setWallets(prev => prev.filter(wallet => wallet.address !== address));
@@ -266,7 +266,7 @@ export default function WalletConnect() {
 
   return (
     <div>
-      {showSecretKeyInput ? (
+      {showAddressInput ? (
         <div className="space-y-4">
           <div className="space-y-2">
             <Label htmlFor="accountName">Employee Name</Label>
@@ -278,18 +278,32 @@ export default function WalletConnect() {
             />
           </div>  
           <div className="space-y-2">
-            <Label htmlFor="secretKey">Employee Secret Key</Label>
+            <Label htmlFor="employeeAddress">Employee XRPL Address</Label>
             <Input
-              type="password"
-              id="secretKey"
-              value={secretKey}
-              onChange={(e) => setSecretKey(e.target.value)}
-              placeholder="Enter employee secret key"
+              id="employeeAddress"
+              value={employeeAddress}
+              onChange={(e) => setEmployeeAddress(e.target.value)}
+              placeholder="r... or X..."
+              className="font-mono"
+            />
+            <p className="text-xs text-muted-foreground">
+              Only the public address is needed. Never ask employees for their secret key.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="destinationTag">Destination Tag (optional)</Label>
+            <Input
+              id="destinationTag"
+              value={destinationTag}
+              onChange={(e) => setDestinationTag(e.target.value)}
+              placeholder="Required by most exchange deposit addresses"
+              inputMode="numeric"
+              className="font-mono"
             />
           </div>
           <div className="flex space-x-2">
             <Button
-              onClick={handleConnectWithSecretKey}
+              onClick={handleAddEmployee}
               disabled={isLoading}
               className="flex-1 bg-emerald-500 hover:bg-emerald-600 cursor-pointer"
             >
@@ -298,8 +312,9 @@ export default function WalletConnect() {
             <Button
               variant="outline"
               onClick={() => {
-                setShowSecretKeyInput(false)
-                setSecretKey("")
+                setShowAddressInput(false)
+                setEmployeeAddress("")
+                setDestinationTag("")
                 setNewAccountName("")
                 setError(null)
                 setStatus(null)
@@ -351,6 +366,15 @@ export default function WalletConnect() {
                           : `${balance} XRP`}
                     </span>
                   </div>
+                  {balance && typeof balance === "object" && (
+                    <div className="flex justify-between items-center text-sm">
+                      <span className="text-muted-foreground">Available after reserve:</span>
+                      <span>
+                        {balance.available} XRP
+                        {Number(balance.escrowed) > 0 && ` (${balance.escrowed} XRP more in escrow)`}
+                      </span>
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -381,14 +405,53 @@ export default function WalletConnect() {
                               <Copy className="h-4 w-4" />
                             </Button>
                           </div>
+                          {wallet.department && (
+                            <div className="text-xs text-muted-foreground mt-1">Department: {wallet.department}</div>
+                          )}
+                          {wallet.destinationTag !== undefined && (
+                            <div className="text-xs text-muted-foreground mt-1">Destination tag: {wallet.destinationTag}</div>
+                          )}
                           <div className="text-xs text-muted-foreground mt-1">
                             Created: {formatDate(wallet.createdAt)}
                           </div>
                           <div className="text-xs text-muted-foreground">
                             Last used: {formatDate(wallet.lastUsed)}
                           </div>
+                          <div className="text-xs text-muted-foreground">
+                            Pay schedule: {wallet.schedule
+                              ? `${wallet.schedule.amount} ${wallet.schedule.salaryCurrency ? `${wallet.schedule.salaryCurrency} paid in ${wallet.schedule.currency}` : wallet.schedule.currency}, ${FREQUENCY_LABELS[wallet.schedule.frequency].toLowerCase()} from ${wallet.schedule.anchorDate}`
+                              : "None"}
+                          </div>
+                          <span
+                            className={`inline-block mt-1 px-2 py-1 text-xs rounded-full ${trustLineClassName(trustLines[wallet.address])}`}
+                          >
+                            {trustLines[wallet.address]
+                              ? `RLUSD: ${TRUST_LINE_LABELS[trustLines[wallet.address]!.state]}`
+                              : "RLUSD: Unknown"}
+                          </span>
                         </div>
                         <div className="flex items-center gap-1">
+                          {trustLines[wallet.address]?.state !== "ok" && getSecretKey(wallet.address) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleSetTrustLine(wallet.address)}
+                              className="h-8 px-2 cursor-pointer"
+                              title="Set up RLUSD trust line"
+                            >
+                              <Link2 className="h-4 w-4 mr-1" />
+                              Trust line
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setEditingSchedule(editingSchedule === wallet.address ? null : wallet.address)}
+                            className="h-8 w-8 p-0 cursor-pointer"
+                            title="Edit pay schedule"
+                          >
+                            <CalendarClock className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -399,6 +462,13 @@ export default function WalletConnect() {
                           </Button>
                         </div>
                       </div>
+                      {editingSchedule === wallet.address && (
+                        <PayScheduleForm
+                          schedule={wallet.schedule}
+                          onSave={(schedule) => handleSaveSchedule(wallet.address, schedule)}
+                          onCancel={() => setEditingSchedule(null)}
+                        />
+                      )}
                     </CardContent>
                   </Card>
                 ))}
@@ -408,13 +478,26 @@ export default function WalletConnect() {
 
           <Separator />
 
-          <div>
-            <h3 className="text-lg font-medium mb-3">Add New Employee</h3>
-            <Button variant="outline" onClick={handleImportClick} className="w-full max-w-[300px] cursor-pointer">
-              <Import className="mr-2 h-4 w-4" />
-              Add Employee Account
-            </Button>
-          </div>
+          {showRosterImport ? (
+            <RosterImport
+              onImported={() => setRosterVersion((version) => version + 1)}
+              onCancel={() => setShowRosterImport(false)}
+            />
+          ) : (
+            <div>
+              <h3 className="text-lg font-medium mb-3">Add New Employee</h3>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={handleImportClick} className="w-full max-w-[300px] cursor-pointer">
+                  <Import className="mr-2 h-4 w-4" />
+                  Add Employee Account
+                </Button>
+                <Button variant="outline" onClick={() => setShowRosterImport(true)} className="w-full max-w-[300px] cursor-pointer">
+                  <FileUp className="mr-2 h-4 w-4" />
+                  Import from CSV
+                </Button>
+              </div>
+            </div>
+          )}
 
           {status && (
             <Alert className="bg-blue-50 text-blue-800 border-blue-200">
@@ -1,17 +1,82 @@
 import React, { createContext, useContext, ReactNode } from "react";
 import { useXRPL } from "../hooks/useXRPL";
+import { PaymentAmount } from "../lib/currency";
+import { AccountMetadata } from "../lib/metadata-store";
+import { TrustLineStatus } from "../lib/trustlines";
+import { PayrollRun } from "../lib/payroll-runs";
+import { NetworkConfig, XRPLNetwork } from "../lib/networks";
+import { TransactionPage } from "../lib/history";
+import { IssuedPayslip } from "../lib/payslips";
+import { AccountBalance, SendCheckOptions, SendPaymentOptions } from "../lib/xrpl";
+import { FiatCurrency, FxRate } from "../lib/fx";
+import { PaymentProjection } from "../lib/preflight";
+import { Submission } from "../lib/submission-tracker";
+import { PaymentProposal, SignerListConfig } from "../lib/multisig";
+import { AccountKeys, SigningKeyKind } from "../lib/account-keys";
+import { EscrowEntry, EscrowParams, EscrowRecord } from "../lib/escrows";
+import { CheckRecord } from "../lib/checks";
+import { ChannelClaim, ChannelEntry, ChannelParams, ChannelRecord } from "../lib/channels";
 
 interface XRPLContextProps {
+  network: XRPLNetwork;
+  networkConfig: NetworkConfig;
+  switchNetwork: (network: XRPLNetwork) => Promise<boolean>;
   isConnected: boolean;
+  isVaultLocked: boolean;
+  isVaultInitialized: boolean;
+  unlockVault: (passphrase: string) => Promise<{ success: boolean; error?: string }>;
+  lockVault: () => void;
   walletAddress: string | null;
-  balance: string | { xrp: string } | null;
+  balance: string | AccountBalance | null;
   connect: () => Promise<boolean>;
-  addWallet: (name?: string, secret?: string) => Promise<{ address: string; name?: string; seed?: string } | null>;
+  addWallet: (name?: string, secret?: string) => Promise<{ address: string; name?: string } | null>;
+  addEmployee: (name: string, address: string, destinationTag?: number) => Promise<{ success: boolean; error?: string; employee?: AccountMetadata }>;
+  removeEmployeeSeeds: (employeeAddresses: string[]) => string[];
   switchWallet: (address: string) => void;
-  getWallets: () => { address: string; name?: string; seed?: string }[];
+  getWallets: () => { address: string; name?: string }[];
   removeWallet: (address: string) => void;
   getSecretKey: (address: string) => string | null;
-  sendPayment: (destination: string, amount: string) => Promise<{ success: boolean; error?: string; txid?: string }>;
+  sendPayment: (destination: string, amount: PaymentAmount, options?: SendPaymentOptions) => Promise<{ success: boolean; error?: string; txid?: string; amount?: PaymentAmount; payslip?: IssuedPayslip; outcomeUnknown?: boolean; alreadyPaid?: boolean }>;
+  getTrustLineStatus: (address: string, amount?: PaymentAmount) => Promise<TrustLineStatus | null>;
+  setTrustLine: (address: string, limit?: string) => Promise<{ success: boolean; error?: string; txid?: string }>;
+  fundWallet: (address: string) => Promise<{ success: boolean; error?: string }>;
+  validatePayrollRun: (run: PayrollRun) => Promise<Record<string, string> | null>;
+  executePayrollRun: (run: PayrollRun, onUpdate?: (run: PayrollRun) => void) => Promise<{ success: boolean; error?: string; run?: PayrollRun }>;
+  getTransactionHistory: (options?: { limit?: number; marker?: unknown }) => Promise<TransactionPage | null>;
+  getFxRate: (fiat: FiatCurrency, payout: Pick<PaymentAmount, "currency" | "issuer">) => Promise<{ success: boolean; error?: string; rate?: FxRate }>;
+  getCommittedPeriods: (since: string) => Promise<Set<string> | null>;
+  getPaymentProjection: (amounts: PaymentAmount[]) => Promise<PaymentProjection | null>;
+  reconcileSubmissions: () => Promise<Submission[] | null>;
+  createEscrow: (params: EscrowParams) => Promise<{ success: boolean; error?: string; escrow?: EscrowRecord; fulfillment?: string; outcomeUnknown?: boolean }>;
+  getEscrows: () => Promise<EscrowEntry[] | null>;
+  hasEscrowFulfillment: (escrow: EscrowEntry) => boolean;
+  finishEscrow: (escrow: EscrowEntry, fulfillment?: string) => Promise<{ success: boolean; error?: string; txid?: string }>;
+  cancelEscrow: (escrow: EscrowEntry) => Promise<{ success: boolean; error?: string; txid?: string }>;
+  sendCheck: (destination: string, amount: PaymentAmount, options?: SendCheckOptions) => Promise<{ success: boolean; error?: string; check?: CheckRecord; payslip?: IssuedPayslip; outcomeUnknown?: boolean; alreadyPaid?: boolean }>;
+  getChecks: () => Promise<CheckRecord[] | null>;
+  cancelCheck: (check: CheckRecord) => Promise<{ success: boolean; error?: string; txid?: string }>;
+  openChannel: (params: ChannelParams, contractor?: { name?: string; hourlyRate?: string }) => Promise<{ success: boolean; error?: string; channel?: ChannelRecord }>;
+  getChannels: () => Promise<ChannelEntry[] | null>;
+  getChannelRecord: (id: string) => ChannelRecord | null;
+  approveChannelHours: (channel: ChannelEntry, hours: string) => { success: boolean; error?: string; claim?: ChannelClaim };
+  exportChannelClaim: (id: string) => { success: boolean; error?: string; json?: string };
+  redeemChannelClaim: (channel: ChannelEntry) => Promise<{ success: boolean; error?: string; txid?: string }>;
+  closeChannel: (channel: ChannelEntry) => Promise<{ success: boolean; error?: string; txid?: string }>;
+  getAccountKeys: (address?: string) => Promise<AccountKeys | null>;
+  getVaultKeyKind: (address?: string) => SigningKeyKind | null;
+  rotateRegularKey: () => Promise<{ success: boolean; error?: string; regularKey?: string }>;
+  recoverWithMasterKey: (masterSeed: string) => Promise<{ success: boolean; error?: string; regularKey?: string }>;
+  importAccountKey: (account: string, seed: string, name?: string) => Promise<{ success: boolean; error?: string }>;
+  setMasterKeyDisabled: (disabled: boolean) => Promise<{ success: boolean; error?: string; txid?: string }>;
+  getSignerList: (address?: string) => Promise<SignerListConfig | null>;
+  setSignerList: (config: SignerListConfig) => Promise<{ success: boolean; error?: string; txid?: string }>;
+  getProposals: () => PaymentProposal[];
+  proposePayroll: (run: PayrollRun) => Promise<{ success: boolean; error?: string; proposal?: PaymentProposal; run?: PayrollRun }>;
+  approveProposal: (id: string, approver: string) => { success: boolean; error?: string; proposal?: PaymentProposal };
+  rejectProposal: (id: string, signer: string, reason?: string) => { success: boolean; error?: string; proposal?: PaymentProposal };
+  submitProposal: (id: string, onUpdate?: (run: PayrollRun) => void) => Promise<{ success: boolean; error?: string; proposal?: PaymentProposal; run?: PayrollRun }>;
+  exportProposal: (id: string) => string | null;
+  importProposal: (json: string) => { success: boolean; error?: string; proposal?: PaymentProposal };
 }
 
 const XRPLContext = createContext<XRPLContextProps | undefined>(undefined);
@@ -1,188 +1,642 @@
 "use client"
 
 import { useState, useEffect, useCallback } from "react"
-import { Client, Wallet, xrpToDrops } from "xrpl"
+import { PaymentAmount } from "../lib/currency"
+import { PayrollRun } from "../lib/payroll-runs"
+import { TrustLineStatus } from "../lib/trustlines"
+import { FiatCurrency } from "../lib/fx"
+import { SignerListConfig } from "../lib/multisig"
+import { EscrowEntry, EscrowParams } from "../lib/escrows"
+import { CheckRecord } from "../lib/checks"
+import { ChannelEntry, ChannelParams } from "../lib/channels"
+import { SubmissionPendingError, SubmissionSettledError, SubmissionUnknownError } from "../lib/submission-tracker"
+import { XRPLNetwork, getNetwork } from "../lib/networks"
+import { AccountBalance, SendCheckOptions, SendPaymentOptions, XRPLService, XRPLServiceState } from "../lib/xrpl"
 
+const service = XRPLService.getInstance()
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback
+
+// React adapter over XRPLService. It mirrors the service state into React
+// and turns thrown errors into the { success, error } results the
+// components expect.
 export const useXRPL = () => {
-  const [client, setClient] = useState<Client | null>(null)
-  const [isConnected, setIsConnected] = useState(false)
-  const [walletAddress, setWalletAddress] = useState<string | null>(null)
-  const [balance, setBalance] = useState<string | { xrp: string } | null>(null)
-  const [wallets, setWallets] = useState<{ address: string; name?: string; seed?: string }[]>([])
+  // Vault contents are only readable in the browser, so they are filled in
+  // after hydration to keep the first render identical to the server's
+  const [state, setState] = useState<XRPLServiceState>(() => ({
+    ...service.getState(),
+    wallets: [],
+    isVaultInitialized: false,
+  }))
+  const [balance, setBalance] = useState<string | AccountBalance | null>(null)
+  const { network, isConnected, walletAddress, wallets, isVaultLocked, isVaultInitialized } = state
+
+  useEffect(() => {
+    setState(service.getState())
+    const unsubscribe = service.subscribe(setState)
+
+    // Cleanup on unmount
+    return () => {
+      unsubscribe()
+      service.disconnect().catch(() => {})
+    }
+  }, [])
+
+  const refreshBalance = useCallback(async () => {
+    try {
+      setBalance(await service.getBalance())
+    } catch {
+      setBalance(null)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isConnected && walletAddress) {
+      refreshBalance()
+    } else {
+      setBalance(null)
+    }
+  }, [isConnected, walletAddress, network, refreshBalance])
+
+  const unlockVault = useCallback(async (passphrase: string) => {
+    try {
+      await service.unlockVault(passphrase)
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Failed to unlock vault") }
+    }
+  }, [])
+
+  const lockVault = useCallback(() => {
+    service.lockVault()
+  }, [])
 
   const connect = useCallback(async () => {
     try {
-      // Create a client and connect to XRPL Testnet
-      const xrplClient = new Client("wss://s.altnet.rippletest.net:51233")
-      await xrplClient.connect()
-      setClient(xrplClient)
-      setIsConnected(true)
-      console.log("Connected to XRPL")
-      
-      // If there are wallets, set the first one as active
-      if (wallets.length > 0) {
-        setWalletAddress(wallets[0].address)
-      }
-      
+      await service.connect()
       return true
     } catch (error) {
       console.error("Failed to connect to XRPL:", error)
       return false
     }
-  }, [wallets])
-
-  const getBalance = useCallback(async (address: string) => {
-    if (!client || !address) return null
-    
-    try {
-      const response = await client.request({
-        command: "account_info",
-        account: address,
-        ledger_index: "validated"
-      })
-      
-      // Convert drops to XRP (1 XRP = 1,000,000 drops)
-      const xrpBalance = (Number(response.result.account_data.Balance) / 1000000).toString()
-      return { xrp: xrpBalance }
-    } catch (error) {
-      console.error("Failed to get balance:", error)
-      return null
-    }
-  }, [client])
+  }, [])
 
-  useEffect(() => {
-    if (client && walletAddress) {
-      getBalance(walletAddress).then(setBalance)
+  const switchNetwork = useCallback(async (target: XRPLNetwork) => {
+    try {
+      await service.setNetwork(target)
+      return true
+    } catch (error) {
+      console.error("Failed to switch network:", error)
+      return false
     }
-  }, [walletAddress, getBalance, client])
+  }, [])
 
   const addWallet = useCallback(async (name?: string, secret?: string) => {
-    if (!client) {
-      console.error("Client not connected")
-      return null
-    }
-    
     try {
-      let wallet
-      
-      if (secret) {
-        // Import existing wallet using seed
-        wallet = Wallet.fromSeed(secret)
-      } else {
-        // Generate new wallet
-        wallet = Wallet.generate()
-      }
-      
-      const newWallet = {
-        address: wallet.address,
-        name: name || "New Account",
-        seed: wallet.seed,
-      }
-      
-      setWallets((prevWallets) => [...prevWallets, newWallet])
-      setWalletAddress(newWallet.address)
-      
-      return newWallet
+      return await service.addWallet(name, secret)
     } catch (error) {
       console.error("Failed to add wallet:", error)
       return null
     }
-  }, [client])
+  }, [])
+
+  const addEmployee = useCallback(async (name: string, address: string, destinationTag?: number) => {
+    try {
+      const employee = await service.addEmployee(name, address, destinationTag)
+      return { success: true, employee }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Failed to add employee") }
+    }
+  }, [])
+
+  // Recreated when the paying account changes, since that account is never removed
+  const removeEmployeeSeeds = useCallback((employeeAddresses: string[]) => {
+    return walletAddress ? service.removeEmployeeSeeds(employeeAddresses) : []
+  }, [walletAddress])
 
   const switchWallet = useCallback((address: string) => {
-    setWalletAddress(address)
+    service.switchWallet(address).catch((error) => console.error("Failed to switch wallet:", error))
   }, [])
 
   const getWallets = useCallback(() => {
     return wallets
   }, [wallets])
 
-  const removeWallet = useCallback(
-    (address: string) => {
-      setWallets((prevWallets) => prevWallets.filter((wallet) => wallet.address !== address))
-      if (walletAddress === address) {
-        setWalletAddress(wallets.length > 1 ? wallets[0].address : null)
-      }
-    },
-    [walletAddress, wallets],
-  )
+  const removeWallet = useCallback((address: string) => {
+    service.removeWallet(address)
+  }, [])
 
+  // Refuses to hand out anything while the vault is locked
   const getSecretKey = useCallback(
     (address: string) => {
-      const wallet = wallets.find((w) => w.address === address)
-      return wallet?.seed || null
+      if (isVaultLocked) return null
+      return service.getSecretKey(address)
     },
-    [wallets],
+    [isVaultLocked],
   )
 
-  const sendPayment = useCallback(async (destination: string, amount: string) => {
-    if (!client || !walletAddress) {
-      return { success: false, error: "Client not connected or wallet not selected" }
-    }
-    
-    const seed = getSecretKey(walletAddress)
-    if (!seed) {
-      return { success: false, error: "Wallet seed not found" }
-    }
-    
-    try {
-      // Create wallet instance from seed
-      const wallet = Wallet.fromSeed(seed)
-      
-      // Prepare payment transaction
-      const prepared = await client.autofill({
-        TransactionType: "Payment",
-        Account: walletAddress,
-        Amount: xrpToDrops(amount), // Convert XRP to drops
-        Destination: destination
-      })
-      
-      // Sign the transaction
-      const signed = wallet.sign(prepared)
-      
-      // Submit the transaction
-      const result = await client.submitAndWait(signed.tx_blob)
-      
-      // Check transaction result
-      if (result.result.meta.TransactionResult === "tesSUCCESS") {
-        // Update the balance after successful transaction
-        const newBalance = await getBalance(walletAddress)
-        setBalance(newBalance)
-        return { success: true, txid: result.result.hash }
-      } else {
-        return { 
-          success: false, 
-          error: `Transaction failed: ${result.result.meta.TransactionResult}`
-        }
-      }
+  const sendPayment = useCallback(async (destination: string, amount: PaymentAmount, options?: SendPaymentOptions) => {
+    if (isVaultLocked) {
+      return { success: false, error: "Vault is locked" }
+    }
+
+    try {
+      const result = await service.sendPayment(destination, amount, options)
+      await refreshBalance()
+      return { success: true, txid: result.hash, amount: result.amount, payslip: result.payslip }
     } catch (error) {
       console.error("Payment error:", error)
-      return { 
-        success: false, 
-        error: error instanceof Error ? error.message : "Unknown error during payment"
+      return {
+        success: false,
+        error: errorMessage(error, "Unknown error during payment"),
+        // The payment may still go through, so it must not be sent again yet
+        outcomeUnknown: error instanceof SubmissionUnknownError || error instanceof SubmissionPendingError,
+        alreadyPaid: error instanceof SubmissionSettledError,
       }
     }
-  }, [client, walletAddress, getSecretKey, getBalance])
+  }, [isVaultLocked, refreshBalance])
 
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (client) {
-        client.disconnect()
+  const getTrustLineStatus = useCallback(async (address: string, amount?: PaymentAmount): Promise<TrustLineStatus | null> => {
+    try {
+      return await service.getTrustLineStatus(address, amount)
+    } catch {
+      return null
+    }
+  }, [])
+
+  const setTrustLine = useCallback(async (address: string, limit?: string) => {
+    if (isVaultLocked) {
+      return { success: false, error: "Vault is locked" }
+    }
+
+    try {
+      const result = await service.setTrustLine(address, undefined, limit)
+      return { success: true, txid: result.result.hash }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error creating trust line") }
+    }
+  }, [isVaultLocked])
+
+  const fundWallet = useCallback(async (address: string) => {
+    if (isVaultLocked) {
+      return { success: false, error: "Vault is locked" }
+    }
+
+    try {
+      await service.fundWallet(address)
+      if (address === walletAddress) {
+        await refreshBalance()
       }
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error funding wallet") }
+    }
+  }, [isVaultLocked, walletAddress, refreshBalance])
+
+  const validatePayrollRun = useCallback(async (run: PayrollRun) => {
+    try {
+      return await service.validatePayrollRun(run)
+    } catch {
+      return null
+    }
+  }, [])
+
+  const executePayrollRun = useCallback(async (run: PayrollRun, onUpdate?: (run: PayrollRun) => void) => {
+    if (isVaultLocked) {
+      return { success: false, error: "Vault is locked" }
+    }
+
+    try {
+      const finished = await service.runPayroll(run, onUpdate)
+      await refreshBalance()
+      return { success: finished.status === "completed", run: finished }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error during payroll run") }
+    }
+  }, [isVaultLocked, refreshBalance])
+
+  const createEscrow = useCallback(async (params: EscrowParams) => {
+    if (isVaultLocked) {
+      return { success: false, error: "Vault is locked" }
+    }
+
+    try {
+      const { escrow, fulfillment } = await service.createEscrow(params)
+      await refreshBalance()
+      return { success: true, escrow, fulfillment }
+    } catch (error) {
+      return {
+        success: false,
+        error: errorMessage(error, "Unknown error creating escrow"),
+        // The escrow may still be created; its fulfillment is already stored
+        outcomeUnknown: error instanceof SubmissionUnknownError,
+      }
+    }
+  }, [isVaultLocked, refreshBalance])
+
+  const getEscrows = useCallback(async () => {
+    try {
+      return await service.getEscrows()
+    } catch {
+      return null
+    }
+  }, [])
+
+  const hasEscrowFulfillment = useCallback((escrow: EscrowEntry) => service.hasEscrowFulfillment(escrow), [])
+
+  const finishEscrow = useCallback(async (escrow: EscrowEntry, fulfillment?: string) => {
+    if (isVaultLocked) {
+      return { success: false, error: "Vault is locked" }
+    }
+
+    try {
+      const result = await service.finishEscrow(escrow, fulfillment)
+      await refreshBalance()
+      return { success: true, txid: result.result.hash }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error releasing escrow") }
+    }
+  }, [isVaultLocked, refreshBalance])
+
+  const cancelEscrow = useCallback(async (escrow: EscrowEntry) => {
+    if (isVaultLocked) {
+      return { success: false, error: "Vault is locked" }
+    }
+
+    try {
+      const result = await service.cancelEscrow(escrow)
+      await refreshBalance()
+      return { success: true, txid: result.result.hash }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error cancelling escrow") }
+    }
+  }, [isVaultLocked, refreshBalance])
+
+  const sendCheck = useCallback(async (destination: string, amount: PaymentAmount, options?: SendCheckOptions) => {
+    if (isVaultLocked) {
+      return { success: false, error: "Vault is locked" }
+    }
+
+    try {
+      const { check, payslip } = await service.sendCheck(destination, amount, options)
+      await refreshBalance()
+      return { success: true, check, payslip }
+    } catch (error) {
+      return {
+        success: false,
+        error: errorMessage(error, "Unknown error writing check"),
+        // The check may still be written, so it must not be sent again yet
+        outcomeUnknown: error instanceof SubmissionUnknownError || error instanceof SubmissionPendingError,
+        alreadyPaid: error instanceof SubmissionSettledError,
+      }
+    }
+  }, [isVaultLocked, refreshBalance])
+
+  const getChecks = useCallback(async () => {
+    try {
+      return await service.getChecks()
+    } catch {
+      return null
+    }
+  }, [])
+
+  const cancelCheck = useCallback(async (check: CheckRecord) => {
+    if (isVaultLocked) {
+      return { success: false, error: "Vault is locked" }
+    }
+
+    try {
+      const result = await service.cancelCheck(check)
+      await refreshBalance()
+      return { success: true, txid: result.result.hash }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error cancelling check") }
+    }
+  }, [isVaultLocked, refreshBalance])
+
+  const openChannel = useCallback(async (params: ChannelParams, contractor?: { name?: string; hourlyRate?: string }) => {
+    if (isVaultLocked) {
+      return { success: false, error: "Vault is locked" }
+    }
+
+    try {
+      const channel = await service.openChannel(params, contractor)
+      await refreshBalance()
+      return { success: true, channel }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error opening payment channel") }
     }
-  }, [client])
+  }, [isVaultLocked, refreshBalance])
+
+  const getChannels = useCallback(async () => {
+    try {
+      return await service.getChannels()
+    } catch {
+      return null
+    }
+  }, [])
+
+  const getChannelRecord = useCallback((id: string) => service.getChannelRecord(id), [])
+
+  const approveChannelHours = useCallback((channel: ChannelEntry, hours: string) => {
+    if (isVaultLocked) {
+      return { success: false, error: "Vault is locked" }
+    }
+
+    try {
+      return { success: true, claim: service.approveChannelHours(channel, hours) }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error approving hours") }
+    }
+  }, [isVaultLocked])
+
+  const exportChannelClaim = useCallback((id: string) => {
+    try {
+      return { success: true, json: service.exportChannelClaim(id) }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error exporting claim") }
+    }
+  }, [])
+
+  const redeemChannelClaim = useCallback(async (channel: ChannelEntry) => {
+    if (isVaultLocked) {
+      return { success: false, error: "Vault is locked" }
+    }
+
+    try {
+      const result = await service.redeemChannelClaim(channel)
+      return { success: true, txid: result.result.hash }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error redeeming claim") }
+    }
+  }, [isVaultLocked])
+
+  const closeChannel = useCallback(async (channel: ChannelEntry) => {
+    if (isVaultLocked) {
+      return { success: false, error: "Vault is locked" }
+    }
+
+    try {
+      const result = await service.closeChannel(channel)
+      await refreshBalance()
+      return { success: true, txid: result.result.hash }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error closing payment channel") }
+    }
+  }, [isVaultLocked, refreshBalance])
+
+  const getAccountKeys = useCallback(async (address?: string) => {
+    try {
+      return await service.getAccountKeys(address)
+    } catch {
+      return null
+    }
+  }, [])
+
+  const getVaultKeyKind = useCallback((address?: string) => {
+    try {
+      return service.getVaultKeyKind(address)
+    } catch {
+      return null
+    }
+  }, [])
+
+  const rotateRegularKey = useCallback(async () => {
+    if (isVaultLocked) {
+      return { success: false, error: "Vault is locked" }
+    }
+
+    try {
+      return { success: true, regularKey: await service.rotateRegularKey() }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error rotating the regular key") }
+    }
+  }, [isVaultLocked])
+
+  const recoverWithMasterKey = useCallback(async (masterSeed: string) => {
+    if (isVaultLocked) {
+      return { success: false, error: "Vault is locked" }
+    }
+
+    try {
+      return { success: true, regularKey: await service.recoverWithMasterKey(masterSeed) }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error recovering the account") }
+    }
+  }, [isVaultLocked])
+
+  const importAccountKey = useCallback(async (account: string, seed: string, name?: string) => {
+    if (isVaultLocked) {
+      return { success: false, error: "Vault is locked" }
+    }
+
+    try {
+      await service.importAccountKey(account, seed, name)
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error importing the key") }
+    }
+  }, [isVaultLocked])
+
+  const setMasterKeyDisabled = useCallback(async (disabled: boolean) => {
+    if (isVaultLocked) {
+      return { success: false, error: "Vault is locked" }
+    }
+
+    try {
+      const result = await service.setMasterKeyDisabled(disabled)
+      await refreshBalance()
+      return { success: true, txid: result.result.hash }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error changing the master key") }
+    }
+  }, [isVaultLocked, refreshBalance])
+
+  const getSignerList = useCallback(async (address?: string) => {
+    try {
+      return await service.getSignerList(address)
+    } catch {
+      return null
+    }
+  }, [])
+
+  const setSignerList = useCallback(async (config: SignerListConfig) => {
+    if (isVaultLocked) {
+      return { success: false, error: "Vault is locked" }
+    }
+
+    try {
+      const result = await service.setSignerList(config)
+      await refreshBalance()
+      return { success: true, txid: result.result.hash }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error setting signer list") }
+    }
+  }, [isVaultLocked, refreshBalance])
+
+  const getProposals = useCallback(() => service.getProposals(), [])
+
+  const proposePayroll = useCallback(async (run: PayrollRun) => {
+    try {
+      const created = await service.proposePayroll(run)
+      return { success: true, ...created }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error creating payroll proposal") }
+    }
+  }, [])
+
+  const approveProposal = useCallback((id: string, approver: string) => {
+    if (isVaultLocked) {
+      return { success: false, error: "Vault is locked" }
+    }
+
+    try {
+      return { success: true, proposal: service.approveProposal(id, approver) }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error signing payroll proposal") }
+    }
+  }, [isVaultLocked])
+
+  const rejectProposal = useCallback((id: string, signer: string, reason?: string) => {
+    if (isVaultLocked) {
+      return { success: false, error: "Vault is locked" }
+    }
+
+    try {
+      return { success: true, proposal: service.rejectProposal(id, signer, reason) }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error rejecting payroll proposal") }
+    }
+  }, [isVaultLocked])
+
+  const submitProposal = useCallback(async (id: string, onUpdate?: (run: PayrollRun) => void) => {
+    try {
+      const submitted = await service.submitProposal(id, onUpdate)
+      await refreshBalance()
+      return { success: submitted.run.status === "completed", ...submitted }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error submitting payroll proposal") }
+    }
+  }, [refreshBalance])
+
+  const exportProposal = useCallback((id: string) => {
+    try {
+      return service.exportProposal(id)
+    } catch {
+      return null
+    }
+  }, [])
+
+  const importProposal = useCallback((json: string) => {
+    try {
+      return { success: true, proposal: service.importProposal(json) }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error importing payroll proposal") }
+    }
+  }, [])
+
+  const getPaymentProjection = useCallback(async (amounts: PaymentAmount[]) => {
+    try {
+      return await service.getPaymentProjection(amounts)
+    } catch {
+      return null
+    }
+  }, [])
+
+  const reconcileSubmissions = useCallback(async () => {
+    try {
+      const submissions = await service.reconcileSubmissions()
+      await refreshBalance()
+      return submissions
+    } catch {
+      return null
+    }
+  }, [refreshBalance])
+
+  const getFxRate = useCallback(async (fiat: FiatCurrency, payout: Pick<PaymentAmount, "currency" | "issuer">) => {
+    try {
+      return { success: true, rate: await service.getFxRate(fiat, payout) }
+    } catch (error) {
+      return { success: false, error: errorMessage(error, "Unknown error reading the order book") }
+    }
+  }, [])
+
+  const getCommittedPeriods = useCallback(async (since: string) => {
+    try {
+      return await service.getCommittedPeriods(since)
+    } catch {
+      return null
+    }
+  }, [])
+
+  const getTransactionHistory = useCallback(async (options?: { limit?: number; marker?: unknown }) => {
+    try {
+      return await service.getTransactionHistory(options)
+    } catch {
+      return null
+    }
+  }, [])
 
   return {
+    network,
+    networkConfig: getNetwork(network),
+    switchNetwork,
     isConnected,
+    isVaultLocked,
+    isVaultInitialized,
+    unlockVault,
+    lockVault,
     walletAddress,
     balance,
     connect,
     addWallet,
+    addEmployee,
+    removeEmployeeSeeds,
     switchWallet,
     getWallets,
     removeWallet,
     getSecretKey,
     sendPayment,
+    getTrustLineStatus,
+    setTrustLine,
+    fundWallet,
+    validatePayrollRun,
+    executePayrollRun,
+    getTransactionHistory,
+    getFxRate,
+    getCommittedPeriods,
+    getPaymentProjection,
+    reconcileSubmissions,
+    createEscrow,
+    getEscrows,
+    hasEscrowFulfillment,
+    finishEscrow,
+    cancelEscrow,
+    sendCheck,
+    getChecks,
+    cancelCheck,
+    openChannel,
+    getChannels,
+    getChannelRecord,
+    approveChannelHours,
+    exportChannelClaim,
+    redeemChannelClaim,
+    closeChannel,
+    getAccountKeys,
+    getVaultKeyKind,
+    rotateRegularKey,
+    recoverWithMasterKey,
+    importAccountKey,
+    setMasterKeyDisabled,
+    getSignerList,
+    setSignerList,
+    getProposals,
+    proposePayroll,
+    approveProposal,
+    rejectProposal,
+    submitProposal,
+    exportProposal,
+    importProposal,
   }
-}
\ No newline at end of file
+}
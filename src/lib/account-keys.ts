@@ -0,0 +1,104 @@
+import { AccountSet, AccountSetAsfFlags, Client, LedgerEntry, SetRegularKey, Wallet, deriveAddress } from 'xrpl';
+
+// Which keys may sign for an account. The master key is the one the address
+// was derived from; a regular key is a second key pair the account names
+// with SetRegularKey and can replace at any time.
+export interface AccountKeys {
+  account: string;
+  regularKey?: string;
+  masterDisabled: boolean;
+  // A signer list can also sign, e.g. to replace a lost regular key
+  hasSignerList: boolean;
+}
+
+export type SigningKeyKind = 'master' | 'regular';
+
+// A wallet that signs for `account`, whichever of its keys `seed` is
+export function walletForAccount(account: string, seed: string): Wallet {
+  const wallet = Wallet.fromSeed(seed);
+  return wallet.classicAddress === account ? wallet : Wallet.fromSeed(seed, { masterAddress: account });
+}
+
+// Whether `wallet` holds the master or the regular key of its account
+export function getSigningKeyKind(wallet: Wallet): SigningKeyKind {
+  return deriveAddress(wallet.publicKey) === wallet.address ? 'master' : 'regular';
+}
+
+export async function getAccountKeys(client: Client, account: string): Promise<AccountKeys> {
+  const response = await client.request({
+    command: 'account_info',
+    account,
+    signer_lists: true,
+    ledger_index: 'validated',
+  });
+  // API v2 returns the lists next to account_data, v1 nested inside it
+  const result = response.result as { signer_lists?: unknown[]; account_data: { signer_lists?: unknown[] } };
+  const { RegularKey, Flags } = response.result.account_data;
+  const lists = result.signer_lists || result.account_data.signer_lists || [];
+
+  return {
+    account,
+    regularKey: RegularKey,
+    masterDisabled: ((Flags ?? 0) & LedgerEntry.AccountRootFlags.lsfDisableMaster) !== 0,
+    hasSignerList: lists.length > 0,
+  };
+}
+
+// Throws unless `wallet` can currently sign for its account
+export function assertCanSign(keys: AccountKeys, wallet: Wallet) {
+  const kind = getSigningKeyKind(wallet);
+  if (kind === 'master' && keys.masterDisabled) {
+    throw new Error('The master key of this account is disabled. Sign with its regular key instead.');
+  }
+  if (kind === 'regular' && deriveAddress(wallet.publicKey) !== keys.regularKey) {
+    throw new Error('This key is no longer the regular key of the account');
+  }
+}
+
+async function submit(client: Client, wallet: Wallet, tx: SetRegularKey | AccountSet) {
+  const prepared = await client.autofill(tx);
+  const signed = wallet.sign(prepared);
+  const result = await client.submitAndWait(signed.tx_blob);
+
+  const meta = result.result.meta;
+  const resultCode = typeof meta === 'object' ? meta.TransactionResult : 'unknown';
+  if (resultCode !== 'tesSUCCESS') {
+    throw new Error(`${tx.TransactionType} failed: ${resultCode}`);
+  }
+  return result;
+}
+
+// Names `regularKey` as the account's regular key, or removes the regular
+// key when it is left out. Either key of the account may sign.
+export async function setRegularKey(client: Client, wallet: Wallet, regularKey?: string) {
+  const keys = await getAccountKeys(client, wallet.address);
+  assertCanSign(keys, wallet);
+  if (!regularKey && keys.masterDisabled && !keys.hasSignerList) {
+    throw new Error('The regular key cannot be removed while the master key is disabled');
+  }
+
+  const tx: SetRegularKey = { TransactionType: 'SetRegularKey', Account: wallet.address };
+  if (regularKey) {
+    tx.RegularKey = regularKey;
+  }
+  return submit(client, wallet, tx);
+}
+
+// Disabling the master key leaves the regular key (and any signer list) as
+// the only way to sign. Only they can enable it again, so a lost regular
+// key on an account without a signer list locks the account for good.
+export async function setMasterKeyDisabled(client: Client, wallet: Wallet, disabled: boolean) {
+  const keys = await getAccountKeys(client, wallet.address);
+  assertCanSign(keys, wallet);
+  if (disabled && !keys.regularKey && !keys.hasSignerList) {
+    throw new Error('Set a regular key before disabling the master key');
+  }
+
+  const tx: AccountSet = { TransactionType: 'AccountSet', Account: wallet.address };
+  if (disabled) {
+    tx.SetFlag = AccountSetAsfFlags.asfDisableMaster;
+  } else {
+    tx.ClearFlag = AccountSetAsfFlags.asfDisableMaster;
+  }
+  return submit(client, wallet, tx);
+}
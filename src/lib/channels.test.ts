@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { Wallet, verifyPaymentChannelClaim } from 'xrpl';
+import { ChannelEntry, ChannelRecord, approveHours, signClaim, verifyClaim } from './channels';
+
+const company = Wallet.generate();
+const other = Wallet.generate();
+const CONTRACTOR = 'rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH';
+const CHANNEL_ID = 'C1AE6DDDEEC05CF2978C0BAD6FE302948E9533691DC749DCDD3B9E5992CA6198';
+
+function channel(overrides: Partial<ChannelEntry> = {}): ChannelEntry {
+  return {
+    id: CHANNEL_ID,
+    account: company.address,
+    destination: CONTRACTOR,
+    amount: '100',
+    balance: '0',
+    publicKey: company.publicKey,
+    settleDelay: 86_400,
+    ...overrides,
+  };
+}
+
+function record(hourlyRate?: string): ChannelRecord {
+  return {
+    id: CHANNEL_ID,
+    owner: company.address,
+    network: 'testnet',
+    destination: CONTRACTOR,
+    hourlyRate,
+    hours: '0',
+    claims: [],
+    createdAt: new Date().toISOString(),
+  };
+}
+
+describe('signClaim', () => {
+  it('signs a claim the xrpl helpers verify', () => {
+    const claim = signClaim(channel(), company, '12.5');
+    expect(claim).toMatchObject({ channel: CHANNEL_ID, amount: '12.5', publicKey: company.publicKey });
+    expect(verifyPaymentChannelClaim(CHANNEL_ID, '12.5', claim.signature, company.publicKey)).toBe(true);
+    expect(verifyClaim(JSON.parse(JSON.stringify(claim)), channel())).toBe(true);
+  });
+
+  it('refuses a key that is not the channel\'s', () => {
+    expect(() => signClaim(channel(), other, '1')).toThrow('This key cannot sign claims for the channel');
+  });
+
+  it.each([
+    ['the previous claim', '5', '5', '0'],
+    ['below the previous claim', '4', '5', '0'],
+    ['what was already redeemed', '3', '0', '3'],
+  ])('refuses a claim equal to or %s', (_, total, previous, balance) => {
+    expect(() => signClaim(channel({ balance }), company, total, previous)).toThrow(
+      'A claim must be larger than the amount already approved'
+    );
+  });
+
+  it('refuses a claim over the channel capacity', () => {
+    expect(() => signClaim(channel(), company, '100.000001')).toThrow(
+      'A claim of 100.000001 XRP exceeds the channel capacity of 100 XRP'
+    );
+  });
+});
+
+describe('verifyClaim', () => {
+  const claim = signClaim(channel(), company, '10');
+
+  it('rejects a claim whose amount was raised', () => {
+    expect(verifyClaim({ ...claim, amount: '20' })).toBe(false);
+  });
+
+  it('rejects a claim presented with another key', () => {
+    expect(verifyClaim({ ...claim, publicKey: other.publicKey })).toBe(false);
+  });
+
+  it('rejects a claim signed by a key that is not the channel\'s', () => {
+    const forged = signClaim(channel({ publicKey: other.publicKey }), other, '10');
+    expect(verifyClaim(forged)).toBe(true);
+    expect(verifyClaim(forged, channel())).toBe(false);
+  });
+
+  it('rejects a claim for another channel or over its capacity', () => {
+    expect(verifyClaim(claim, channel({ id: '0'.repeat(64) }))).toBe(false);
+    expect(verifyClaim(claim, channel({ amount: '5' }))).toBe(false);
+  });
+});
+
+describe('approveHours', () => {
+  it('keeps the running total exact in drops', () => {
+    let approved = record('0.1');
+    approved = approveHours(approved, channel(), company, '1');
+    approved = approveHours(approved, channel(), company, '2');
+
+    expect(approved.claims.map(claim => claim.amount)).toEqual(['0.1', '0.3']);
+    expect(approved.hours).toBe('3');
+    expect(verifyClaim(approved.claims[1], channel())).toBe(true);
+  });
+
+  it('rounds each approval to whole drops', () => {
+    const approved = approveHours(approveHours(record('0.0000015'), channel(), company, '1'), channel(), company, '1.5');
+    expect(approved.claims.map(claim => claim.amount)).toEqual(['0.000002', '0.000004']);
+    expect(approved.hours).toBe('2.5');
+  });
+
+  it('refuses hours that would exceed the channel capacity', () => {
+    const approved = approveHours(record('40'), channel(), company, '2');
+    expect(() => approveHours(approved, channel(), company, '1')).toThrow('exceeds the channel capacity of 100 XRP');
+  });
+
+  it.each([
+    ['no hourly rate', undefined, '1', 'Set an hourly rate for this channel first'],
+    ['zero hours', '10', '0', 'Approve more than zero hours'],
+    ['more than two decimals', '10', '1.005', 'Hours must be a number with at most two decimals'],
+  ])('refuses %s', (_, rate, hours, message) => {
+    expect(() => approveHours(record(rate), channel(), company, hours)).toThrow(message);
+  });
+});
@@ -0,0 +1,357 @@
+import {
+  Client,
+  PaymentChannelClaim,
+  PaymentChannelClaimFlags,
+  PaymentChannelCreate,
+  Wallet,
+  dropsToXrp,
+  hashes,
+  isoTimeToRippleTime,
+  rippleTimeToISOTime,
+  signPaymentChannelClaim,
+  verifyPaymentChannelClaim,
+  xrpToDrops,
+} from 'xrpl';
+import { PaymentAmount, isXRP } from './currency';
+import { encodeTextMemo } from './memos';
+import { XRPLNetwork } from './networks';
+import { convertAmount, getRoundingRule } from './payroll-calc';
+import { KeyValueStorage } from './payroll-runs';
+
+const CHANNEL_STORAGE_KEY = 'renmo_channels';
+// A day for the contractor to redeem the last claim after the company
+// asks to close a channel
+export const DEFAULT_SETTLE_DELAY = 24 * 60 * 60;
+
+// Settings for a new channel to an hourly contractor
+export interface ChannelParams {
+  destination: string;
+  destinationTag?: number;
+  // XRP set aside for the contract; claims can never exceed it
+  amount: PaymentAmount;
+  // Seconds the contractor has to redeem claims once closing is requested
+  settleDelay?: number;
+  cancelAfter?: Date;
+  memo?: string;
+}
+
+// A channel as the ledger reports it. Amounts are in XRP.
+export interface ChannelEntry {
+  id: string;
+  account: string;
+  destination: string;
+  destinationTag?: number;
+  // Capacity: what the company has put into the channel
+  amount: string;
+  // What the contractor has redeemed so far
+  balance: string;
+  publicKey: string;
+  settleDelay: number;
+  // Set once closing has been requested; the channel can be removed after it
+  expiration?: string;
+  cancelAfter?: string;
+}
+
+// An off-ledger promise to pay. `amount` is the running total the
+// contractor may redeem from the channel, not the increment.
+export interface ChannelClaim {
+  channel: string;
+  amount: string;
+  signature: string;
+  publicKey: string;
+  signedAt: string;
+}
+
+// What is kept locally about a channel opened here
+export interface ChannelRecord {
+  id: string;
+  owner: string;
+  network: XRPLNetwork;
+  destination: string;
+  contractorName?: string;
+  // XRP per approved hour
+  hourlyRate?: string;
+  hours: string;
+  // Every claim signed, oldest first. The last one is what the contractor
+  // can redeem; older ones are superseded by it.
+  claims: ChannelClaim[];
+  createdAt: string;
+}
+
+// Capacity, claimed and outstanding amounts of a channel in XRP.
+// `approved` is the latest signed claim; `outstanding` is the part of it
+// the contractor has not redeemed yet.
+export interface ChannelSummary {
+  capacity: string;
+  approved: string;
+  claimed: string;
+  outstanding: string;
+  remaining: string;
+}
+
+function toDrops(xrp: string): bigint {
+  return BigInt(xrpToDrops(xrp));
+}
+
+function fromDrops(drops: bigint): string {
+  return String(dropsToXrp(drops.toString()));
+}
+
+export function validateChannelParams(params: ChannelParams, now: Date = new Date()): string[] {
+  const problems: string[] = [];
+  if (!isXRP(params.amount)) {
+    problems.push('Payment channels can only hold XRP');
+  }
+  if (!(Number(params.amount.value) > 0)) {
+    problems.push('The channel amount must be greater than zero');
+  }
+  if (params.settleDelay !== undefined && (!Number.isInteger(params.settleDelay) || params.settleDelay < 0)) {
+    problems.push('The settle delay must be a whole number of seconds');
+  }
+  if (params.cancelAfter && params.cancelAfter <= now) {
+    problems.push('The channel end must be in the future');
+  }
+  return problems;
+}
+
+// Opens a channel that `wallet` signs claims for. The channel id is derived
+// from the owner, destination and the sequence of the PaymentChannelCreate.
+export async function openChannel(
+  client: Client,
+  wallet: Wallet,
+  params: ChannelParams,
+  network: XRPLNetwork
+): Promise<ChannelRecord> {
+  const problems = validateChannelParams(params);
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '));
+  }
+
+  const tx: PaymentChannelCreate = {
+    TransactionType: 'PaymentChannelCreate',
+    Account: wallet.address,
+    Destination: params.destination,
+    Amount: xrpToDrops(params.amount.value),
+    SettleDelay: params.settleDelay ?? DEFAULT_SETTLE_DELAY,
+    PublicKey: wallet.publicKey,
+  };
+  if (params.destinationTag !== undefined) {
+    tx.DestinationTag = params.destinationTag;
+  }
+  if (params.cancelAfter) {
+    tx.CancelAfter = isoTimeToRippleTime(params.cancelAfter.toISOString());
+  }
+  if (params.memo) {
+    tx.Memos = [encodeTextMemo(params.memo)];
+  }
+
+  const prepared = await client.autofill(tx);
+  const result = await client.submitAndWait(wallet.sign(prepared).tx_blob);
+
+  const meta = result.result.meta;
+  const resultCode = typeof meta === 'object' ? meta.TransactionResult : 'unknown';
+  if (resultCode !== 'tesSUCCESS') {
+    throw new Error(`PaymentChannelCreate failed: ${resultCode}`);
+  }
+
+  return {
+    id: hashes.hashPaymentChannel(wallet.address, params.destination, prepared.Sequence as number),
+    owner: wallet.address,
+    network,
+    destination: params.destination,
+    hours: '0',
+    claims: [],
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// Channels `account` pays from
+export async function getChannels(client: Client, account: string): Promise<ChannelEntry[]> {
+  const entries: ChannelEntry[] = [];
+  let marker: unknown;
+  do {
+    const response = await client.request({
+      command: 'account_channels',
+      account,
+      ledger_index: 'validated',
+      marker,
+    });
+    for (const channel of response.result.channels) {
+      entries.push({
+        id: channel.channel_id,
+        account: channel.account,
+        destination: channel.destination_account,
+        destinationTag: channel.destination_tag,
+        amount: fromDrops(BigInt(channel.amount)),
+        balance: fromDrops(BigInt(channel.balance)),
+        publicKey: channel.public_key_hex || channel.public_key || '',
+        settleDelay: channel.settle_delay,
+        expiration: channel.expiration !== undefined ? rippleTimeToISOTime(channel.expiration) : undefined,
+        cancelAfter: channel.cancel_after !== undefined ? rippleTimeToISOTime(channel.cancel_after) : undefined,
+      });
+    }
+    marker = response.result.marker;
+  } while (marker);
+  return entries;
+}
+
+// The total a record has approved so far, in XRP
+export function getApprovedTotal(record: ChannelRecord): string {
+  return record.claims.length > 0 ? record.claims[record.claims.length - 1].amount : '0';
+}
+
+// Signs a claim for the running total `total` (XRP). Claims only ever grow:
+// the contractor redeems the largest one and smaller ones become worthless.
+export function signClaim(channel: ChannelEntry, wallet: Wallet, total: string, previous: string = '0'): ChannelClaim {
+  if (wallet.publicKey.toUpperCase() !== channel.publicKey.toUpperCase()) {
+    throw new Error('This key cannot sign claims for the channel');
+  }
+  const drops = toDrops(total);
+  if (drops <= toDrops(previous) || drops <= toDrops(channel.balance)) {
+    throw new Error('A claim must be larger than the amount already approved');
+  }
+  if (drops > toDrops(channel.amount)) {
+    throw new Error(`A claim of ${total} XRP exceeds the channel capacity of ${channel.amount} XRP`);
+  }
+
+  return {
+    channel: channel.id,
+    amount: total,
+    signature: signPaymentChannelClaim(channel.id, total, wallet.privateKey),
+    publicKey: wallet.publicKey,
+    signedAt: new Date().toISOString(),
+  };
+}
+
+// Hours are approved in hundredths
+function parseHours(hours: string): bigint {
+  const match = /^(\d+)(?:\.(\d{1,2}))?$/.exec(hours.trim());
+  if (!match) {
+    throw new Error(`Hours must be a number with at most two decimals, got "${hours}"`);
+  }
+  return BigInt(match[1]) * BigInt(100) + BigInt((match[2] || '').padEnd(2, '0'));
+}
+
+function formatHours(hundredths: bigint): string {
+  const fraction = (hundredths % BigInt(100)).toString().padStart(2, '0').replace(/0+$/, '');
+  return fraction ? `${hundredths / BigInt(100)}.${fraction}` : (hundredths / BigInt(100)).toString();
+}
+
+// Approves `hours` more at the record's hourly rate and signs the new total
+export function approveHours(record: ChannelRecord, channel: ChannelEntry, wallet: Wallet, hours: string): ChannelRecord {
+  if (!record.hourlyRate) {
+    throw new Error('Set an hourly rate for this channel first');
+  }
+  if (parseHours(hours) === BigInt(0)) {
+    throw new Error('Approve more than zero hours');
+  }
+  const pay = convertAmount(hours, record.hourlyRate, getRoundingRule('XRP'));
+  const previous = getApprovedTotal(record);
+  const claim = signClaim(channel, wallet, fromDrops(toDrops(previous) + toDrops(pay)), previous);
+
+  return {
+    ...record,
+    hours: formatHours(parseHours(record.hours) + parseHours(hours)),
+    claims: [...record.claims, claim],
+  };
+}
+
+// Checks a claim's signature and, given the channel, that it was signed by
+// the channel's key and fits within it. What a contractor runs on a claim
+// before relying on it.
+export function verifyClaim(claim: ChannelClaim, channel?: ChannelEntry): boolean {
+  if (!verifyPaymentChannelClaim(claim.channel, claim.amount, claim.signature, claim.publicKey)) {
+    return false;
+  }
+  if (!channel) {
+    return true;
+  }
+  return channel.id === claim.channel
+    && channel.publicKey.toUpperCase() === claim.publicKey.toUpperCase()
+    && toDrops(claim.amount) <= toDrops(channel.amount);
+}
+
+// Redeems a claim as the contractor. Only the part above what was already
+// redeemed is paid out.
+export async function redeemClaim(client: Client, contractor: Wallet, claim: ChannelClaim) {
+  if (!verifyClaim(claim)) {
+    throw new Error('The claim signature is not valid');
+  }
+
+  const tx: PaymentChannelClaim = {
+    TransactionType: 'PaymentChannelClaim',
+    Account: contractor.address,
+    Channel: claim.channel,
+    Balance: xrpToDrops(claim.amount),
+    Amount: xrpToDrops(claim.amount),
+    Signature: claim.signature,
+    PublicKey: claim.publicKey,
+  };
+  const prepared = await client.autofill(tx);
+  return client.submitAndWait(contractor.sign(prepared).tx_blob);
+}
+
+// Ends a contract from the company side. Approved hours the contractor has
+// not redeemed are paid out in the same transaction, so closing never
+// withholds earned pay. The ledger removes the channel at once if nothing
+// is left in it, otherwise after the settle delay.
+export async function closeChannel(client: Client, wallet: Wallet, channel: ChannelEntry, approved: string = '0') {
+  const tx: PaymentChannelClaim = {
+    TransactionType: 'PaymentChannelClaim',
+    Account: wallet.address,
+    Channel: channel.id,
+    Flags: PaymentChannelClaimFlags.tfClose,
+  };
+  if (toDrops(approved) > toDrops(channel.balance)) {
+    tx.Balance = xrpToDrops(approved);
+  }
+  const prepared = await client.autofill(tx);
+  return client.submitAndWait(wallet.sign(prepared).tx_blob);
+}
+
+export function summarizeChannel(channel: ChannelEntry, record?: ChannelRecord | null): ChannelSummary {
+  const capacity = toDrops(channel.amount);
+  const claimed = toDrops(channel.balance);
+  const signed = record ? toDrops(getApprovedTotal(record)) : BigInt(0);
+  const approved = signed > claimed ? signed : claimed;
+  return {
+    capacity: channel.amount,
+    approved: fromDrops(approved),
+    claimed: channel.balance,
+    outstanding: fromDrops(approved - claimed),
+    remaining: fromDrops(capacity - approved),
+  };
+}
+
+export class ChannelStore {
+  private storage: KeyValueStorage | null;
+
+  constructor(storage?: KeyValueStorage) {
+    this.storage = storage || (typeof window !== 'undefined' ? window.localStorage : null);
+  }
+
+  list(): ChannelRecord[] {
+    if (!this.storage) {
+      return [];
+    }
+    try {
+      return JSON.parse(this.storage.getItem(CHANNEL_STORAGE_KEY) || '[]');
+    } catch (error) {
+      console.error('Error loading payment channels from storage:', error);
+      return [];
+    }
+  }
+
+  get(id: string): ChannelRecord | null {
+    return this.list().find(record => record.id === id) || null;
+  }
+
+  save(record: ChannelRecord) {
+    if (!this.storage) {
+      return;
+    }
+    const records = this.list().filter(r => r.id !== record.id);
+    records.unshift(record);
+    this.storage.setItem(CHANNEL_STORAGE_KEY, JSON.stringify(records));
+  }
+}
@@ -0,0 +1,281 @@
+import { AccountTxTransaction, CheckCancel, CheckCreate, Client, LedgerEntry, TransactionMetadata, Wallet, isoTimeToRippleTime } from 'xrpl';
+import { PaymentAmount, toXRPLAmount } from './currency';
+import { PaymentOptions } from './payments';
+import { XRPLNetwork } from './networks';
+import { KeyValueStorage, PayrollRun } from './payroll-runs';
+
+const CHECK_STORAGE_KEY = 'renmo_checks';
+export const DEFAULT_CHECK_EXPIRY_DAYS = 30;
+
+// `outstanding` checks can still be cashed, even past their expiration
+// until someone cancels them. `closed` means the check left the ledger but
+// the server's history did not reach back to the transaction that removed it.
+export type CheckStatus = 'outstanding' | 'cashed' | 'cancelled' | 'closed';
+
+export interface CheckOptions extends PaymentOptions {
+  expiration?: Date;
+}
+
+export interface SignedCheck {
+  tx: CheckCreate;
+  txBlob: string;
+  hash: string;
+}
+
+// A check written by the company account, kept locally so it can be
+// followed after it leaves the ledger
+export interface CheckRecord {
+  owner: string;
+  network: XRPLNetwork;
+  // Sequence of the CheckCreate; together with the owner it identifies the check
+  sequence: number;
+  hash: string;
+  ledgerIndex?: number;
+  destination: string;
+  destinationTag?: number;
+  amount: PaymentAmount;
+  expiration?: string;
+  employeeName?: string;
+  period?: string;
+  // Payroll run and line the check paid, when it was written by a run
+  run?: string;
+  line?: string;
+  status: CheckStatus;
+  // Ledger object id, needed to cancel the check. Known once seen on the ledger.
+  checkId?: string;
+  closedHash?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// How a payroll line reached the employee
+export type LineDelivery = 'delivered' | 'check_outstanding' | 'check_expired' | 'check_cancelled' | 'check_closed' | 'not_paid';
+
+// The CheckCreate counterpart of buildPayment. The check is for exactly
+// `amount`: SendMax caps what the employee can cash.
+export function buildCheck(account: string, destination: string, amount: PaymentAmount, options: CheckOptions = {}): CheckCreate {
+  const check: CheckCreate = {
+    TransactionType: 'CheckCreate',
+    Account: account,
+    Destination: destination,
+    SendMax: toXRPLAmount(amount),
+  };
+
+  if (options.destinationTag !== undefined) {
+    check.DestinationTag = options.destinationTag;
+  }
+  if (options.expiration) {
+    check.Expiration = isoTimeToRippleTime(options.expiration.toISOString());
+  }
+  if (options.memos && options.memos.length > 0) {
+    check.Memos = options.memos;
+  }
+  if (options.sequence !== undefined) {
+    check.Sequence = options.sequence;
+  }
+  if (options.lastLedgerSequence !== undefined) {
+    check.LastLedgerSequence = options.lastLedgerSequence;
+  }
+  if (options.fee !== undefined) {
+    check.Fee = options.fee;
+  }
+
+  return check;
+}
+
+export async function signCheck(
+  client: Client,
+  wallet: Wallet,
+  destination: string,
+  amount: PaymentAmount,
+  options: CheckOptions = {}
+): Promise<SignedCheck> {
+  const prepared = await client.autofill(buildCheck(wallet.address, destination, amount, options));
+  const signed = wallet.sign(prepared);
+  return { tx: prepared, txBlob: signed.tx_blob, hash: signed.hash };
+}
+
+// Whether a payment refused with `error` could go out as a check instead:
+// the employee can add a missing trust line or raise its limit before
+// cashing. A frozen line or a missing account cannot be fixed that way.
+export function canPayByCheck(error: string): boolean {
+  return /has no .* trust line|trust line limit is too low/.test(error);
+}
+
+export function defaultCheckExpiration(now: Date = new Date()): Date {
+  return new Date(now.getTime() + DEFAULT_CHECK_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+}
+
+export function isCheckExpired(record: CheckRecord, now: Date = new Date()): boolean {
+  return record.status === 'outstanding' && !!record.expiration && new Date(record.expiration) <= now;
+}
+
+// Checks on the ledger written by `account`, by CheckCreate sequence
+async function getOwnedChecks(client: Client, account: string): Promise<Map<number, LedgerEntry.Check>> {
+  const checks = new Map<number, LedgerEntry.Check>();
+  let marker: unknown;
+  do {
+    const response = await client.request({
+      command: 'account_objects',
+      account,
+      type: 'check',
+      ledger_index: 'validated',
+      marker,
+    });
+    for (const object of response.result.account_objects as LedgerEntry.Check[]) {
+      // Checks written to the account are listed too
+      if (object.Account === account) {
+        checks.set(object.Sequence, object);
+      }
+    }
+    marker = response.result.marker;
+  } while (marker);
+  return checks;
+}
+
+// Whether `entry` is the CheckCash or CheckCancel that removed `record`'s check
+function closesCheck(entry: AccountTxTransaction, record: CheckRecord): boolean {
+  const type = entry.tx_json?.TransactionType;
+  if (type !== 'CheckCash' && type !== 'CheckCancel') {
+    return false;
+  }
+  const meta = entry.meta as TransactionMetadata | undefined;
+  if (typeof meta !== 'object' || meta.TransactionResult !== 'tesSUCCESS') {
+    return false;
+  }
+  return meta.AffectedNodes.some(node => {
+    if (!('DeletedNode' in node) || node.DeletedNode.LedgerEntryType !== 'Check') {
+      return false;
+    }
+    const fields = node.DeletedNode.FinalFields as { Account?: string; Sequence?: number };
+    return fields.Account === record.owner && fields.Sequence === record.sequence;
+  });
+}
+
+// Looks through the owner's history from the ledger the check was created in
+async function findCheckClosure(client: Client, record: CheckRecord): Promise<{ status: CheckStatus; hash: string } | null> {
+  let marker: unknown;
+  do {
+    const response = await client.request({
+      command: 'account_tx',
+      account: record.owner,
+      ledger_index_min: record.ledgerIndex ?? -1,
+      ledger_index_max: -1,
+      forward: true,
+      marker,
+    });
+    for (const entry of response.result.transactions) {
+      if (closesCheck(entry, record)) {
+        return {
+          status: entry.tx_json?.TransactionType === 'CheckCash' ? 'cashed' : 'cancelled',
+          hash: entry.hash || entry.tx_json?.hash || 'unknown',
+        };
+      }
+    }
+    marker = response.result.marker;
+  } while (marker);
+  return null;
+}
+
+// Brings `account`'s outstanding checks up to date with the ledger and
+// returns the records that changed
+export async function reconcileChecks(client: Client, account: string, records: CheckRecord[]): Promise<CheckRecord[]> {
+  const outstanding = records.filter(record => record.owner === account && record.status === 'outstanding');
+  if (outstanding.length === 0) {
+    return [];
+  }
+
+  const onLedger = await getOwnedChecks(client, account);
+  const changed: CheckRecord[] = [];
+  for (const record of outstanding) {
+    const entry = onLedger.get(record.sequence);
+    if (entry) {
+      if (!record.checkId) {
+        changed.push({ ...record, checkId: entry.index });
+      }
+      continue;
+    }
+
+    const closure = await findCheckClosure(client, record);
+    changed.push({ ...record, status: closure?.status ?? 'closed', closedHash: closure?.hash });
+  }
+  return changed;
+}
+
+// The owner can cancel a check at any time, anyone once it has expired
+export async function cancelCheck(client: Client, wallet: Wallet, checkId: string) {
+  const tx: CheckCancel = {
+    TransactionType: 'CheckCancel',
+    Account: wallet.address,
+    CheckID: checkId,
+  };
+  const prepared = await client.autofill(tx);
+  const result = await client.submitAndWait(wallet.sign(prepared).tx_blob);
+
+  const meta = result.result.meta;
+  const resultCode = typeof meta === 'object' ? meta.TransactionResult : 'unknown';
+  if (resultCode !== 'tesSUCCESS') {
+    throw new Error(`CheckCancel failed: ${resultCode}`);
+  }
+  return result;
+}
+
+// Line id to how each line of `run` was delivered. A validated check line
+// counts as delivered only once the employee has cashed the check.
+export function getDeliveryReport(run: PayrollRun, checks: CheckRecord[], now: Date = new Date()): Record<string, LineDelivery> {
+  const report: Record<string, LineDelivery> = {};
+  for (const line of run.lines) {
+    if (line.status !== 'validated') {
+      report[line.id] = 'not_paid';
+      continue;
+    }
+    if (!line.byCheck) {
+      report[line.id] = 'delivered';
+      continue;
+    }
+
+    const check = checks.find(record => record.run === run.id && record.line === line.id);
+    if (!check || check.status === 'outstanding') {
+      report[line.id] = check && isCheckExpired(check, now) ? 'check_expired' : 'check_outstanding';
+    } else if (check.status === 'cashed') {
+      report[line.id] = 'delivered';
+    } else {
+      report[line.id] = check.status === 'cancelled' ? 'check_cancelled' : 'check_closed';
+    }
+  }
+  return report;
+}
+
+export class CheckStore {
+  private storage: KeyValueStorage | null;
+
+  constructor(storage?: KeyValueStorage) {
+    this.storage = storage || (typeof window !== 'undefined' ? window.localStorage : null);
+  }
+
+  list(): CheckRecord[] {
+    if (!this.storage) {
+      return [];
+    }
+    try {
+      return JSON.parse(this.storage.getItem(CHECK_STORAGE_KEY) || '[]');
+    } catch (error) {
+      console.error('Error loading checks from storage:', error);
+      return [];
+    }
+  }
+
+  get(owner: string, sequence: number): CheckRecord | null {
+    return this.list().find(record => record.owner === owner && record.sequence === sequence) || null;
+  }
+
+  save(record: CheckRecord) {
+    if (!this.storage) {
+      return;
+    }
+    record.updatedAt = new Date().toISOString();
+    const records = this.list().filter(r => !(r.owner === record.owner && r.sequence === record.sequence));
+    records.unshift(record);
+    this.storage.setItem(CHECK_STORAGE_KEY, JSON.stringify(records));
+  }
+}
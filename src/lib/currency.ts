@@ -0,0 +1,108 @@
+import { Amount, convertStringToHex, convertHexToString, xrpToDrops, dropsToXrp } from 'xrpl';
+import { XRPLNetwork, DEFAULT_NETWORK, getNetwork } from './networks';
+
+// An amount to be paid. Native XRP has no issuer; every other currency is an
+// issued currency and must name the account that issues it.
+export interface PaymentAmount {
+  currency: string;
+  issuer?: string;
+  value: string;
+}
+
+export const XRP_CURRENCY = 'XRP';
+export const RLUSD_CURRENCY = 'RLUSD';
+
+export function getRlusdIssuer(network: XRPLNetwork = DEFAULT_NETWORK): string {
+  return getNetwork(network).rlusdIssuer;
+}
+
+export function rlusd(value: string, network: XRPLNetwork = DEFAULT_NETWORK): PaymentAmount {
+  return { currency: RLUSD_CURRENCY, issuer: getRlusdIssuer(network), value };
+}
+
+export function xrp(value: string): PaymentAmount {
+  return { currency: XRP_CURRENCY, value };
+}
+
+export function paymentAmount(currency: string, value: string, network: XRPLNetwork = DEFAULT_NETWORK): PaymentAmount {
+  switch (currency.toUpperCase()) {
+    case XRP_CURRENCY:
+      return xrp(value);
+    case RLUSD_CURRENCY:
+      return rlusd(value, network);
+    default:
+      throw new Error(`Unsupported payout currency: ${currency}`);
+  }
+}
+
+export function isXRP(amount: Pick<PaymentAmount, 'currency'>): boolean {
+  return amount.currency.toUpperCase() === XRP_CURRENCY;
+}
+
+// Currency codes longer than three characters (such as RLUSD) travel on the
+// ledger as 40-character hex strings.
+export function encodeCurrencyCode(currency: string): string {
+  if (currency.length === 3 || /^[0-9A-F]{40}$/i.test(currency)) {
+    return currency.toUpperCase();
+  }
+  return convertStringToHex(currency).padEnd(40, '0').toUpperCase();
+}
+
+export function decodeCurrencyCode(currency: string): string {
+  if (!/^[0-9A-F]{40}$/i.test(currency)) {
+    return currency;
+  }
+  return convertHexToString(currency.replace(/(00)+$/, ''));
+}
+
+export function toXRPLAmount(amount: PaymentAmount): Amount {
+  const value = Number(amount.value);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`Invalid payment amount: ${amount.value}`);
+  }
+
+  if (isXRP(amount)) {
+    return xrpToDrops(amount.value);
+  }
+
+  if (!amount.issuer) {
+    throw new Error(`No issuer configured for ${amount.currency}`);
+  }
+
+  return {
+    currency: encodeCurrencyCode(amount.currency),
+    issuer: amount.issuer,
+    value: amount.value,
+  };
+}
+
+export function fromXRPLAmount(amount: Amount): PaymentAmount {
+  if (typeof amount === 'string') {
+    return xrp(dropsToXrp(amount).toString());
+  }
+  return {
+    currency: decodeCurrencyCode(amount.currency),
+    issuer: amount.issuer,
+    value: amount.value,
+  };
+}
+
+// Partial payments can deliver less than was asked for, so prefer the
+// delivered_amount reported in the metadata when the ledger provides one.
+export function getDeliveredAmount(meta: unknown, requested: PaymentAmount): PaymentAmount {
+  if (!meta || typeof meta !== 'object' || !('delivered_amount' in meta)) {
+    return requested;
+  }
+  const delivered = (meta as { delivered_amount?: unknown }).delivered_amount;
+  if (typeof delivered === 'string' && delivered !== 'unavailable') {
+    return fromXRPLAmount(delivered);
+  }
+  if (delivered && typeof delivered === 'object' && 'currency' in delivered) {
+    return fromXRPLAmount(delivered as Amount);
+  }
+  return requested;
+}
+
+export function formatAmount(amount: PaymentAmount): string {
+  return `${amount.value} ${amount.currency}`;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { DeductionTableStore } from './deduction-table';
+import { KeyValueStorage } from './payroll-runs';
+
+function memoryStorage(initial: Record<string, string> = {}): KeyValueStorage {
+  const values = new Map(Object.entries(initial));
+  return {
+    getItem: key => values.get(key) ?? null,
+    setItem: (key, value) => void values.set(key, value),
+  };
+}
+
+describe('DeductionTableStore', () => {
+  it('reads an empty table when nothing is stored', () => {
+    expect(new DeductionTableStore(memoryStorage()).list()).toEqual([]);
+  });
+
+  it('round-trips a saved table', () => {
+    const store = new DeductionTableStore(memoryStorage());
+    const rules = [{ id: 'tax', label: 'Tax', stage: 'tax' as const, kind: 'percentage' as const, rate: '20' }];
+    store.save(rules);
+    expect(store.list()).toEqual(rules);
+  });
+
+  it.each([
+    ['unparseable', '{not json'],
+    ['not a list', '{"id":"tax"}'],
+    ['a list of non-rules', '[1, 2]'],
+  ])('throws instead of paying gross when the table is %s', (_, stored) => {
+    const store = new DeductionTableStore(memoryStorage({ renmo_deductions: stored }));
+    expect(() => store.list()).toThrow('The deduction table could not be read');
+  });
+
+  it('throws when a stored rule is invalid', () => {
+    const stored = JSON.stringify([{ id: 'tax', label: 'Tax', stage: 'tax', kind: 'percentage', rate: 'twenty' }]);
+    const store = new DeductionTableStore(memoryStorage({ renmo_deductions: stored }));
+    expect(() => store.list()).toThrow('The deduction table is invalid');
+  });
+
+  it('reads an empty table after a reset', () => {
+    const store = new DeductionTableStore(memoryStorage({ renmo_deductions: '{not json' }));
+    store.reset();
+    expect(store.list()).toEqual([]);
+  });
+});
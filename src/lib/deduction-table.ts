@@ -0,0 +1,56 @@
+import { KeyValueStorage } from './payroll-runs';
+import { DeductionRule, validateDeductionRules } from './payroll-calc';
+
+const DEDUCTION_STORAGE_KEY = 'renmo_deductions';
+const UNREADABLE_TABLE = 'The deduction table could not be read. Reset it in the deduction settings before paying anyone.';
+
+// The company-wide deduction table applied to every salary. Kept next to the
+// payroll runs: localStorage in the browser, a FileStorage file on the server.
+export class DeductionTableStore {
+  private storage: KeyValueStorage | null;
+
+  constructor(storage?: KeyValueStorage) {
+    this.storage = storage || (typeof window !== 'undefined' ? window.localStorage : null);
+  }
+
+  // Throws when a stored table cannot be read: paying gross with nothing
+  // withheld is worse than not paying until the table is fixed.
+  list(): DeductionRule[] {
+    const stored = this.storage?.getItem(DEDUCTION_STORAGE_KEY);
+    if (!stored) {
+      return [];
+    }
+    let rules: DeductionRule[];
+    let problems: string[];
+    try {
+      rules = JSON.parse(stored);
+      if (!Array.isArray(rules)) {
+        throw new Error('Stored deduction table is not a list');
+      }
+      problems = validateDeductionRules(rules);
+    } catch (error) {
+      console.error('Error loading deduction table from storage:', error);
+      throw new Error(UNREADABLE_TABLE);
+    }
+    if (problems.length > 0) {
+      throw new Error(`The deduction table is invalid (${problems.join('; ')}). Reset it in the deduction settings before paying anyone.`);
+    }
+    return rules;
+  }
+
+  // Replaces a table that can no longer be read with an empty one
+  reset() {
+    this.storage?.setItem(DEDUCTION_STORAGE_KEY, '[]');
+  }
+
+  save(rules: DeductionRule[]) {
+    const problems = validateDeductionRules(rules);
+    if (problems.length > 0) {
+      throw new Error(problems.join('; '));
+    }
+    if (!this.storage) {
+      return;
+    }
+    this.storage.setItem(DEDUCTION_STORAGE_KEY, JSON.stringify(rules));
+  }
+}
@@ -0,0 +1,110 @@
+import { Client, isValidClassicAddress, isValidXAddress, xAddressToClassicAddress } from 'xrpl';
+import { AccountMetadata, MetadataStore } from './metadata-store';
+import { assertDestinationTag, isRippledError } from './payments';
+import { SeedVault } from './vault';
+
+export interface ResolvedAddress {
+  address: string;
+  tag?: number;
+}
+
+// Accepts a classic address or an X-address. Both carry a checksum, so a
+// mistyped character is caught here rather than on the ledger.
+export function resolveAddress(input: string): ResolvedAddress {
+  const value = input.trim();
+
+  if (isValidClassicAddress(value)) {
+    return { address: value };
+  }
+
+  if (isValidXAddress(value)) {
+    const { classicAddress, tag } = xAddressToClassicAddress(value);
+    return { address: classicAddress, tag: tag === false ? undefined : tag };
+  }
+
+  throw new Error('Invalid XRPL address. Check it for typos; the checksum does not match.');
+}
+
+const MAX_DESTINATION_TAG = 0xffffffff;
+
+// Destination tags are unsigned 32-bit integers. Blank input means no tag.
+export function parseDestinationTag(input: string): number | undefined {
+  const value = input.trim();
+  if (!value) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value) || Number(value) > MAX_DESTINATION_TAG) {
+    throw new Error(`Destination tag must be a whole number from 0 to ${MAX_DESTINATION_TAG}, got "${value}"`);
+  }
+  return Number(value);
+}
+
+// An X-address carries its own tag; a tag given separately must agree with it.
+export function resolveDestination(input: string, tag?: number): ResolvedAddress {
+  const resolved = resolveAddress(input);
+  if (tag !== undefined && resolved.tag !== undefined && tag !== resolved.tag) {
+    throw new Error(`The X-address carries destination tag ${resolved.tag}, which does not match ${tag}`);
+  }
+  return { address: resolved.address, tag: resolved.tag ?? tag };
+}
+
+export async function assertAccountExists(client: Client, address: string): Promise<void> {
+  try {
+    await client.request({
+      command: 'account_info',
+      account: address,
+      ledger_index: 'validated',
+    });
+  } catch (error) {
+    if (isRippledError(error, 'actNotFound')) {
+      throw new Error('This account does not exist on the ledger yet. It must be funded before it can be added.');
+    }
+    throw error;
+  }
+}
+
+// Employees only ever receive payments, so onboarding records public
+// metadata and never asks for a secret key.
+export async function onboardEmployee(
+  client: Client,
+  store: MetadataStore,
+  name: string,
+  input: string,
+  destinationTag?: number
+): Promise<AccountMetadata> {
+  const { address, tag } = resolveDestination(input, destinationTag);
+
+  await assertAccountExists(client, address);
+  await assertDestinationTag(client, address, tag);
+
+  const existing = await store.get(address);
+  if (existing) {
+    throw new Error(`This address already belongs to ${existing.name}`);
+  }
+
+  const now = new Date().toISOString();
+  const metadata: AccountMetadata = {
+    name: name || `Employee ${address.slice(0, 8)}`,
+    address,
+    createdAt: now,
+    lastUsed: now,
+    destinationTag: tag,
+  };
+  return store.put(metadata);
+}
+
+// Earlier versions imported employees by secret key, leaving their seeds in
+// the employer's wallet list. Drops any vault entry that belongs to someone
+// on the roster, except the account currently used to pay.
+export function removeEmployeeSeeds(vault: SeedVault, employeeAddresses: string[], companyAddress: string | null): string[] {
+  const roster = new Set(employeeAddresses);
+  const removed = vault.listWallets()
+    .map(wallet => wallet.address)
+    .filter(address => roster.has(address) && address !== companyAddress);
+
+  removed.forEach(address => vault.removeSeed(address));
+  if (removed.length > 0) {
+    console.log(`Removed ${removed.length} employee seed(s) from the local wallet list`);
+  }
+  return removed;
+}
@@ -0,0 +1,335 @@
+import {
+  Client,
+  EscrowCancel,
+  EscrowCreate,
+  EscrowFinish,
+  LedgerEntry,
+  Wallet,
+  dropsToXrp,
+  isoTimeToRippleTime,
+  rippleTimeToISOTime,
+  xrpToDrops,
+} from 'xrpl';
+import { PaymentAmount, isXRP, xrp } from './currency';
+import { encodeTextMemo, getTextMemo } from './memos';
+import { XRPLNetwork } from './networks';
+import { KeyValueStorage } from './payroll-runs';
+import { Ciphertext } from './vault';
+
+const ESCROW_STORAGE_KEY = 'renmo_escrows';
+const PREIMAGE_BYTES = 32;
+
+// Settings for a new escrow. At least one of `finishAfter` and `condition`
+// is required; `cancelAfter` lets the company take unreleased funds back.
+export interface EscrowParams {
+  destination: string;
+  destinationTag?: number;
+  amount: PaymentAmount;
+  finishAfter?: Date;
+  cancelAfter?: Date;
+  // Lock the escrow with a new crypto-condition. Its fulfillment is what
+  // releases the funds, e.g. once a milestone is signed off.
+  withCondition?: boolean;
+  // Public description, such as the milestone the funds are for
+  memo?: string;
+}
+
+// An escrow on the ledger owned by the company account
+export interface EscrowEntry {
+  owner: string;
+  // Sequence of the EscrowCreate, which finishing and cancelling refer to
+  sequence: number;
+  destination: string;
+  destinationTag?: number;
+  amount: PaymentAmount;
+  finishAfter?: string;
+  cancelAfter?: string;
+  condition?: string;
+  memo?: string;
+  createdHash: string;
+}
+
+export type EscrowState = 'locked' | 'finishable' | 'cancellable';
+
+// `pending` until the EscrowCreate validates. A pending record whose
+// transaction failed or expired is dropped, since nothing was locked.
+export type EscrowRecordStatus = 'pending' | 'created';
+
+// What is kept locally about an escrow created here. The fulfillment is a
+// secret: whoever holds it can release the funds once FinishAfter passes.
+// It is stored encrypted with the wallet vault and can only be read while
+// the vault is unlocked. The record is saved before the EscrowCreate is
+// submitted, so the fulfillment outlives a submission that never reports back.
+export interface EscrowRecord {
+  owner: string;
+  network: XRPLNetwork;
+  sequence: number;
+  hash: string;
+  // Tracks the EscrowCreate in the SubmissionStore
+  obligation: string;
+  status: EscrowRecordStatus;
+  ledgerIndex?: number;
+  condition?: string;
+  fulfillment?: Ciphertext;
+  createdAt: string;
+}
+
+export interface EscrowOptions {
+  // From generateCondition; required with `withCondition`
+  condition?: string;
+  fee?: string;
+  lastLedgerSequence?: number;
+}
+
+export interface SignedEscrow {
+  tx: EscrowCreate;
+  txBlob: string;
+  hash: string;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+// A PREIMAGE-SHA-256 crypto-condition and its fulfillment, DER encoded the
+// way the ledger expects them (RFC draft-thomas-crypto-conditions)
+export async function generateCondition(): Promise<{ condition: string; fulfillment: string }> {
+  const preimage = crypto.getRandomValues(new Uint8Array(PREIMAGE_BYTES));
+  const fingerprint = new Uint8Array(await crypto.subtle.digest('SHA-256', preimage));
+  return {
+    fulfillment: `A0228020${toHex(preimage)}`,
+    condition: `A0258020${toHex(fingerprint)}810120`,
+  };
+}
+
+// Binds an encrypted fulfillment to the condition it fulfills
+export function fulfillmentLabel(condition: string): string {
+  return `escrow-fulfillment:${condition}`;
+}
+
+function toEscrowTime(date: Date | undefined): number | undefined {
+  return date ? isoTimeToRippleTime(date.toISOString()) : undefined;
+}
+
+export function validateEscrowParams(params: EscrowParams, now: Date = new Date()): string[] {
+  const problems: string[] = [];
+  if (!isXRP(params.amount)) {
+    problems.push('Only XRP can be held in escrow');
+  }
+  if (!(Number(params.amount.value) > 0)) {
+    problems.push('The escrow amount must be greater than zero');
+  }
+  if (!params.finishAfter && !params.withCondition) {
+    problems.push('An escrow needs a release time, a condition, or both');
+  }
+  if (params.finishAfter && params.finishAfter <= now) {
+    problems.push('The release time must be in the future');
+  }
+  if (params.cancelAfter && params.cancelAfter <= now) {
+    problems.push('The cancel time must be in the future');
+  }
+  if (params.finishAfter && params.cancelAfter && params.cancelAfter <= params.finishAfter) {
+    problems.push('The cancel time must be after the release time');
+  }
+  // A condition-only escrow without an expiry can only ever be finished,
+  // so a lost fulfillment would lock the funds for good
+  if (params.withCondition && !params.cancelAfter) {
+    problems.push('Escrows with a condition need a cancel time');
+  }
+  return problems;
+}
+
+// Signs, but does not submit, an EscrowCreate. The condition's fulfillment
+// stays with the caller, which keeps it safe before submitting.
+export async function signEscrow(
+  client: Client,
+  wallet: Wallet,
+  params: EscrowParams,
+  options: EscrowOptions = {}
+): Promise<SignedEscrow> {
+  const problems = validateEscrowParams(params);
+  if (params.withCondition && !options.condition) {
+    problems.push('A conditional escrow needs its condition');
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '));
+  }
+
+  const tx: EscrowCreate = {
+    TransactionType: 'EscrowCreate',
+    Account: wallet.address,
+    Destination: params.destination,
+    Amount: xrpToDrops(params.amount.value),
+  };
+  if (params.destinationTag !== undefined) {
+    tx.DestinationTag = params.destinationTag;
+  }
+  if (params.finishAfter) {
+    tx.FinishAfter = toEscrowTime(params.finishAfter);
+  }
+  if (params.cancelAfter) {
+    tx.CancelAfter = toEscrowTime(params.cancelAfter);
+  }
+  if (params.withCondition) {
+    tx.Condition = options.condition;
+  }
+  if (params.memo) {
+    tx.Memos = [encodeTextMemo(params.memo)];
+  }
+  if (options.fee !== undefined) {
+    tx.Fee = options.fee;
+  }
+  if (options.lastLedgerSequence !== undefined) {
+    tx.LastLedgerSequence = options.lastLedgerSequence;
+  }
+
+  const prepared = await client.autofill(tx);
+  const signed = wallet.sign(prepared);
+  return { tx: prepared, txBlob: signed.tx_blob, hash: signed.hash };
+}
+
+// The sequence of the EscrowCreate behind an escrow. Escrows are never
+// modified, so the transaction that last touched one is the one that made it.
+async function getCreateSequence(client: Client, hash: string): Promise<{ sequence: number; memo?: string }> {
+  const response = await client.request({ command: 'tx', transaction: hash });
+  const tx = (response.result.tx_json || response.result) as EscrowCreate;
+  return { sequence: (tx.Sequence || tx.TicketSequence) as number, memo: getTextMemo(tx.Memos) };
+}
+
+async function getOwnedEscrows(client: Client, account: string): Promise<LedgerEntry.Escrow[]> {
+  const objects: LedgerEntry.Escrow[] = [];
+  let marker: unknown;
+  do {
+    const response = await client.request({
+      command: 'account_objects',
+      account,
+      type: 'escrow',
+      ledger_index: 'validated',
+      marker,
+    });
+    objects.push(...(response.result.account_objects as LedgerEntry.Escrow[]));
+    marker = response.result.marker;
+  } while (marker);
+  // Escrows the account is only the destination of are listed too
+  return objects.filter(object => object.Account === account);
+}
+
+// Escrows `account` owns, with what is needed to finish or cancel them
+export async function getEscrows(client: Client, account: string): Promise<EscrowEntry[]> {
+  const entries: EscrowEntry[] = [];
+  for (const escrow of await getOwnedEscrows(client, account)) {
+    const { sequence, memo } = await getCreateSequence(client, escrow.PreviousTxnID);
+    entries.push({
+      owner: account,
+      sequence,
+      destination: escrow.Destination,
+      destinationTag: escrow.DestinationTag,
+      amount: xrp(String(dropsToXrp(escrow.Amount))),
+      finishAfter: escrow.FinishAfter !== undefined ? rippleTimeToISOTime(escrow.FinishAfter) : undefined,
+      cancelAfter: escrow.CancelAfter !== undefined ? rippleTimeToISOTime(escrow.CancelAfter) : undefined,
+      condition: escrow.Condition,
+      memo,
+      createdHash: escrow.PreviousTxnID,
+    });
+  }
+  return entries;
+}
+
+// What can be done with an escrow right now. The ledger compares against
+// the close time of the previous ledger, so an escrow can stay locked for a
+// few seconds after its time has passed on this clock.
+export function getEscrowState(escrow: EscrowEntry, now: Date = new Date()): EscrowState {
+  if (escrow.cancelAfter && new Date(escrow.cancelAfter) <= now) {
+    return 'cancellable';
+  }
+  if (!escrow.finishAfter || new Date(escrow.finishAfter) <= now) {
+    return 'finishable';
+  }
+  return 'locked';
+}
+
+// XRP `account` has committed to escrows that are not released yet. It has
+// already left the account's balance.
+export async function getEscrowedTotal(client: Client, account: string): Promise<string> {
+  const escrows = await getOwnedEscrows(client, account);
+  const drops = escrows.reduce((total, escrow) => total + BigInt(escrow.Amount), BigInt(0));
+  return String(dropsToXrp(drops.toString()));
+}
+
+// Releases an escrow to its destination. Anyone may submit this; a
+// conditional escrow also needs its fulfillment.
+export async function finishEscrow(client: Client, wallet: Wallet, escrow: EscrowEntry, fulfillment?: string) {
+  if (escrow.condition && !fulfillment) {
+    throw new Error('This escrow needs its fulfillment to be released');
+  }
+
+  const tx: EscrowFinish = {
+    TransactionType: 'EscrowFinish',
+    Account: wallet.address,
+    Owner: escrow.owner,
+    OfferSequence: escrow.sequence,
+  };
+  if (escrow.condition && fulfillment) {
+    tx.Condition = escrow.condition;
+    tx.Fulfillment = fulfillment;
+  }
+  const prepared = await client.autofill(tx);
+  return client.submitAndWait(wallet.sign(prepared).tx_blob);
+}
+
+// Returns an expired escrow's funds to its owner
+export async function cancelEscrow(client: Client, wallet: Wallet, escrow: EscrowEntry) {
+  const tx: EscrowCancel = {
+    TransactionType: 'EscrowCancel',
+    Account: wallet.address,
+    Owner: escrow.owner,
+    OfferSequence: escrow.sequence,
+  };
+  const prepared = await client.autofill(tx);
+  return client.submitAndWait(wallet.sign(prepared).tx_blob);
+}
+
+export class EscrowStore {
+  private storage: KeyValueStorage | null;
+
+  constructor(storage?: KeyValueStorage) {
+    this.storage = storage || (typeof window !== 'undefined' ? window.localStorage : null);
+  }
+
+  list(): EscrowRecord[] {
+    if (!this.storage) {
+      return [];
+    }
+    try {
+      return JSON.parse(this.storage.getItem(ESCROW_STORAGE_KEY) || '[]');
+    } catch (error) {
+      console.error('Error loading escrows from storage:', error);
+      return [];
+    }
+  }
+
+  getPending(network: XRPLNetwork): EscrowRecord[] {
+    return this.list().filter(record => record.status === 'pending' && record.network === network);
+  }
+
+  get(owner: string, sequence: number): EscrowRecord | null {
+    return this.list().find(record => record.owner === owner && record.sequence === sequence) || null;
+  }
+
+  save(record: EscrowRecord) {
+    if (!this.storage) {
+      return;
+    }
+    const records = this.list().filter(r => !(r.owner === record.owner && r.sequence === record.sequence));
+    records.unshift(record);
+    this.storage.setItem(ESCROW_STORAGE_KEY, JSON.stringify(records));
+  }
+
+  remove(owner: string, sequence: number) {
+    if (!this.storage) {
+      return;
+    }
+    const records = this.list().filter(r => !(r.owner === owner && r.sequence === sequence));
+    this.storage.setItem(ESCROW_STORAGE_KEY, JSON.stringify(records));
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { convertSalary, manualRate } from './fx';
+
+const NOW = new Date('2026-01-01T00:00:00.000Z');
+
+describe('manualRate', () => {
+  it.each([
+    ['0.5', '0.5'],
+    ['1.080000', '1.08'],
+    ['1234.5678', '1234.5678'],
+    ['250000', '250000'],
+    ['0.00000004', '0.00000004'],
+    ['0.000000000123456789012345', '0.000000000123456789'],
+    ['0.1234567890123456', '0.123456789012'],
+  ])('keeps significant digits of %s', (input, rate) => {
+    expect(manualRate('USD', 'XRP', input, NOW).rate).toBe(rate);
+  });
+
+  it.each(['0', '0.0000000000000000001'])('rejects a rate of %s', input => {
+    expect(() => manualRate('USD', 'XRP', input, NOW)).toThrow();
+  });
+
+  it('rejects a rate that is not a decimal number', () => {
+    expect(() => manualRate('USD', 'XRP', '1e-8', NOW)).toThrow('Enter the USD/XRP rate as a decimal number');
+  });
+});
+
+describe('convertSalary', () => {
+  it('converts a salary at a tiny rate instead of paying nothing', () => {
+    const rate = manualRate('USD', 'TOKEN', '0.00000004', NOW);
+    const { amount } = convertSalary({ currency: 'USD', value: '100000000' }, { currency: 'TOKEN', issuer: 'rIssuer' }, [rate]);
+    expect(amount.value).toBe('4.00');
+  });
+});
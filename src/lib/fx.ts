@@ -0,0 +1,177 @@
+import { BookOffer, Client } from 'xrpl';
+import { PaymentAmount, encodeCurrencyCode, fromXRPLAmount, isXRP } from './currency';
+import { XRPLNetwork, getNetwork } from './networks';
+import { convertAmount, getRoundingRule } from './payroll-calc';
+import { PayrollMemoFx } from './memos';
+
+export const FIAT_CURRENCIES = ['USD', 'EUR'] as const;
+export type FiatCurrency = typeof FIAT_CURRENCIES[number];
+export type FxRateSource = 'book_offers' | 'manual';
+
+export const FX_SOURCE_LABELS: Record<FxRateSource, string> = {
+  book_offers: 'XRPL order book',
+  manual: 'Manual rate',
+};
+
+// A salary as written in the contract: a fiat amount or a payout currency
+export interface SalaryAmount {
+  currency: string;
+  value: string;
+}
+
+// Units of the payout currency that one unit of `fiat` buys
+export interface FxRate {
+  fiat: FiatCurrency;
+  payout: string;
+  rate: string;
+  source: FxRateSource;
+  timestamp: string;
+  // The validated ledger an order book rate was read from
+  ledgerIndex?: number;
+}
+
+// A rate as it was applied to one salary
+export interface FxConversion extends FxRate {
+  fiatAmount: string;
+}
+
+// Rates keep 12 significant digits however small they are, so a rate such
+// as one USD to 0.00000004 of a token is not rounded away. They stay plain
+// decimals within the 18 places convertAmount works in.
+const RATE_SIGNIFICANT_DIGITS = 12;
+const MAX_RATE_DECIMALS = 18;
+
+export function isFiatCurrency(value: string): value is FiatCurrency {
+  return (FIAT_CURRENCIES as readonly string[]).includes(value.toUpperCase());
+}
+
+export function fxPair(fiat: string, payout: string): string {
+  return `${fiat.toUpperCase()}/${payout.toUpperCase()}`;
+}
+
+function formatRate(rate: number): string {
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw new Error('The rate must be a positive number');
+  }
+  const magnitude = Math.floor(Math.log10(rate));
+  const decimals = Math.min(MAX_RATE_DECIMALS, Math.max(0, RATE_SIGNIFICANT_DIGITS - 1 - magnitude));
+  const text = rate.toFixed(decimals);
+  const trimmed = text.includes('.') ? text.replace(/\.?0+$/, '') : text;
+  if (trimmed === '0') {
+    throw new Error(`The rate is below ${MAX_RATE_DECIMALS} decimal places`);
+  }
+  return trimmed;
+}
+
+export function manualRate(fiat: FiatCurrency, payout: string, rate: string, now: Date = new Date()): FxRate {
+  if (!/^\d+(\.\d+)?$/.test(rate.trim())) {
+    throw new Error(`Enter the ${fxPair(fiat, payout)} rate as a decimal number`);
+  }
+  return { fiat, payout, rate: formatRate(Number(rate)), source: 'manual', timestamp: now.toISOString() };
+}
+
+// Prices `fiat` against the best offer selling the payout currency for it on
+// the DEX, read from the latest validated ledger. Only the funded part of
+// the offer counts, since that is what could actually be taken.
+export async function getBookRate(
+  client: Client,
+  network: XRPLNetwork,
+  fiat: FiatCurrency,
+  payout: Pick<PaymentAmount, 'currency' | 'issuer'>
+): Promise<FxRate> {
+  const config = getNetwork(network);
+  const fiatIssuer = config.fiatIssuers[fiat];
+  if (!fiatIssuer) {
+    throw new Error(`No ${fiat} issuer is configured on ${config.label}. Enter the rate manually.`);
+  }
+  if (!isXRP(payout) && !payout.issuer) {
+    throw new Error(`No issuer configured for ${payout.currency}`);
+  }
+
+  const response = await client.request({
+    command: 'book_offers',
+    taker_gets: isXRP(payout)
+      ? { currency: 'XRP' }
+      : { currency: encodeCurrencyCode(payout.currency), issuer: payout.issuer },
+    taker_pays: { currency: fiat, issuer: fiatIssuer },
+    ledger_index: 'validated',
+    limit: 10,
+  });
+
+  const offer = response.result.offers.find((entry: BookOffer) => {
+    const gets = entry.taker_gets_funded ?? entry.TakerGets;
+    return Number(fromXRPLAmount(gets).value) > 0;
+  });
+  if (!offer) {
+    throw new Error(`The ${fxPair(fiat, payout.currency)} order book has no funded offers. Enter the rate manually.`);
+  }
+
+  const gets = Number(fromXRPLAmount(offer.taker_gets_funded ?? offer.TakerGets).value);
+  const pays = Number(fromXRPLAmount(offer.taker_pays_funded ?? offer.TakerPays).value);
+  return {
+    fiat,
+    payout: payout.currency,
+    rate: formatRate(gets / pays),
+    source: 'book_offers',
+    timestamp: new Date().toISOString(),
+    ledgerIndex: response.result.ledger_index,
+  };
+}
+
+// Turns a salary into the amount to pay. Salaries already in the payout
+// currency pass through; fiat salaries need the rate for their pair.
+export function convertSalary(
+  salary: SalaryAmount,
+  payout: Pick<PaymentAmount, 'currency' | 'issuer'>,
+  rates: FxRate[]
+): { amount: PaymentAmount; fx?: FxConversion } {
+  if (salary.currency.toUpperCase() === payout.currency.toUpperCase()) {
+    return { amount: { ...payout, value: salary.value } };
+  }
+  if (!isFiatCurrency(salary.currency)) {
+    throw new Error(`Cannot convert ${salary.currency} to ${payout.currency}`);
+  }
+
+  const pair = fxPair(salary.currency, payout.currency);
+  const rate = rates.find(r => fxPair(r.fiat, r.payout) === pair);
+  if (!rate) {
+    throw new Error(`No ${pair} rate has been set`);
+  }
+
+  const value = convertAmount(salary.value, rate.rate, getRoundingRule(payout.currency));
+  return {
+    amount: { ...payout, value },
+    fx: { ...rate, fiatAmount: salary.value },
+  };
+}
+
+export function toMemoFx(fx: FxConversion): PayrollMemoFx {
+  return { pair: fxPair(fx.fiat, fx.payout), rate: fx.rate, source: fx.source, at: fx.timestamp, amount: fx.fiatAmount };
+}
+
+// The distinct pairs a set of salaries needs a rate for, in first-seen order
+export function getRequiredPairs(
+  items: { salary: SalaryAmount; payout: Pick<PaymentAmount, 'currency' | 'issuer'> }[]
+): { fiat: FiatCurrency; payout: Pick<PaymentAmount, 'currency' | 'issuer'> }[] {
+  const pairs = new Map<string, { fiat: FiatCurrency; payout: Pick<PaymentAmount, 'currency' | 'issuer'> }>();
+  for (const { salary, payout } of items) {
+    const fiat = salary.currency.toUpperCase();
+    if (isFiatCurrency(fiat) && fiat !== payout.currency.toUpperCase() && !pairs.has(fxPair(fiat, payout.currency))) {
+      pairs.set(fxPair(fiat, payout.currency), { fiat, payout });
+    }
+  }
+  return [...pairs.values()];
+}
+
+// Reads fixed rates written as "USD/RLUSD=1.0001,EUR/XRP=2.4", keyed by pair
+export function parseRateList(text: string): Record<string, string> {
+  const rates: Record<string, string> = {};
+  for (const entry of text.split(',').map(part => part.trim()).filter(Boolean)) {
+    const match = /^([A-Za-z]{3})\/([A-Za-z]{3,})=(\d+(?:\.\d+)?)$/.exec(entry);
+    if (!match || !isFiatCurrency(match[1])) {
+      throw new Error(`Invalid rate "${entry}", expected e.g. USD/RLUSD=1.0`);
+    }
+    rates[fxPair(match[1], match[2])] = match[3];
+  }
+  return rates;
+}
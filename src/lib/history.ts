@@ -0,0 +1,148 @@
+import { AccountTxTransaction, Amount, rippleTimeToISOTime } from 'xrpl';
+import { fromXRPLAmount, formatAmount, getDeliveredAmount } from './currency';
+import { PayrollMemo, getPayrollMemo, getTextMemo } from './memos';
+
+export type TransactionStatus = 'success' | 'failed';
+
+export interface TransactionRecord {
+  hash: string;
+  type: string;
+  account: string;
+  amount: string;
+  value: string | null;
+  currency: string | null;
+  destination: string;
+  date: Date;
+  status: TransactionStatus;
+  resultCode: string;
+  ledgerIndex: number;
+  // Position within the ledger, which orders transactions closed together
+  transactionIndex: number;
+  fee: string;
+  memo?: string;
+  // Run, period, employee and payslip references of a payroll payment
+  payroll?: PayrollMemo;
+}
+
+// `marker` is opaque; pass it back unchanged to fetch the next page. It is
+// absent on the last page.
+export interface TransactionPage {
+  transactions: TransactionRecord[];
+  marker?: unknown;
+}
+
+export interface HistoryFilters {
+  employee?: string;
+  // Inclusive calendar dates in YYYY-MM-DD form, compared in UTC
+  from?: string;
+  to?: string;
+  status?: TransactionStatus;
+  currency?: string;
+}
+
+type AccountTxEntry = AccountTxTransaction & { close_time_iso?: string };
+
+export function toTransactionRecord(entry: AccountTxEntry): TransactionRecord {
+  const tx = entry.tx_json;
+  const meta = typeof entry.meta === 'object' ? entry.meta : undefined;
+  const resultCode = meta?.TransactionResult || 'unknown';
+
+  let date = new Date();
+  if (entry.close_time_iso) {
+    date = new Date(entry.close_time_iso);
+  } else if (tx?.date !== undefined) {
+    date = new Date(rippleTimeToISOTime(tx.date));
+  }
+
+  const record: TransactionRecord = {
+    hash: entry.hash || tx?.hash || 'unknown',
+    type: tx?.TransactionType || 'Unknown',
+    account: tx?.Account || 'N/A',
+    amount: 'N/A',
+    value: null,
+    currency: null,
+    destination: 'N/A',
+    date,
+    status: resultCode === 'tesSUCCESS' ? 'success' : 'failed',
+    resultCode,
+    ledgerIndex: entry.ledger_index,
+    transactionIndex: meta?.TransactionIndex ?? 0,
+    fee: tx?.Fee || '0',
+    memo: getTextMemo(tx?.Memos),
+    payroll: getPayrollMemo(tx?.Memos),
+  };
+
+  if (tx?.TransactionType === 'Payment') {
+    // API v2 renames Amount to DeliverMax. Drops for XRP, {currency, issuer,
+    // value} for issued currencies; partial payments report what actually
+    // arrived in delivered_amount.
+    const requested = (tx as { DeliverMax?: Amount }).DeliverMax ?? tx.Amount;
+    // MPT amounts are not payroll currencies and are left as N/A
+    if (requested && (typeof requested === 'string' || 'currency' in requested)) {
+      const amount = getDeliveredAmount(meta, fromXRPLAmount(requested));
+      record.amount = formatAmount(amount);
+      record.value = amount.value;
+      record.currency = amount.currency;
+    }
+    record.destination = tx.Destination;
+  }
+
+  return record;
+}
+
+// Outgoing payments from `account` that match every filter that is set
+export function filterPayrollHistory(
+  records: TransactionRecord[],
+  account: string,
+  filters: HistoryFilters = {}
+): TransactionRecord[] {
+  return records.filter(record => {
+    if (record.type !== 'Payment' || record.account !== account) {
+      return false;
+    }
+    if (filters.employee && (record.payroll?.employee || record.destination) !== filters.employee) {
+      return false;
+    }
+    const day = record.date.toISOString().slice(0, 10);
+    if (filters.from && day < filters.from) {
+      return false;
+    }
+    if (filters.to && day > filters.to) {
+      return false;
+    }
+    if (filters.status && record.status !== filters.status) {
+      return false;
+    }
+    if (filters.currency && record.currency?.toUpperCase() !== filters.currency.toUpperCase()) {
+      return false;
+    }
+    return true;
+  });
+}
+
+// Payments made by the same payroll run for the same pay period. Payments
+// without a payroll memo share a group with neither set.
+export interface PayrollHistoryGroup {
+  key: string;
+  run?: string;
+  period?: string;
+  records: TransactionRecord[];
+}
+
+// Keeps the order of `records`, so newest-first history yields the group
+// with the most recent payment first.
+export function groupPayrollHistory(records: TransactionRecord[]): PayrollHistoryGroup[] {
+  const groups = new Map<string, PayrollHistoryGroup>();
+  for (const record of records) {
+    const run = record.payroll?.run;
+    const period = record.payroll?.period;
+    const key = `${run || ''}|${period || ''}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, run, period, records: [] };
+      groups.set(key, group);
+    }
+    group.records.push(record);
+  }
+  return [...groups.values()];
+}
@@ -0,0 +1,134 @@
+import { PayrollRun } from './payroll-runs';
+import { TransactionPage, TransactionRecord, filterPayrollHistory } from './history';
+
+export const LEDGER_EXPORT_COLUMNS = [
+  'date',
+  'employee_name',
+  'address',
+  'amount',
+  'currency',
+  'fee_drops',
+  'tx_hash',
+  'ledger_index',
+  'result_code',
+  'memo',
+  'run_id',
+  'pay_period',
+  'fx_pair',
+  'fx_rate',
+  'fx_source',
+  'fx_time',
+  'salary_amount',
+] as const;
+
+export type LedgerExportColumn = typeof LEDGER_EXPORT_COLUMNS[number];
+export type LedgerExportRow = Record<LedgerExportColumn, string>;
+
+export interface LedgerExportFilters {
+  // Inclusive calendar dates in YYYY-MM-DD form, compared in UTC
+  from?: string;
+  to?: string;
+  // A pay period id such as 2026-01-01/2026-01-31
+  period?: string;
+}
+
+const PAGE_SIZE = 200;
+
+// Follows account_tx markers until the ledger reports no more pages
+export async function fetchFullHistory(
+  fetchPage: (options: { limit: number; marker?: unknown }) => Promise<TransactionPage>
+): Promise<TransactionRecord[]> {
+  const records: TransactionRecord[] = [];
+  let marker: unknown = undefined;
+
+  do {
+    const page = await fetchPage({ limit: PAGE_SIZE, marker });
+    records.push(...page.transactions);
+    marker = page.marker;
+  } while (marker !== undefined);
+
+  return records;
+}
+
+// Maps the hash of every payroll line to the pay period it paid. Payments
+// sent before payroll memos existed carry no period on the ledger, and only
+// lines from runs recorded on this device can fill it in.
+export function getPeriodsByHash(runs: PayrollRun[]): Map<string, string> {
+  const periods = new Map<string, string>();
+  for (const run of runs) {
+    for (const line of run.lines) {
+      if (line.hash && line.period) {
+        periods.set(line.hash, line.period);
+      }
+    }
+  }
+  return periods;
+}
+
+// Every outgoing payment of `account`, oldest first. Rows are ordered by
+// ledger and position within the ledger and hold only ledger data and
+// metadata, so the same history always exports to the same bytes.
+export function buildLedgerExport(
+  records: TransactionRecord[],
+  account: string,
+  employees: { address: string; name?: string }[],
+  filters: LedgerExportFilters = {},
+  periodsByHash: Map<string, string> = new Map()
+): LedgerExportRow[] {
+  const names = new Map(employees.map(employee => [employee.address, employee.name || '']));
+  const unique = new Map<string, TransactionRecord>();
+  const periodOf = (record: TransactionRecord) => record.payroll?.period || periodsByHash.get(record.hash) || '';
+  for (const record of filterPayrollHistory(records, account, { from: filters.from, to: filters.to })) {
+    if (!filters.period || periodOf(record) === filters.period) {
+      unique.set(record.hash, record);
+    }
+  }
+
+  return [...unique.values()]
+    .sort((a, b) =>
+      a.ledgerIndex - b.ledgerIndex
+      || a.transactionIndex - b.transactionIndex
+      || (a.hash < b.hash ? -1 : a.hash > b.hash ? 1 : 0))
+    .map(record => ({
+      date: record.date.toISOString(),
+      employee_name: names.get(record.payroll?.employee || record.destination) || '',
+      address: record.destination,
+      amount: record.value || '',
+      currency: record.currency || '',
+      fee_drops: record.fee,
+      tx_hash: record.hash,
+      ledger_index: String(record.ledgerIndex),
+      result_code: record.resultCode,
+      memo: record.memo || '',
+      run_id: record.payroll?.run || '',
+      pay_period: periodOf(record),
+      fx_pair: record.payroll?.fx?.pair || '',
+      fx_rate: record.payroll?.fx?.rate || '',
+      fx_source: record.payroll?.fx?.source || '',
+      fx_time: record.payroll?.fx?.at || '',
+      salary_amount: record.payroll?.fx?.amount || '',
+    }));
+}
+
+// Spreadsheets evaluate cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const FREE_TEXT_COLUMNS: LedgerExportColumn[] = ['employee_name', 'memo'];
+
+function csvCell(column: LedgerExportColumn, value: string): string {
+  const safe = FREE_TEXT_COLUMNS.includes(column) && FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toLedgerCsv(rows: LedgerExportRow[]): string {
+  const lines = [LEDGER_EXPORT_COLUMNS.join(',')];
+  for (const row of rows) {
+    lines.push(LEDGER_EXPORT_COLUMNS.map(column => csvCell(column, row[column])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function toLedgerJson(rows: LedgerExportRow[]): string {
+  // Rebuilt key by key so the property order never depends on how a row was made
+  const ordered = rows.map(row => Object.fromEntries(LEDGER_EXPORT_COLUMNS.map(column => [column, row[column]])));
+  return JSON.stringify(ordered, null, 2) + '\n';
+}
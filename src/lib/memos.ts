@@ -0,0 +1,108 @@
+import { Memo, convertStringToHex, convertHexToString } from 'xrpl';
+
+const TEXT_MEMO_TYPE = 'text/plain';
+const PAYROLL_MEMO_TYPE = 'renmo/payroll';
+const PAYROLL_MEMO_VERSION = 1;
+const JSON_MEMO_FORMAT = 'application/json';
+
+// XRPL memo fields are hex-encoded on the ledger.
+export function encodeTextMemo(text: string): Memo {
+  return {
+    Memo: {
+      MemoType: convertStringToHex(TEXT_MEMO_TYPE),
+      MemoData: convertStringToHex(text),
+    },
+  };
+}
+
+export interface DecodedMemo {
+  type?: string;
+  format?: string;
+  data?: string;
+}
+
+export function decodeMemos(memos: Memo[] | undefined): DecodedMemo[] {
+  if (!memos) {
+    return [];
+  }
+
+  return memos.map(({ Memo: memo }) => ({
+    type: memo.MemoType ? convertHexToString(memo.MemoType) : undefined,
+    format: memo.MemoFormat ? convertHexToString(memo.MemoFormat) : undefined,
+    data: memo.MemoData ? convertHexToString(memo.MemoData) : undefined,
+  }));
+}
+
+export function getTextMemo(memos: Memo[] | undefined): string | undefined {
+  return decodeMemos(memos).find(memo => memo.type === TEXT_MEMO_TYPE)?.data;
+}
+
+// The structured memo every payroll payment carries. Memos are public, so
+// the employee is referenced by roster address and never by name.
+export interface PayrollMemo {
+  // Payroll run id; absent on one-off payments
+  run?: string;
+  // Pay period id, e.g. 2026-01-01/2026-01-31
+  period?: string;
+  employee?: string;
+  // IPFS CID of the pinned payslip
+  payslip?: string;
+  // The exchange rate a fiat salary was converted at
+  fx?: PayrollMemoFx;
+}
+
+export interface PayrollMemoFx {
+  // e.g. USD/RLUSD
+  pair: string;
+  rate: string;
+  source: string;
+  // When the rate was read or entered
+  at: string;
+  // The salary in the fiat currency
+  amount: string;
+}
+
+export function encodePayrollMemo(memo: PayrollMemo): Memo {
+  // Fixed key order so identical memos encode to identical bytes
+  const fx = memo.fx && { pair: memo.fx.pair, rate: memo.fx.rate, source: memo.fx.source, at: memo.fx.at, amount: memo.fx.amount };
+  const body = { v: PAYROLL_MEMO_VERSION, run: memo.run, period: memo.period, employee: memo.employee, payslip: memo.payslip, fx };
+  return {
+    Memo: {
+      MemoType: convertStringToHex(PAYROLL_MEMO_TYPE),
+      MemoFormat: convertStringToHex(JSON_MEMO_FORMAT),
+      MemoData: convertStringToHex(JSON.stringify(body)),
+    },
+  };
+}
+
+// Anything on the ledger can carry a memo of this type, so malformed or
+// unknown versions are ignored rather than trusted.
+export function getPayrollMemo(memos: Memo[] | undefined): PayrollMemo | undefined {
+  const data = decodeMemos(memos).find(memo => memo.type === PAYROLL_MEMO_TYPE)?.data;
+  if (!data) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(data);
+    if (!parsed || typeof parsed !== 'object' || parsed.v !== PAYROLL_MEMO_VERSION) {
+      return undefined;
+    }
+    const text = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+    const fx = parsed.fx && typeof parsed.fx === 'object' ? parsed.fx : {};
+    const pair = text(fx.pair);
+    const rate = text(fx.rate);
+    const source = text(fx.source);
+    const at = text(fx.at);
+    const amount = text(fx.amount);
+    return {
+      run: text(parsed.run),
+      period: text(parsed.period),
+      employee: text(parsed.employee),
+      payslip: text(parsed.payslip),
+      fx: pair && rate && source && at && amount ? { pair, rate, source, at, amount } : undefined,
+    };
+  } catch {
+    return undefined;
+  }
+}
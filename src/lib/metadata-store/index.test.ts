@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { InMemoryMetadataStore, createMetadataStore } from '.';
+
+describe('createMetadataStore', () => {
+  it('refuses the local store on the server', () => {
+    expect(() => createMetadataStore('local')).toThrow(/cannot be used on the server/);
+  });
+
+  it('creates the other stores by name', () => {
+    expect(createMetadataStore('memory')).toBeInstanceOf(InMemoryMetadataStore);
+  });
+});
@@ -0,0 +1,56 @@
+import { AccountMetadata, MetadataNotFoundError, MetadataStore } from './types';
+import { PinataMetadataStore } from './pinata';
+import { InMemoryMetadataStore } from './memory';
+import { JsonMetadataStore } from './json';
+
+export type { AccountMetadata, MetadataQuery, MetadataStore } from './types';
+export { MetadataNotFoundError, matchesQuery } from './types';
+export { PinataMetadataStore } from './pinata';
+export { InMemoryMetadataStore } from './memory';
+export { JsonMetadataStore } from './json';
+
+export type MetadataStoreKind = 'pinata' | 'local' | 'memory';
+
+let defaultStore: MetadataStore | null = null;
+
+// `local` keeps the roster in this browser's storage, for self-hosted
+// deployments that do without Pinata. There is no browser storage on the
+// server, where it would only ever read an empty roster.
+export function createMetadataStore(
+  kind: MetadataStoreKind = (process.env.NEXT_PUBLIC_METADATA_STORE || 'pinata') as MetadataStoreKind
+): MetadataStore {
+  switch (kind) {
+    case 'pinata':
+      return new PinataMetadataStore();
+    case 'local':
+      if (typeof window === 'undefined') {
+        throw new Error('The local metadata store keeps the roster in browser storage and cannot be used on the server. Set METADATA_STORE=file to read it from a file.');
+      }
+      return new JsonMetadataStore();
+    case 'memory':
+      return new InMemoryMetadataStore();
+    default:
+      throw new Error(`Unknown metadata store "${kind}". Use pinata, local or memory.`);
+  }
+}
+
+// The store the dashboard works with, picked by NEXT_PUBLIC_METADATA_STORE
+export function getMetadataStore(): MetadataStore {
+  if (!defaultStore) {
+    defaultStore = createMetadataStore();
+  }
+  return defaultStore;
+}
+
+// Merges `updates` into an existing record. Throws if there is none.
+export async function updateMetadata(
+  store: MetadataStore,
+  address: string,
+  updates: Partial<AccountMetadata>
+): Promise<AccountMetadata> {
+  const existing = await store.get(address);
+  if (!existing) {
+    throw new MetadataNotFoundError(address);
+  }
+  return store.put({ ...existing, ...updates, address });
+}
@@ -0,0 +1,62 @@
+import { KeyValueStorage } from '../payroll-runs';
+import { AccountMetadata, MetadataNotFoundError, MetadataQuery, MetadataStore, matchesQuery } from './types';
+
+const METADATA_STORAGE_KEY = 'account_metadata';
+
+// The roster as a single JSON document under one storage key. Backed by
+// FileStorage it is a local file for self-hosted servers; backed by
+// localStorage it keeps the roster on this device without Pinata.
+export class JsonMetadataStore implements MetadataStore {
+  private storage: KeyValueStorage | null;
+
+  constructor(storage?: KeyValueStorage) {
+    this.storage = storage || (typeof window !== 'undefined' ? window.localStorage : null);
+  }
+
+  private read(): Record<string, AccountMetadata> {
+    if (!this.storage) {
+      return {};
+    }
+    try {
+      return JSON.parse(this.storage.getItem(METADATA_STORAGE_KEY) || '{}');
+    } catch (error) {
+      console.error('Error loading account metadata from storage:', error);
+      return {};
+    }
+  }
+
+  private write(records: Record<string, AccountMetadata>) {
+    if (!this.storage) {
+      throw new Error('No storage is available for account metadata');
+    }
+    this.storage.setItem(METADATA_STORAGE_KEY, JSON.stringify(records, null, 2));
+  }
+
+  async list(): Promise<AccountMetadata[]> {
+    return Object.values(this.read());
+  }
+
+  async get(address: string): Promise<AccountMetadata | null> {
+    return this.read()[address] || null;
+  }
+
+  async put(metadata: AccountMetadata): Promise<AccountMetadata> {
+    const records = this.read();
+    records[metadata.address] = metadata;
+    this.write(records);
+    return metadata;
+  }
+
+  async delete(address: string): Promise<void> {
+    const records = this.read();
+    if (!records[address]) {
+      throw new MetadataNotFoundError(address);
+    }
+    delete records[address];
+    this.write(records);
+  }
+
+  async search(query: MetadataQuery): Promise<AccountMetadata[]> {
+    return (await this.list()).filter(metadata => matchesQuery(metadata, query));
+  }
+}
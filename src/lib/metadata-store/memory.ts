@@ -0,0 +1,36 @@
+import { AccountMetadata, MetadataNotFoundError, MetadataQuery, MetadataStore, matchesQuery } from './types';
+
+// Keeps the roster in memory only, for tests and scripted demos
+export class InMemoryMetadataStore implements MetadataStore {
+  private records = new Map<string, AccountMetadata>();
+
+  constructor(initial: AccountMetadata[] = []) {
+    for (const metadata of initial) {
+      this.records.set(metadata.address, { ...metadata });
+    }
+  }
+
+  async list(): Promise<AccountMetadata[]> {
+    return Array.from(this.records.values(), metadata => ({ ...metadata }));
+  }
+
+  async get(address: string): Promise<AccountMetadata | null> {
+    const metadata = this.records.get(address);
+    return metadata ? { ...metadata } : null;
+  }
+
+  async put(metadata: AccountMetadata): Promise<AccountMetadata> {
+    this.records.set(metadata.address, { ...metadata });
+    return { ...metadata };
+  }
+
+  async delete(address: string): Promise<void> {
+    if (!this.records.delete(address)) {
+      throw new MetadataNotFoundError(address);
+    }
+  }
+
+  async search(query: MetadataQuery): Promise<AccountMetadata[]> {
+    return (await this.list()).filter(metadata => matchesQuery(metadata, query));
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { PinListRow, PinataService } from '../pinata';
+import { METADATA_CACHE_TTL_MS, PinataMetadataStore } from './pinata';
+import { AccountMetadata } from './types';
+
+const ADDRESS = 'rPEPPER7kfTD9w2To4CQk6UCfuHM9c6GDY';
+
+// Pinata as another device leaves it: one pin per address, changed behind
+// the store's back
+function fakePinata() {
+  const pins = new Map<string, AccountMetadata>();
+  let reads = 0;
+  const service = {
+    async listPins(keyvalues: Record<string, string>): Promise<PinListRow[]> {
+      return [...pins.values()]
+        .filter(metadata => !keyvalues.address || metadata.address === keyvalues.address)
+        .map(metadata => ({ ipfs_pin_hash: `${metadata.address}:${metadata.name}`, metadata: { keyvalues: { address: metadata.address } } }));
+    },
+    async getPinContent(ipfsHash: string) {
+      reads++;
+      return pins.get(ipfsHash.split(':')[0]);
+    },
+  } as unknown as PinataService;
+  const record = (name: string): AccountMetadata => ({ name, address: ADDRESS, createdAt: '2026-01-01', lastUsed: '2026-01-01' });
+  return { service, pins, record, reads: () => reads };
+}
+
+describe('PinataMetadataStore', () => {
+  it('reads a record again once the cache expires', async () => {
+    const { service, pins, record, reads } = fakePinata();
+    let now = 0;
+    const store = new PinataMetadataStore(service, () => now);
+
+    pins.set(ADDRESS, record('Pepper'));
+    expect((await store.get(ADDRESS))?.name).toBe('Pepper');
+
+    pins.set(ADDRESS, record('Pepper Potts'));
+    now = METADATA_CACHE_TTL_MS - 1;
+    expect((await store.get(ADDRESS))?.name).toBe('Pepper');
+    expect(reads()).toBe(1);
+
+    now = METADATA_CACHE_TTL_MS;
+    expect((await store.get(ADDRESS))?.name).toBe('Pepper Potts');
+  });
+
+  it('forgets records a full list no longer finds', async () => {
+    const { service, pins, record } = fakePinata();
+    const store = new PinataMetadataStore(service, () => 0);
+
+    pins.set(ADDRESS, record('Pepper'));
+    await store.get(ADDRESS);
+    pins.delete(ADDRESS);
+
+    expect(await store.list()).toEqual([]);
+    expect(await store.get(ADDRESS)).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+import { PinListRow, PinataService } from '../pinata';
+import { AccountMetadata, MetadataNotFoundError, MetadataQuery, MetadataStore, matchesQuery } from './types';
+
+const ACCOUNT_PIN_TYPE = 'account';
+// How long a record read from Pinata is trusted before it is read again,
+// so edits made on another device show up without a reload
+export const METADATA_CACHE_TTL_MS = 60 * 1000;
+
+interface CachedMetadata {
+  metadata: AccountMetadata;
+  cachedAt: number;
+}
+
+// The roster on IPFS through Pinata, one pin per record tagged with the
+// account's address. Pins are immutable, so putting a record pins a new
+// version and unpins the older ones. Pins are found through Pinata's own
+// pin list, so records can be replaced and deleted from any device.
+export class PinataMetadataStore implements MetadataStore {
+  private cache = new Map<string, CachedMetadata>();
+
+  constructor(
+    private pinata: PinataService = PinataService.getInstance(),
+    private now: () => number = Date.now
+  ) {}
+
+  private remember(metadata: AccountMetadata) {
+    this.cache.set(metadata.address, { metadata, cachedAt: this.now() });
+  }
+
+  private listAccountPins(address?: string): Promise<PinListRow[]> {
+    return this.pinata.listPins(address ? { type: ACCOUNT_PIN_TYPE, address } : { type: ACCOUNT_PIN_TYPE });
+  }
+
+  private async readPin(row: PinListRow): Promise<AccountMetadata | null> {
+    try {
+      return await this.pinata.getPinContent<AccountMetadata>(row.ipfs_pin_hash);
+    } catch (error) {
+      console.error(`Error reading account metadata pin ${row.ipfs_pin_hash}:`, error);
+      return null;
+    }
+  }
+
+  async list(): Promise<AccountMetadata[]> {
+    // Pins come newest first; an update leaves the older pin behind until
+    // it is unpinned, so only the first pin per address counts
+    const seen = new Set<string>();
+    const latest = (await this.listAccountPins()).filter(row => {
+      const address = row.metadata.keyvalues.address;
+      if (!address || seen.has(address)) {
+        return false;
+      }
+      seen.add(address);
+      return true;
+    });
+
+    const records = await Promise.all(latest.map(row => this.readPin(row)));
+    const found = records.filter((metadata): metadata is AccountMetadata => !!metadata?.address);
+    // The full list replaces the cache, dropping records deleted elsewhere
+    this.cache.clear();
+    found.forEach(metadata => this.remember(metadata));
+    return found;
+  }
+
+  async get(address: string): Promise<AccountMetadata | null> {
+    const cached = this.cache.get(address);
+    if (cached && this.now() - cached.cachedAt < METADATA_CACHE_TTL_MS) {
+      return cached.metadata;
+    }
+    this.cache.delete(address);
+
+    const [latest] = await this.listAccountPins(address);
+    const metadata = latest ? await this.readPin(latest) : null;
+    if (metadata) {
+      this.remember(metadata);
+    }
+    return metadata;
+  }
+
+  async put(metadata: AccountMetadata): Promise<AccountMetadata> {
+    const record = { ...metadata, name: metadata.name || `Account ${metadata.address.slice(0, 8)}...` };
+    const previous = await this.listAccountPins(metadata.address);
+    const ipfsHash = await this.pinata.pinJSONToIPFS({
+      pinataContent: record,
+      pinataMetadata: {
+        name: record.name,
+        keyvalues: { address: record.address, type: ACCOUNT_PIN_TYPE },
+      },
+    });
+    this.remember(record);
+
+    for (const row of previous.filter(row => row.ipfs_pin_hash !== ipfsHash)) {
+      try {
+        await this.pinata.unpin(row.ipfs_pin_hash);
+      } catch (error) {
+        // The new version is already pinned and wins on read, so a stale pin is harmless
+        console.error('Error unpinning previous metadata version:', error);
+      }
+    }
+    return record;
+  }
+
+  async delete(address: string): Promise<void> {
+    const pins = await this.listAccountPins(address);
+    this.cache.delete(address);
+    if (pins.length === 0) {
+      throw new MetadataNotFoundError(address);
+    }
+    // Every version goes, or an older one would resurface on the next list
+    for (const row of pins) {
+      await this.pinata.unpin(row.ipfs_pin_hash);
+    }
+  }
+
+  async search(query: MetadataQuery): Promise<AccountMetadata[]> {
+    return (await this.list()).filter(metadata => matchesQuery(metadata, query));
+  }
+}
@@ -0,0 +1,53 @@
+import { PaySchedule } from '../schedules';
+
+export interface AccountMetadata {
+  name: string;
+  address: string;
+  createdAt: string;
+  lastUsed: string;
+  department?: string;
+  tags?: string[];
+  // Required by exchange deposit addresses and other shared accounts
+  destinationTag?: number;
+  schedule?: PaySchedule;
+}
+
+// Every field given must match. `text` is matched case-insensitively
+// against the name and the address.
+export interface MetadataQuery {
+  text?: string;
+  department?: string;
+  tag?: string;
+}
+
+// Where the employee roster is kept, one record per address. Putting an
+// address that already has a record replaces it.
+export interface MetadataStore {
+  list(): Promise<AccountMetadata[]>;
+  get(address: string): Promise<AccountMetadata | null>;
+  put(metadata: AccountMetadata): Promise<AccountMetadata>;
+  // Throws MetadataNotFoundError when there is nothing to delete
+  delete(address: string): Promise<void>;
+  search(query: MetadataQuery): Promise<AccountMetadata[]>;
+}
+
+export class MetadataNotFoundError extends Error {
+  constructor(address: string) {
+    super(`Account metadata not found for ${address}`);
+    this.name = 'MetadataNotFoundError';
+  }
+}
+
+export function matchesQuery(metadata: AccountMetadata, query: MetadataQuery): boolean {
+  if (query.department && metadata.department !== query.department) {
+    return false;
+  }
+  if (query.tag && !metadata.tags?.includes(query.tag)) {
+    return false;
+  }
+  if (query.text) {
+    const text = query.text.toLowerCase();
+    return metadata.name.toLowerCase().includes(text) || metadata.address.toLowerCase().includes(text);
+  }
+  return true;
+}
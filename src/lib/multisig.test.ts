@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { Wallet } from 'xrpl';
+import { rlusd, xrp } from './currency';
+import {
+  PaymentProposal,
+  getProposalTotals,
+  mergeProposal,
+  rejectProposal,
+  signProposal,
+  validateProposalTransactions,
+  verifyProposalRejection,
+} from './multisig';
+import { PayrollRun, buildLineTransaction, createPayrollRun } from './payroll-runs';
+
+const company = Wallet.generate();
+const alice = Wallet.generate();
+const bob = Wallet.generate();
+const carol = Wallet.generate();
+const EMPLOYEE = 'rPEPPER7kfTD9w2To4CQk6UCfuHM9c6GDY';
+const CONTRACTOR = 'rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH';
+
+// A proposal as createProposal leaves it, with the fields autofill adds
+function propose(): { proposal: PaymentProposal; run: PayrollRun } {
+  const run = createPayrollRun(company.address, [
+    { destination: EMPLOYEE, destinationTag: 7, amount: xrp('100'), name: 'Pepper', period: '2026-01-01/2026-01-31' },
+    { destination: CONTRACTOR, amount: rlusd('250.50', 'testnet'), byCheck: true },
+  ], 'testnet');
+  const proposal: PaymentProposal = {
+    id: crypto.randomUUID(),
+    run: run.id,
+    account: company.address,
+    network: 'testnet',
+    signerList: { quorum: 2, signers: [alice, bob, carol].map(w => ({ account: w.address, weight: 1 })) },
+    transactions: {},
+    signatures: [],
+    rejections: [],
+    status: 'collecting',
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+  run.lines.forEach((line, i) => {
+    line.sequence = 10 + i;
+    line.lastLedgerSequence = 65_100;
+    const tx = buildLineTransaction(run, line, { sequence: line.sequence, lastLedgerSequence: line.lastLedgerSequence, fee: '48' });
+    proposal.transactions[line.id] = { ...tx, Flags: 0, SigningPubKey: '' };
+  });
+  return { proposal, run };
+}
+
+// What another device sends back: the proposal and run as exported JSON
+function roundTrip<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+describe('validateProposalTransactions', () => {
+  it('accepts a proposal that pays exactly its run', () => {
+    const { proposal, run } = roundTrip(propose());
+    expect(validateProposalTransactions(proposal, run)).toEqual([]);
+  });
+
+  it.each<[string, (bundle: { proposal: PaymentProposal; run: PayrollRun }) => void]>([
+    ['a changed destination', ({ proposal, run }) => {
+      proposal.transactions[run.lines[0].id].Destination = CONTRACTOR;
+    }],
+    ['a changed amount', ({ proposal, run }) => {
+      proposal.transactions[run.lines[0].id] = { ...proposal.transactions[run.lines[0].id], Amount: '1000000000' } as PaymentProposal['transactions'][string];
+    }],
+    ['a dropped destination tag', ({ proposal, run }) => {
+      delete proposal.transactions[run.lines[0].id].DestinationTag;
+    }],
+    ['a changed memo', ({ proposal, run }) => {
+      proposal.transactions[run.lines[0].id].Memos = [];
+    }],
+    ['a partial payment flag', ({ proposal, run }) => {
+      proposal.transactions[run.lines[0].id].Flags = 0x00020000;
+    }],
+    ['a different sequence', ({ proposal, run }) => {
+      proposal.transactions[run.lines[0].id].Sequence = 99;
+    }],
+  ])('rejects %s', (_, tamper) => {
+    const bundle = propose();
+    tamper(bundle);
+    expect(validateProposalTransactions(bundle.proposal, bundle.run)).toEqual([
+      expect.stringContaining('does not match the run line'),
+    ]);
+  });
+
+  it('rejects a transaction that pays no line of the run', () => {
+    const { proposal, run } = propose();
+    proposal.transactions['extra'] = { ...proposal.transactions[run.lines[0].id] };
+    expect(validateProposalTransactions(proposal, run)).toEqual([expect.stringContaining('pays no line of the run')]);
+  });
+
+  it('rejects a run line without a transaction', () => {
+    const { proposal, run } = propose();
+    delete proposal.transactions[run.lines[1].id];
+    expect(validateProposalTransactions(proposal, run)).toEqual([expect.stringContaining('has no transaction in the proposal')]);
+  });
+
+  it('rejects a run of another account', () => {
+    const { proposal, run } = propose();
+    run.account = alice.address;
+    expect(validateProposalTransactions(proposal, run)).toEqual(['The proposal and its run do not belong together']);
+  });
+});
+
+describe('getProposalTotals', () => {
+  it('adds up each currency and the fees', () => {
+    const { proposal } = propose();
+    expect(getProposalTotals(proposal)).toEqual({
+      amounts: [xrp('100'), rlusd('250.50', 'testnet')],
+      feeXrp: '0.000096',
+    });
+  });
+});
+
+describe('proposal rejections', () => {
+  it('signs a rejection that verifies after an export', () => {
+    const { proposal } = propose();
+    const rejected = roundTrip(rejectProposal(proposal, alice, 'Wrong period'));
+    expect(rejected.rejections[0]).toMatchObject({ signer: alice.address, reason: 'Wrong period', publicKey: alice.publicKey });
+    expect(verifyProposalRejection(proposal, rejected.rejections[0])).toBe(true);
+  });
+
+  it('does not verify a rejection whose reason was changed', () => {
+    const { proposal } = propose();
+    const [rejection] = rejectProposal(proposal, alice, 'Wrong period').rejections;
+    expect(verifyProposalRejection(proposal, { ...rejection, reason: 'Approved' })).toBe(false);
+  });
+
+  it('does not verify a rejection signed by someone else in a signer\'s name', () => {
+    const { proposal } = propose();
+    const [rejection] = rejectProposal({ ...proposal, signerList: { quorum: 1, signers: [{ account: carol.address, weight: 1 }] } }, carol).rejections;
+    expect(verifyProposalRejection(proposal, { ...rejection, signer: alice.address })).toBe(false);
+  });
+
+  it('refuses rejections from outside the signer list', () => {
+    const { proposal } = propose();
+    expect(() => rejectProposal(proposal, company)).toThrow('is not on the signer list');
+  });
+
+  it('merges only rejections that verify', () => {
+    const { proposal } = propose();
+    const remote = rejectProposal(rejectProposal(proposal, alice), bob);
+    const forged = { ...remote.rejections[1], signer: carol.address };
+    const merged = mergeProposal(proposal, roundTrip({ ...remote, rejections: [...remote.rejections, forged] }));
+
+    expect(merged.rejections.map(r => r.signer)).toEqual([alice.address, bob.address]);
+    expect(merged.status).toBe('rejected');
+  });
+
+  it('does not reject a proposal on unsigned rejections', () => {
+    const { proposal } = propose();
+    const unsigned = [alice, bob].map(w => ({ signer: w.address, rejectedAt: new Date().toISOString(), publicKey: '', signature: '' }));
+    const merged = mergeProposal(proposal, { ...proposal, rejections: unsigned });
+    expect(merged.rejections).toEqual([]);
+    expect(merged.status).toBe('collecting');
+  });
+
+  it('keeps verified approvals next to rejections', () => {
+    const { proposal } = propose();
+    const remote = rejectProposal(signProposal(proposal, alice), bob);
+    const merged = mergeProposal(proposal, roundTrip(remote));
+    expect(merged.signatures.map(s => s.signer)).toEqual([alice.address]);
+    expect(merged.rejections.map(r => r.signer)).toEqual([bob.address]);
+    expect(merged.status).toBe('collecting');
+  });
+});
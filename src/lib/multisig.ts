@@ -0,0 +1,569 @@
+import {
+  Amount,
+  CheckCreate,
+  Client,
+  Payment,
+  SignerListSet,
+  Transaction,
+  Wallet,
+  convertStringToHex,
+  decode,
+  deriveAddress,
+  dropsToXrp,
+  encode,
+  encodeForMultiSigning,
+  hashes,
+  isValidClassicAddress,
+  multisign,
+  verifyKeypairSignature,
+} from 'xrpl';
+import { sign } from 'ripple-keypairs';
+import { PaymentAmount, fromXRPLAmount } from './currency';
+import { XRPLNetwork } from './networks';
+import { assertAffordable, multisignFee, projectPayments } from './preflight';
+import {
+  KeyValueStorage,
+  PayrollRun,
+  PayrollRunStore,
+  PayrollLine,
+  buildLineTransaction,
+  settleSubmittedLines,
+  submitSignedLines,
+} from './payroll-runs';
+
+const PROPOSAL_STORAGE_KEY = 'renmo_payroll_proposals';
+// The XRPL allows up to 32 entries in a signer list
+const MAX_SIGNERS = 32;
+// Approvals can take days, so proposals stay signable for about three days
+// of ledgers (at roughly four seconds each) before their payments expire
+const PROPOSAL_LEDGER_WINDOW = 65_000;
+
+export interface SignerEntry {
+  account: string;
+  weight: number;
+}
+
+// A multi-signature is valid once the weights of its signers add up to
+// `quorum`
+export interface SignerListConfig {
+  quorum: number;
+  signers: SignerEntry[];
+}
+
+export type ProposalStatus = 'collecting' | 'rejected' | 'submitted' | 'completed' | 'needs_attention';
+
+// One approver's signatures, one partially signed blob per run line
+export interface ProposalSignature {
+  signer: string;
+  weight: number;
+  blobs: Record<string, string>;
+  signedAt: string;
+}
+
+// Signed like an approval, so a rejection imported from another device can
+// be checked to come from the signer it names
+export interface ProposalRejection {
+  signer: string;
+  reason?: string;
+  rejectedAt: string;
+  publicKey: string;
+  signature: string;
+}
+
+// A payroll run of a multi-signed company account, waiting for approvals.
+// The payments are fixed when the proposal is created so every approver
+// signs exactly the same transactions. Sequences are consecutive, so only
+// one proposal per account can collect signatures at a time.
+export interface PaymentProposal {
+  id: string;
+  run: string;
+  account: string;
+  network: XRPLNetwork;
+  signerList: SignerListConfig;
+  // Unsigned payments by run line id
+  transactions: Record<string, Payment | CheckCreate>;
+  signatures: ProposalSignature[];
+  rejections: ProposalRejection[];
+  status: ProposalStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function validateSignerList(account: string, config: SignerListConfig): string[] {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  let total = 0;
+
+  if (config.signers.length === 0 || config.signers.length > MAX_SIGNERS) {
+    problems.push(`A signer list needs between 1 and ${MAX_SIGNERS} signers`);
+  }
+  for (const { account: signer, weight } of config.signers) {
+    if (!isValidClassicAddress(signer)) {
+      problems.push(`Invalid signer address: ${signer}`);
+    } else if (signer === account) {
+      problems.push('The account cannot be one of its own signers');
+    } else if (seen.has(signer)) {
+      problems.push(`Duplicate signer: ${signer}`);
+    }
+    seen.add(signer);
+    if (!Number.isInteger(weight) || weight < 1 || weight > 65535) {
+      problems.push(`Signer weight must be a whole number from 1 to 65535, got ${weight}`);
+    }
+    total += weight;
+  }
+  if (!Number.isInteger(config.quorum) || config.quorum < 1) {
+    problems.push('The quorum must be a whole number greater than zero');
+  } else if (config.quorum > total) {
+    problems.push(`The quorum of ${config.quorum} is more than the signers' combined weight of ${total}`);
+  }
+
+  return problems;
+}
+
+// The account's signer list on the validated ledger, or null without one
+export async function getSignerList(client: Client, account: string): Promise<SignerListConfig | null> {
+  const response = await client.request({
+    command: 'account_info',
+    account,
+    signer_lists: true,
+    ledger_index: 'validated',
+  });
+  // API v2 returns the lists next to account_data, v1 nested inside it
+  const result = response.result as { signer_lists?: unknown; account_data: { signer_lists?: unknown } };
+  const lists = (result.signer_lists || result.account_data.signer_lists || []) as {
+    SignerQuorum: number;
+    SignerEntries: { SignerEntry: { Account: string; SignerWeight: number } }[];
+  }[];
+  if (lists.length === 0) {
+    return null;
+  }
+  return {
+    quorum: lists[0].SignerQuorum,
+    signers: lists[0].SignerEntries.map(({ SignerEntry }) => ({ account: SignerEntry.Account, weight: SignerEntry.SignerWeight })),
+  };
+}
+
+// Replaces the account's signer list. Signed by the account's own key, so
+// this is done before the master key is disabled.
+export async function setSignerList(client: Client, wallet: Wallet, config: SignerListConfig) {
+  const problems = validateSignerList(wallet.address, config);
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '));
+  }
+
+  const tx: SignerListSet = {
+    TransactionType: 'SignerListSet',
+    Account: wallet.address,
+    SignerQuorum: config.quorum,
+    SignerEntries: config.signers.map(({ account, weight }) => ({ SignerEntry: { Account: account, SignerWeight: weight } })),
+  };
+  const prepared = await client.autofill(tx);
+  const signed = wallet.sign(prepared);
+  return client.submitAndWait(signed.tx_blob);
+}
+
+export function getSignedWeight(proposal: PaymentProposal): number {
+  return proposal.signatures.reduce((total, signature) => total + signature.weight, 0);
+}
+
+export function hasQuorum(proposal: PaymentProposal): boolean {
+  return getSignedWeight(proposal) >= proposal.signerList.quorum;
+}
+
+// Signers still able to approve: neither signed nor rejected
+export function getOutstandingSigners(proposal: PaymentProposal): SignerEntry[] {
+  const done = new Set([...proposal.signatures.map(s => s.signer), ...proposal.rejections.map(r => r.signer)]);
+  return proposal.signerList.signers.filter(signer => !done.has(signer.account));
+}
+
+// Rejected once the signers who have not rejected can no longer reach quorum
+export function isProposalDefeated(proposal: PaymentProposal): boolean {
+  const possible = getSignedWeight(proposal) + getOutstandingSigners(proposal).reduce((total, s) => total + s.weight, 0);
+  return possible < proposal.signerList.quorum;
+}
+
+function signerWeight(proposal: PaymentProposal, signer: string): number {
+  const entry = proposal.signerList.signers.find(s => s.account === signer);
+  if (!entry) {
+    throw new Error(`${signer} is not on the signer list of ${proposal.account}`);
+  }
+  return entry.weight;
+}
+
+function assertCollecting(proposal: PaymentProposal, signer: string) {
+  if (proposal.status !== 'collecting') {
+    throw new Error(`This proposal is ${proposal.status} and cannot be changed`);
+  }
+  if (proposal.signatures.some(s => s.signer === signer) || proposal.rejections.some(r => r.signer === signer)) {
+    throw new Error(`${signer} has already responded to this proposal`);
+  }
+}
+
+// Builds the payments of `run` for the approvers to sign. The run is checked
+// for affordability first, with the fee priced for every signer signing.
+export async function createProposal(
+  client: Client,
+  run: PayrollRun,
+  signerList: SignerListConfig,
+  network: XRPLNetwork
+): Promise<{ proposal: PaymentProposal; run: PayrollRun }> {
+  // Lines validated by an earlier attempt are not paid again
+  const lines = run.lines.filter(line => line.status === 'pending');
+  if (lines.length === 0) {
+    throw new Error('This run has no unpaid lines');
+  }
+  const projection = await projectPayments(
+    client,
+    run.account,
+    lines.map(line => line.amount),
+    signerList.signers.length,
+    lines.filter(line => line.byCheck).length
+  );
+  assertAffordable(projection);
+
+  const accountInfo = await client.request({ command: 'account_info', account: run.account, ledger_index: 'current' });
+  const ledgerResponse = await client.request({ command: 'ledger_current' });
+  let sequence = accountInfo.result.account_data.Sequence;
+  const minLedger = ledgerResponse.result.ledger_current_index;
+  const lastLedgerSequence = minLedger + PROPOSAL_LEDGER_WINDOW;
+  const fee = multisignFee(projection.fee, signerList.signers.length);
+
+  const proposal: PaymentProposal = {
+    id: crypto.randomUUID(),
+    run: run.id,
+    account: run.account,
+    network,
+    signerList,
+    transactions: {},
+    signatures: [],
+    rejections: [],
+    status: 'collecting',
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+
+  for (const line of lines) {
+    const tx = buildLineTransaction(run, line, { sequence, lastLedgerSequence, fee });
+    proposal.transactions[line.id] = await client.autofill({ ...tx, SigningPubKey: '' });
+    line.sequence = sequence;
+    line.minLedger = minLedger;
+    line.lastLedgerSequence = lastLedgerSequence;
+    sequence++;
+  }
+
+  run.status = 'awaiting_approval';
+  run.proposal = proposal.id;
+  return { proposal, run };
+}
+
+// Signs every payment of the proposal as one approver
+export function signProposal(proposal: PaymentProposal, approver: Wallet): PaymentProposal {
+  assertCollecting(proposal, approver.address);
+  const weight = signerWeight(proposal, approver.address);
+
+  const blobs: Record<string, string> = {};
+  for (const [lineId, tx] of Object.entries(proposal.transactions)) {
+    blobs[lineId] = approver.sign(tx, true).tx_blob;
+  }
+  return {
+    ...proposal,
+    signatures: [...proposal.signatures, { signer: approver.address, weight, blobs, signedAt: new Date().toISOString() }],
+  };
+}
+
+// What a rejecting signer signs: the proposal, who rejects it, when and why
+function encodeRejection(proposal: PaymentProposal, rejection: Pick<ProposalRejection, 'signer' | 'reason' | 'rejectedAt'>): string {
+  return convertStringToHex(JSON.stringify([
+    'payroll-proposal-rejection',
+    proposal.id,
+    proposal.account,
+    rejection.signer,
+    rejection.reason || '',
+    rejection.rejectedAt,
+  ]));
+}
+
+// Rejects the proposal as one approver, signed with their key
+export function rejectProposal(proposal: PaymentProposal, rejecter: Wallet, reason?: string): PaymentProposal {
+  assertCollecting(proposal, rejecter.address);
+  signerWeight(proposal, rejecter.address);
+
+  const rejection = { signer: rejecter.address, reason: reason || undefined, rejectedAt: new Date().toISOString() };
+  const rejected: PaymentProposal = {
+    ...proposal,
+    rejections: [...proposal.rejections, {
+      ...rejection,
+      publicKey: rejecter.publicKey,
+      signature: sign(encodeRejection(proposal, rejection), rejecter.privateKey),
+    }],
+  };
+  return isProposalDefeated(rejected) ? { ...rejected, status: 'rejected' } : rejected;
+}
+
+// A rejected proposal is never submitted, so nothing in its run was paid
+export function closeRejectedRun(run: PayrollRun): PayrollRun {
+  for (const line of run.lines) {
+    if (line.status === 'pending') {
+      line.status = 'failed';
+      line.error = 'Payroll proposal rejected';
+    }
+  }
+  run.status = 'needs_attention';
+  return run;
+}
+
+// Checks that every blob of a signature signs the proposal's own payment and
+// carries a valid signature by the signer it claims to be from
+export function verifyProposalSignature(proposal: PaymentProposal, signature: ProposalSignature): boolean {
+  const lineIds = Object.keys(proposal.transactions);
+  if (Object.keys(signature.blobs).length !== lineIds.length) {
+    return false;
+  }
+
+  try {
+    return lineIds.every(lineId => {
+      const signed = decode(signature.blobs[lineId]) as unknown as Transaction;
+      const entry = signed.Signers?.length === 1 ? signed.Signers[0].Signer : null;
+      if (!entry || entry.Account !== signature.signer) {
+        return false;
+      }
+      const unsigned = { ...signed };
+      delete unsigned.Signers;
+      const expected = encodeForMultiSigning(proposal.transactions[lineId], signature.signer);
+      return encodeForMultiSigning(unsigned, signature.signer) === expected
+        && verifyKeypairSignature(expected, entry.TxnSignature, entry.SigningPubKey);
+    });
+  } catch {
+    return false;
+  }
+}
+
+// Checks that a rejection carries a valid signature by the signer it claims
+// to be from. No ledger ever checks a rejection, so the key must also be the
+// signer's own master key.
+export function verifyProposalRejection(proposal: PaymentProposal, rejection: ProposalRejection): boolean {
+  try {
+    return deriveAddress(rejection.publicKey) === rejection.signer
+      && verifyKeypairSignature(encodeRejection(proposal, rejection), rejection.signature, rejection.publicKey);
+  } catch {
+    return false;
+  }
+}
+
+// Whether `tx` is exactly the payment built for `line`. Only the fields
+// autofill adds are taken from the transaction itself.
+function matchesLine(run: PayrollRun, line: PayrollLine, tx: Payment | CheckCreate): boolean {
+  if (line.sequence === undefined || tx.Sequence !== line.sequence || tx.LastLedgerSequence !== line.lastLedgerSequence) {
+    return false;
+  }
+  if (tx.SigningPubKey !== '' || tx.Flags) {
+    return false;
+  }
+  const expected = {
+    ...buildLineTransaction(run, { ...line }, { sequence: line.sequence, lastLedgerSequence: line.lastLedgerSequence, fee: tx.Fee }),
+    Flags: tx.Flags,
+    NetworkID: tx.NetworkID,
+    SigningPubKey: '',
+  };
+  try {
+    // A JSON round trip drops fields left undefined
+    return encode(JSON.parse(JSON.stringify(tx))) === encode(JSON.parse(JSON.stringify(expected)));
+  } catch {
+    return false;
+  }
+}
+
+// Approvers sign the proposal's transactions, not its run, so a proposal
+// from another device must pay exactly the unpaid lines of the run it comes
+// with: one transaction per line, each paying what its line says. Returns
+// one message per problem; an empty list means they match.
+export function validateProposalTransactions(proposal: PaymentProposal, run: PayrollRun): string[] {
+  const problems: string[] = [];
+  if (proposal.run !== run.id || proposal.account !== run.account || proposal.network !== run.network) {
+    return ['The proposal and its run do not belong together'];
+  }
+
+  const lines = new Map(run.lines.map(line => [line.id, line]));
+  for (const [lineId, tx] of Object.entries(proposal.transactions)) {
+    const line = lines.get(lineId);
+    if (!line) {
+      problems.push(`A ${tx.TransactionType} to ${tx.Destination} pays no line of the run`);
+    } else if (!matchesLine(run, line, tx)) {
+      problems.push(`The ${tx.TransactionType} to ${tx.Destination} does not match the run line for ${line.name || line.destination}`);
+    }
+  }
+  for (const line of run.lines.filter(line => line.status === 'pending' && !proposal.transactions[line.id])) {
+    problems.push(`The run line for ${line.name || line.destination} has no transaction in the proposal`);
+  }
+  return problems;
+}
+
+export interface ProposalPayment {
+  lineId: string;
+  type: 'Payment' | 'CheckCreate';
+  destination: string;
+  destinationTag?: number;
+  amount: PaymentAmount;
+}
+
+// Proposals are built from run lines, which never pay in MPTs
+function proposedAmount(tx: Payment | CheckCreate): Amount {
+  return (tx.TransactionType === 'Payment' ? tx.Amount : tx.SendMax) as Amount;
+}
+
+// The payments exactly as approvers sign them
+export function getProposalPayments(proposal: PaymentProposal): ProposalPayment[] {
+  return Object.entries(proposal.transactions).map(([lineId, tx]) => ({
+    lineId,
+    type: tx.TransactionType,
+    destination: tx.Destination,
+    destinationTag: tx.DestinationTag,
+    amount: fromXRPLAmount(proposedAmount(tx)),
+  }));
+}
+
+// What the proposal sends in each currency, and the network fees on top.
+// XRP is added up in drops; tokens to 15 significant digits.
+export function getProposalTotals(proposal: PaymentProposal): { amounts: PaymentAmount[]; feeXrp: string } {
+  let xrpDrops = BigInt(0);
+  let feeDrops = BigInt(0);
+  const tokens = new Map<string, PaymentAmount>();
+  for (const tx of Object.values(proposal.transactions)) {
+    feeDrops += BigInt(tx.Fee || 0);
+    const amount = proposedAmount(tx);
+    if (typeof amount === 'string') {
+      xrpDrops += BigInt(amount);
+      continue;
+    }
+    const token = fromXRPLAmount(amount);
+    const key = `${token.currency}:${token.issuer || ''}`;
+    const total = tokens.get(key);
+    tokens.set(key, total
+      ? { ...total, value: String(Number((Number(total.value) + Number(token.value)).toPrecision(15))) }
+      : token);
+  }
+
+  const amounts = [...tokens.values()];
+  if (xrpDrops > BigInt(0)) {
+    amounts.unshift(fromXRPLAmount(xrpDrops.toString()));
+  }
+  return { amounts, feeXrp: String(dropsToXrp(feeDrops.toString())) };
+}
+
+// Combines the approvals collected on another device into `local`.
+// Signatures and rejections are only taken if they verify.
+export function mergeProposal(local: PaymentProposal, incoming: PaymentProposal): PaymentProposal {
+  if (local.id !== incoming.id) {
+    throw new Error('These are different proposals');
+  }
+
+  const merged: PaymentProposal = { ...local, signatures: [...local.signatures], rejections: [...local.rejections] };
+  for (const signature of incoming.signatures) {
+    const known = merged.signatures.some(s => s.signer === signature.signer) || merged.rejections.some(r => r.signer === signature.signer);
+    if (!known && verifyProposalSignature(local, signature)) {
+      merged.signatures.push({ ...signature, weight: signerWeight(local, signature.signer) });
+    }
+  }
+  for (const rejection of incoming.rejections) {
+    const known = merged.signatures.some(s => s.signer === rejection.signer) || merged.rejections.some(r => r.signer === rejection.signer);
+    if (!known && local.signerList.signers.some(s => s.account === rejection.signer) && verifyProposalRejection(local, rejection)) {
+      merged.rejections.push(rejection);
+    }
+  }
+  if (merged.status === 'collecting' && isProposalDefeated(merged)) {
+    merged.status = 'rejected';
+  }
+  return merged;
+}
+
+export interface SubmitProposalOptions {
+  runStore: PayrollRunStore;
+  proposalStore: ProposalStore;
+  onUpdate?: (run: PayrollRun) => void;
+}
+
+// Combines the approvals into one multi-signed blob per line, records the
+// blobs and hashes on the run, then submits and settles them like any other
+// run. Safe to call again after an interruption.
+export async function submitProposal(
+  client: Client,
+  proposal: PaymentProposal,
+  run: PayrollRun,
+  options: SubmitProposalOptions
+): Promise<{ proposal: PaymentProposal; run: PayrollRun }> {
+  if (proposal.status !== 'collecting' && proposal.status !== 'submitted') {
+    throw new Error(`This proposal is ${proposal.status} and cannot be submitted`);
+  }
+  if (!hasQuorum(proposal)) {
+    throw new Error(`Signed weight ${getSignedWeight(proposal)} has not reached the quorum of ${proposal.signerList.quorum}`);
+  }
+
+  const persist = () => {
+    options.runStore.save(run);
+    options.onUpdate?.({ ...run, lines: run.lines.map(line => ({ ...line })) });
+  };
+
+  if (proposal.status === 'collecting') {
+    for (const line of run.lines.filter(line => proposal.transactions[line.id])) {
+      const txBlob = multisign(proposal.signatures.map(signature => signature.blobs[line.id]));
+      line.txBlob = txBlob;
+      line.hash = hashes.hashSignedTx(txBlob);
+    }
+    run.status = 'in_progress';
+    proposal = { ...proposal, status: 'submitted' };
+    options.proposalStore.save(proposal);
+    // Record every hash before anything reaches the network
+    persist();
+  }
+
+  await submitSignedLines(client, run.lines.filter(line => line.status === 'pending'), persist);
+  // Lines still open stay submitted, and resuming the proposal settles them
+  if (!await settleSubmittedLines(client, run, persist)) {
+    return { proposal, run };
+  }
+
+  run.status = run.lines.every(line => line.status === 'validated') ? 'completed' : 'needs_attention';
+  persist();
+  proposal = { ...proposal, status: run.status === 'completed' ? 'completed' : 'needs_attention' };
+  options.proposalStore.save(proposal);
+  return { proposal, run };
+}
+
+export class ProposalStore {
+  private storage: KeyValueStorage | null;
+
+  constructor(storage?: KeyValueStorage) {
+    this.storage = storage || (typeof window !== 'undefined' ? window.localStorage : null);
+  }
+
+  list(): PaymentProposal[] {
+    if (!this.storage) {
+      return [];
+    }
+    try {
+      return JSON.parse(this.storage.getItem(PROPOSAL_STORAGE_KEY) || '[]');
+    } catch (error) {
+      console.error('Error loading payroll proposals from storage:', error);
+      return [];
+    }
+  }
+
+  get(id: string): PaymentProposal | null {
+    return this.list().find(proposal => proposal.id === id) || null;
+  }
+
+  // The proposal of `account` still collecting signatures, if any
+  getCollecting(account: string, network: XRPLNetwork): PaymentProposal | null {
+    return this.list().find(p => p.account === account && p.network === network && p.status === 'collecting') || null;
+  }
+
+  save(proposal: PaymentProposal) {
+    if (!this.storage) {
+      return;
+    }
+    proposal.updatedAt = new Date().toISOString();
+    const proposals = this.list().filter(p => p.id !== proposal.id);
+    proposals.unshift(proposal);
+    this.storage.setItem(PROPOSAL_STORAGE_KEY, JSON.stringify(proposals));
+  }
+}
@@ -0,0 +1,116 @@
+export type XRPLNetwork = 'mainnet' | 'testnet' | 'devnet' | 'standalone';
+
+export interface NetworkConfig {
+  id: XRPLNetwork;
+  label: string;
+  url: string;
+  // Whether the network has a faucet that can fund new accounts
+  faucet: boolean;
+  rlusdIssuer: string;
+  // Issuers of the fiat IOUs whose order books price fiat salaries. Empty
+  // where no issuer is configured, in which case rates are entered by hand.
+  fiatIssuers: { USD: string; EUR: string };
+  explorerUrl: string | null;
+}
+
+const NETWORK_STORAGE_KEY = 'renmo_network';
+
+export const DEFAULT_NETWORK: XRPLNetwork = 'testnet';
+
+// Ripple's published RLUSD issuers. Each can be overridden through the
+// environment so a self-issued test stablecoin can stand in for RLUSD. A
+// standalone node has no RLUSD unless one is configured. Mainnet prices
+// salaries against the Bitstamp USD and GateHub EUR books.
+export const NETWORKS: Record<XRPLNetwork, NetworkConfig> = {
+  mainnet: {
+    id: 'mainnet',
+    label: 'Mainnet',
+    url: process.env.NEXT_PUBLIC_XRPL_MAINNET_URL || 'wss://xrplcluster.com',
+    faucet: false,
+    rlusdIssuer: process.env.NEXT_PUBLIC_RLUSD_ISSUER_MAINNET || 'rMxCKbEDwqr76QuheSUMdEGf4B9xJ8m5De',
+    fiatIssuers: {
+      USD: process.env.NEXT_PUBLIC_USD_ISSUER_MAINNET || 'rvYAfWj5gh67oV6fW32ZzP3Aw4Eubs59B',
+      EUR: process.env.NEXT_PUBLIC_EUR_ISSUER_MAINNET || 'rhub8VRN55s94qWKDv6jmDy1pUykJzF3wq',
+    },
+    explorerUrl: 'https://livenet.xrpl.org',
+  },
+  testnet: {
+    id: 'testnet',
+    label: 'Testnet',
+    url: 'wss://s.altnet.rippletest.net:51233',
+    faucet: true,
+    rlusdIssuer: process.env.NEXT_PUBLIC_RLUSD_ISSUER_TESTNET || 'rQhWct2fv4Vc4KRjRgMrxa8xPN9Zx9iLKV',
+    fiatIssuers: {
+      USD: process.env.NEXT_PUBLIC_USD_ISSUER_TESTNET || '',
+      EUR: process.env.NEXT_PUBLIC_EUR_ISSUER_TESTNET || '',
+    },
+    explorerUrl: 'https://testnet.xrpl.org',
+  },
+  devnet: {
+    id: 'devnet',
+    label: 'Devnet',
+    url: 'wss://s.devnet.rippletest.net:51233',
+    faucet: true,
+    rlusdIssuer: process.env.NEXT_PUBLIC_RLUSD_ISSUER_DEVNET || 'rQhWct2fv4Vc4KRjRgMrxa8xPN9Zx9iLKV',
+    fiatIssuers: {
+      USD: process.env.NEXT_PUBLIC_USD_ISSUER_DEVNET || '',
+      EUR: process.env.NEXT_PUBLIC_EUR_ISSUER_DEVNET || '',
+    },
+    explorerUrl: 'https://devnet.xrpl.org',
+  },
+  standalone: {
+    id: 'standalone',
+    label: 'Standalone',
+    url: process.env.NEXT_PUBLIC_XRPL_STANDALONE_URL || 'ws://localhost:6006',
+    faucet: false,
+    rlusdIssuer: process.env.NEXT_PUBLIC_RLUSD_ISSUER_STANDALONE || '',
+    fiatIssuers: {
+      USD: process.env.NEXT_PUBLIC_USD_ISSUER_STANDALONE || '',
+      EUR: process.env.NEXT_PUBLIC_EUR_ISSUER_STANDALONE || '',
+    },
+    explorerUrl: null,
+  },
+};
+
+export class FaucetUnavailableError extends Error {
+  constructor(network: XRPLNetwork) {
+    super(`${NETWORKS[network].label} has no faucet. Fund the account from an existing wallet instead.`);
+    this.name = 'FaucetUnavailableError';
+  }
+}
+
+export function isXRPLNetwork(value: unknown): value is XRPLNetwork {
+  return typeof value === 'string' && value in NETWORKS;
+}
+
+export function getNetwork(network: XRPLNetwork = DEFAULT_NETWORK): NetworkConfig {
+  return NETWORKS[network];
+}
+
+export function assertFaucet(network: XRPLNetwork) {
+  if (!NETWORKS[network].faucet) {
+    throw new FaucetUnavailableError(network);
+  }
+}
+
+export function getSavedNetwork(): XRPLNetwork {
+  if (typeof window === 'undefined') {
+    return DEFAULT_NETWORK;
+  }
+  const saved = localStorage.getItem(NETWORK_STORAGE_KEY);
+  return isXRPLNetwork(saved) ? saved : DEFAULT_NETWORK;
+}
+
+export function saveNetwork(network: XRPLNetwork) {
+  localStorage.setItem(NETWORK_STORAGE_KEY, network);
+}
+
+export function getExplorerTxUrl(network: XRPLNetwork, hash: string): string | null {
+  const { explorerUrl } = NETWORKS[network];
+  return explorerUrl ? `${explorerUrl}/transactions/${hash}` : null;
+}
+
+export function getExplorerAccountUrl(network: XRPLNetwork, address: string): string | null {
+  const { explorerUrl } = NETWORKS[network];
+  return explorerUrl ? `${explorerUrl}/accounts/${address}` : null;
+}
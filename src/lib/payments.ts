@@ -0,0 +1,96 @@
+import { Client, Wallet, Payment, Memo, RippledError, LedgerEntry } from 'xrpl';
+import { PaymentAmount, toXRPLAmount } from './currency';
+
+export interface PaymentOptions {
+  memos?: Memo[];
+  destinationTag?: number;
+  sequence?: number;
+  lastLedgerSequence?: number;
+  // Drops; left to autofill when not given
+  fee?: string;
+}
+
+export interface SignedPayment {
+  tx: Payment;
+  txBlob: string;
+  hash: string;
+}
+
+// The single place a salary Payment is assembled, shared by one-off payments
+// and payroll runs so both put the same fields on the ledger.
+export function buildPayment(
+  account: string,
+  destination: string,
+  amount: PaymentAmount,
+  options: PaymentOptions = {}
+): Payment {
+  const payment: Payment = {
+    TransactionType: 'Payment',
+    Account: account,
+    Amount: toXRPLAmount(amount),
+    Destination: destination,
+  };
+
+  if (options.destinationTag !== undefined) {
+    payment.DestinationTag = options.destinationTag;
+  }
+  if (options.memos && options.memos.length > 0) {
+    payment.Memos = options.memos;
+  }
+  if (options.sequence !== undefined) {
+    payment.Sequence = options.sequence;
+  }
+  if (options.lastLedgerSequence !== undefined) {
+    payment.LastLedgerSequence = options.lastLedgerSequence;
+  }
+  if (options.fee !== undefined) {
+    payment.Fee = options.fee;
+  }
+
+  return payment;
+}
+
+export async function signPayment(
+  client: Client,
+  wallet: Wallet,
+  destination: string,
+  amount: PaymentAmount,
+  options: PaymentOptions = {}
+): Promise<SignedPayment> {
+  const prepared = await client.autofill(buildPayment(wallet.address, destination, amount, options));
+  const signed = wallet.sign(prepared);
+  return { tx: prepared, txBlob: signed.tx_blob, hash: signed.hash };
+}
+
+export function requiresDestinationTag(flags: number | undefined): boolean {
+  return ((flags ?? 0) & LedgerEntry.AccountRootFlags.lsfRequireDestTag) !== 0;
+}
+
+// Exchanges set lsfRequireDestTag so deposits can be credited to the right
+// customer. The ledger rejects untagged payments to them with
+// tecDST_TAG_NEEDED only after charging the fee and using the sequence
+// number, so the flag is checked before anything is signed.
+export async function assertDestinationTag(client: Client, destination: string, tag?: number): Promise<void> {
+  if (tag !== undefined) {
+    return;
+  }
+
+  const response = await client.request({
+    command: 'account_info',
+    account: destination,
+    ledger_index: 'validated',
+  });
+  if (requiresDestinationTag(response.result.account_data.Flags)) {
+    throw new Error('Destination requires a destination tag. Add the tag to the employee before paying them.');
+  }
+}
+
+// rippled error codes (txnNotFound, actNotFound, ...) live on the error's data
+// rather than in its human-readable message.
+export function isRippledError(error: unknown, code: string): boolean {
+  if (!(error instanceof RippledError)) {
+    return false;
+  }
+  const data = error.data as { error?: string } | undefined;
+  return data?.error === code;
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { DeductionRule, RoundingMode, applyDeductions, calculatePay, convertAmount, validateDeductionRules } from './payroll-calc';
+
+const INCOME_TAX: DeductionRule = {
+  id: 'income-tax',
+  label: 'Income tax',
+  stage: 'tax',
+  kind: 'brackets',
+  brackets: [{ from: '0', rate: '0' }, { from: '1000', rate: '10' }, { from: '5000', rate: '20' }],
+};
+
+function flat(amount: string, stage: DeductionRule['stage'] = 'post_tax'): DeductionRule {
+  return { id: `flat-${stage}`, label: 'Flat', stage, kind: 'flat', amount };
+}
+
+function percentage(rate: string, cap?: string, stage: DeductionRule['stage'] = 'tax'): DeductionRule {
+  return { id: `percentage-${stage}`, label: 'Percentage', stage, kind: 'percentage', rate, cap };
+}
+
+describe('calculatePay', () => {
+  it.each([
+    ['no deductions', '1000', [], '0.00', '1000.00'],
+    ['a flat amount', '1000', [flat('100')], '100.00', '900.00'],
+    ['a percentage', '1000', [percentage('10')], '100.00', '900.00'],
+    ['a percentage under its cap', '1000', [percentage('10', '150')], '100.00', '900.00'],
+    ['a percentage over its cap', '1000', [percentage('10', '50')], '50.00', '950.00'],
+    ['brackets below the first taxed threshold', '800', [INCOME_TAX], '0.00', '800.00'],
+    ['brackets within the second band', '3000', [INCOME_TAX], '200.00', '2800.00'],
+    ['brackets across every band', '6000', [INCOME_TAX], '600.00', '5400.00'],
+    ['brackets exactly on a threshold', '5000', [INCOME_TAX], '400.00', '4600.00'],
+    ['deductions equal to gross', '1000', [flat('1000')], '1000.00', '0.00'],
+  ])('applies %s', (_, gross, rules, totalDeductions, net) => {
+    const calculation = calculatePay(gross, 'RLUSD', rules as DeductionRule[]);
+    expect(calculation.totalDeductions).toBe(totalDeductions);
+    expect(calculation.net).toBe(net);
+  });
+
+  it('computes each stage on what the earlier stages leave', () => {
+    const rules = [flat('50', 'post_tax'), percentage('20', undefined, 'tax'), percentage('10', undefined, 'pre_tax')];
+    const calculation = calculatePay('1000', 'RLUSD', rules);
+
+    expect(calculation.items.map(({ stage, base, amount }) => ({ stage, base, amount }))).toEqual([
+      { stage: 'pre_tax', base: '1000.00', amount: '100.00' },
+      { stage: 'tax', base: '900.00', amount: '180.00' },
+      { stage: 'post_tax', base: '720.00', amount: '50.00' },
+    ]);
+    expect(calculation.taxable).toBe('900.00');
+    expect(calculation.totalDeductions).toBe('330.00');
+    expect(calculation.net).toBe('670.00');
+  });
+
+  it('gives every rule in a stage the same base', () => {
+    const rules: DeductionRule[] = [
+      { id: 'federal', label: 'Federal', stage: 'tax', kind: 'percentage', rate: '10' },
+      { id: 'state', label: 'State', stage: 'tax', kind: 'percentage', rate: '5' },
+    ];
+    const calculation = calculatePay('1000', 'RLUSD', rules);
+    expect(calculation.items.map(item => [item.base, item.amount])).toEqual([['1000.00', '100.00'], ['1000.00', '50.00']]);
+    expect(calculation.net).toBe('850.00');
+  });
+
+  it.each<[RoundingMode, string, string]>([
+    ['half_up', '0.05', '0.03'],
+    ['half_even', '0.05', '0.02'],
+    ['half_even', '0.07', '0.04'],
+    ['down', '0.05', '0.02'],
+    ['up', '0.05', '0.03'],
+    ['up', '0.04', '0.02'],
+  ])('rounds with %s: half of %s is %s', (mode, gross, amount) => {
+    const calculation = calculatePay(gross, 'RLUSD', [percentage('50')], { decimals: 2, mode });
+    expect(calculation.items[0].amount).toBe(amount);
+  });
+
+  it.each([
+    ['XRP', '1', '0.333333', '0.666667'],
+    ['RLUSD', '1', '0.33', '0.67'],
+    ['EUR', '1', '0.33', '0.67'],
+  ])('rounds %s to its default precision', (currency, gross, deduction, net) => {
+    const calculation = calculatePay(gross, currency, [percentage('33.3333333')]);
+    expect(calculation.items[0].amount).toBe(deduction);
+    expect(calculation.net).toBe(net);
+  });
+
+  it('rounds each item so items and net add back up to gross', () => {
+    const rules = [percentage('7.65', undefined, 'pre_tax'), percentage('12.345'), percentage('3.3', undefined, 'post_tax')];
+    const calculation = calculatePay('1234.56', 'RLUSD', rules);
+    const sum = calculation.items.reduce((total, item) => total + Math.round(Number(item.amount) * 100), 0);
+    expect(sum + Math.round(Number(calculation.net) * 100)).toBe(123456);
+  });
+
+  it('rounds the gross pay to the currency first', () => {
+    expect(calculatePay('10.005', 'RLUSD', []).gross).toBe('10.01');
+  });
+
+  it('throws when deductions exceed gross pay', () => {
+    expect(() => calculatePay('1000', 'RLUSD', [flat('600', 'pre_tax'), flat('600')])).toThrow(
+      'Deductions of 1200.00 exceed gross pay of 1000.00 RLUSD'
+    );
+  });
+
+  it('throws the first problem of an invalid table', () => {
+    expect(() => calculatePay('1000', 'RLUSD', [flat('ten')])).toThrow('Flat amount must be a non-negative decimal number');
+  });
+
+  it.each(['-1', '1e3', 'abc', ''])('rejects a gross pay of "%s"', gross => {
+    expect(() => calculatePay(gross, 'RLUSD', [])).toThrow('Gross pay must be a non-negative decimal number');
+  });
+});
+
+describe('validateDeductionRules', () => {
+  it('accepts a valid table', () => {
+    expect(validateDeductionRules([INCOME_TAX, percentage('10', '50', 'pre_tax'), flat('25')])).toEqual([]);
+  });
+
+  it.each<[string, DeductionRule[], string]>([
+    ['a missing label', [{ ...flat('1'), label: ' ' }], 'Every deduction needs a label'],
+    ['a duplicate id', [flat('1'), flat('2')], 'Duplicate deduction id flat-post_tax'],
+    ['an unknown stage', [{ ...flat('1'), stage: 'payday' as DeductionRule['stage'] }], 'Flat: unknown stage payday'],
+    ['a malformed amount', [flat('1,000')], 'Flat amount must be a non-negative decimal number'],
+    ['a negative rate', [percentage('-5')], 'Percentage rate must be a non-negative decimal number'],
+    ['a malformed cap', [percentage('5', 'none')], 'Percentage cap must be a non-negative decimal number'],
+    ['an empty bracket table', [{ ...INCOME_TAX, brackets: [] }], 'Income tax: a bracket table needs at least one bracket'],
+    ['brackets not starting at 0', [{ ...INCOME_TAX, brackets: [{ from: '100', rate: '10' }] }], 'Income tax: the first bracket must start at 0'],
+    [
+      'brackets out of order',
+      [{ ...INCOME_TAX, brackets: [{ from: '0', rate: '0' }, { from: '500', rate: '10' }, { from: '500', rate: '20' }] }],
+      'Income tax: bracket thresholds must ascend',
+    ],
+    ['a malformed bracket rate', [{ ...INCOME_TAX, brackets: [{ from: '0', rate: 'x' }] }], 'Income tax bracket 1 rate must be a non-negative decimal number'],
+  ])('reports %s', (_, rules, problem) => {
+    expect(validateDeductionRules(rules).join('\n')).toContain(problem);
+  });
+});
+
+describe('convertAmount', () => {
+  it.each([
+    ['1000', '0.5', 2, 'half_up', '500.00'],
+    ['100', '1.23456', 6, 'half_up', '123.456000'],
+    ['2500', '0.000123', 6, 'half_up', '0.307500'],
+    ['1', '0.125', 2, 'half_up', '0.13'],
+    ['1', '0.125', 2, 'half_even', '0.12'],
+    ['1', '0.129', 2, 'down', '0.12'],
+  ] as const)('converts %s at %s to %i decimals (%s)', (value, rate, decimals, mode, expected) => {
+    expect(convertAmount(value, rate, { decimals, mode })).toBe(expected);
+  });
+
+  it('rejects a malformed rate', () => {
+    expect(() => convertAmount('100', '1/3', { decimals: 2, mode: 'half_up' })).toThrow('Rate must be a non-negative decimal number');
+  });
+});
+
+describe('applyDeductions', () => {
+  it('pays the net amount in the same currency and issuer', () => {
+    const gross = { currency: 'RLUSD', value: '1000', issuer: 'rMxCKbEDwqr76QuheSUMdEGf4B9xJ8m5De' };
+    const { amount, calculation } = applyDeductions(gross, [percentage('10')]);
+    expect(amount).toEqual({ ...gross, value: '900.00' });
+    expect(calculation.totalDeductions).toBe('100.00');
+  });
+});
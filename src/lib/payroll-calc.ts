@@ -0,0 +1,280 @@
+// Gross-to-net payroll arithmetic. Everything here is pure: amounts go in
+// and out as decimal strings and are computed on scaled integers, so no
+// step ever rounds through a binary float.
+
+import { PaymentAmount } from './currency';
+
+export type DeductionStage = 'pre_tax' | 'tax' | 'post_tax';
+export type RoundingMode = 'half_up' | 'half_even' | 'down' | 'up';
+
+// Each stage is computed on what the earlier stages leave over: pre-tax
+// deductions on gross pay, taxes on taxable pay (gross minus pre-tax) and
+// post-tax deductions on pay after tax.
+export const DEDUCTION_STAGES: DeductionStage[] = ['pre_tax', 'tax', 'post_tax'];
+
+export const STAGE_LABELS: Record<DeductionStage, string> = {
+  pre_tax: 'Pre-tax deduction',
+  tax: 'Tax withholding',
+  post_tax: 'Post-tax deduction',
+};
+
+interface DeductionRuleBase {
+  id: string;
+  label: string;
+  stage: DeductionStage;
+}
+
+export interface FlatDeduction extends DeductionRuleBase {
+  kind: 'flat';
+  amount: string;
+}
+
+// `rate` is a percentage of the stage's base; `cap` limits the result
+export interface PercentageDeduction extends DeductionRuleBase {
+  kind: 'percentage';
+  rate: string;
+  cap?: string;
+}
+
+// A marginal table: each rate applies to the part of the base from its
+// threshold up to the next one. Thresholds must start at 0 and ascend.
+export interface BracketDeduction extends DeductionRuleBase {
+  kind: 'brackets';
+  brackets: { from: string; rate: string }[];
+}
+
+export type DeductionRule = FlatDeduction | PercentageDeduction | BracketDeduction;
+
+export interface RoundingRule {
+  decimals: number;
+  mode: RoundingMode;
+}
+
+// Every line item is rounded on its own and net pay is what remains, so the
+// items and net always add back up to gross exactly.
+export const DEFAULT_ROUNDING: Record<string, RoundingRule> = {
+  XRP: { decimals: 6, mode: 'half_up' },
+  RLUSD: { decimals: 2, mode: 'half_up' },
+};
+
+const FALLBACK_ROUNDING: RoundingRule = { decimals: 2, mode: 'half_up' };
+
+export function getRoundingRule(currency: string): RoundingRule {
+  return DEFAULT_ROUNDING[currency.toUpperCase()] || FALLBACK_ROUNDING;
+}
+
+export interface PayrollLineItem {
+  id: string;
+  label: string;
+  stage: DeductionStage;
+  base: string;
+  amount: string;
+}
+
+export interface PayrollCalculation {
+  currency: string;
+  gross: string;
+  taxable: string;
+  items: PayrollLineItem[];
+  totalDeductions: string;
+  net: string;
+}
+
+// Working precision: 18 decimal places, far below any ledger precision
+const SCALE_DIGITS = 18;
+const SCALE = BigInt(10) ** BigInt(SCALE_DIGITS);
+const HUNDRED = BigInt(100);
+const ZERO = BigInt(0);
+
+function parseDecimal(value: string, field: string): bigint {
+  const text = value.trim();
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(text);
+  if (!match) {
+    throw new Error(`${field} must be a non-negative decimal number, got "${value}"`);
+  }
+  const fraction = match[2] || '';
+  if (fraction.length > SCALE_DIGITS) {
+    throw new Error(`${field} has more than ${SCALE_DIGITS} decimal places`);
+  }
+  return BigInt(match[1]) * SCALE + BigInt(fraction.padEnd(SCALE_DIGITS, '0') || '0');
+}
+
+function formatDecimal(value: bigint, decimals: number): string {
+  const whole = value / SCALE;
+  const fraction = (value % SCALE).toString().padStart(SCALE_DIGITS, '0').slice(0, decimals);
+  return decimals > 0 ? `${whole}.${fraction}` : whole.toString();
+}
+
+// Rounds a non-negative scaled value to `decimals` places
+function round(value: bigint, { decimals, mode }: RoundingRule): bigint {
+  const step = BigInt(10) ** BigInt(SCALE_DIGITS - decimals);
+  const floor = value - (value % step);
+  const remainder = value - floor;
+  if (remainder === ZERO) {
+    return value;
+  }
+
+  const half = step / BigInt(2);
+  switch (mode) {
+    case 'down':
+      return floor;
+    case 'up':
+      return floor + step;
+    case 'half_up':
+      return remainder >= half ? floor + step : floor;
+    case 'half_even':
+      if (remainder !== half) {
+        return remainder > half ? floor + step : floor;
+      }
+      return (floor / step) % BigInt(2) === ZERO ? floor : floor + step;
+  }
+}
+
+function percentOf(base: bigint, rate: bigint): bigint {
+  return (base * rate) / SCALE / HUNDRED;
+}
+
+function evaluate(rule: DeductionRule, base: bigint): bigint {
+  switch (rule.kind) {
+    case 'flat':
+      return parseDecimal(rule.amount, `${rule.label} amount`);
+    case 'percentage': {
+      const amount = percentOf(base, parseDecimal(rule.rate, `${rule.label} rate`));
+      if (rule.cap === undefined) {
+        return amount;
+      }
+      const cap = parseDecimal(rule.cap, `${rule.label} cap`);
+      return amount < cap ? amount : cap;
+    }
+    case 'brackets': {
+      const thresholds = rule.brackets.map((bracket, i) => ({
+        from: parseDecimal(bracket.from, `${rule.label} bracket ${i + 1} threshold`),
+        rate: parseDecimal(bracket.rate, `${rule.label} bracket ${i + 1} rate`),
+      }));
+      let total = ZERO;
+      thresholds.forEach(({ from, rate }, i) => {
+        const next = thresholds[i + 1]?.from;
+        const top = next !== undefined && next < base ? next : base;
+        if (top > from) {
+          total += percentOf(top - from, rate);
+        }
+      });
+      return total;
+    }
+  }
+}
+
+// Multiplies an amount by a conversion rate, as when a fiat salary is
+// converted to the payout currency
+export function convertAmount(value: string, rate: string, rounding: RoundingRule): string {
+  const converted = (parseDecimal(value, 'Amount') * parseDecimal(rate, 'Rate')) / SCALE;
+  return formatDecimal(round(converted, rounding), rounding.decimals);
+}
+
+// Problems that make a table unusable regardless of the salary it is applied
+// to. Returns one message per problem; an empty list means the table is valid.
+export function validateDeductionRules(rules: DeductionRule[]): string[] {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+
+  for (const rule of rules) {
+    const name = rule.label || rule.id;
+    if (!rule.label.trim()) {
+      problems.push('Every deduction needs a label');
+    }
+    if (ids.has(rule.id)) {
+      problems.push(`Duplicate deduction id ${rule.id}`);
+    }
+    ids.add(rule.id);
+    if (!DEDUCTION_STAGES.includes(rule.stage)) {
+      problems.push(`${name}: unknown stage ${rule.stage}`);
+    }
+
+    try {
+      if (rule.kind === 'brackets') {
+        if (rule.brackets.length === 0) {
+          problems.push(`${name}: a bracket table needs at least one bracket`);
+        }
+        let previous: bigint | null = null;
+        rule.brackets.forEach((bracket, i) => {
+          const from = parseDecimal(bracket.from, `${name} bracket ${i + 1} threshold`);
+          parseDecimal(bracket.rate, `${name} bracket ${i + 1} rate`);
+          if (previous === null && from !== ZERO) {
+            problems.push(`${name}: the first bracket must start at 0`);
+          }
+          if (previous !== null && from <= previous) {
+            problems.push(`${name}: bracket thresholds must ascend`);
+          }
+          previous = from;
+        });
+      } else {
+        // Parsing a zero base surfaces malformed amounts, rates and caps
+        evaluate(rule, ZERO);
+      }
+    } catch (error) {
+      problems.push(error instanceof Error ? error.message : `${name}: invalid deduction`);
+    }
+  }
+
+  return problems;
+}
+
+// Applies `rules` to a gross salary. Throws if the table is invalid or the
+// deductions add up to more than the gross pay.
+export function calculatePay(
+  gross: string,
+  currency: string,
+  rules: DeductionRule[],
+  rounding: RoundingRule = getRoundingRule(currency)
+): PayrollCalculation {
+  const problems = validateDeductionRules(rules);
+  if (problems.length > 0) {
+    throw new Error(problems[0]);
+  }
+
+  const grossValue = round(parseDecimal(gross, 'Gross pay'), rounding);
+  const items: PayrollLineItem[] = [];
+  let remaining = grossValue;
+  let taxable = grossValue;
+
+  for (const stage of DEDUCTION_STAGES) {
+    const base = remaining;
+    let stageTotal = ZERO;
+    for (const rule of rules.filter(r => r.stage === stage)) {
+      const amount = round(evaluate(rule, base), rounding);
+      stageTotal += amount;
+      items.push({
+        id: rule.id,
+        label: rule.label,
+        stage,
+        base: formatDecimal(base, rounding.decimals),
+        amount: formatDecimal(amount, rounding.decimals),
+      });
+    }
+    remaining -= stageTotal;
+    if (remaining < ZERO) {
+      throw new Error(`Deductions of ${formatDecimal(grossValue - remaining, rounding.decimals)} exceed gross pay of ${formatDecimal(grossValue, rounding.decimals)} ${currency}`);
+    }
+    if (stage === 'pre_tax') {
+      taxable = remaining;
+    }
+  }
+
+  return {
+    currency,
+    gross: formatDecimal(grossValue, rounding.decimals),
+    taxable: formatDecimal(taxable, rounding.decimals),
+    items,
+    totalDeductions: formatDecimal(grossValue - remaining, rounding.decimals),
+    net: formatDecimal(remaining, rounding.decimals),
+  };
+}
+
+// The amount to send for a gross salary, with the breakdown behind it
+export function applyDeductions(
+  gross: PaymentAmount,
+  rules: DeductionRule[]
+): { amount: PaymentAmount; calculation: PayrollCalculation } {
+  const calculation = calculatePay(gross.value, gross.currency, rules);
+  return { amount: { ...gross, value: calculation.net }, calculation };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { Client } from 'xrpl';
+import { encodePayrollMemo } from './memos';
+import { getPaidPeriods } from './payroll-runs';
+import { PaySchedule, getDuePayrolls, paidKey } from './schedules';
+
+const COMPANY = 'rMxCKbEDwqr76QuheSUMdEGf4B9xJ8m5De';
+const EMPLOYEE = 'rPEPPER7kfTD9w2To4CQk6UCfuHM9c6GDY';
+const JANUARY = '2026-01-01/2026-01-31';
+
+// A validated payment from the company as account_tx reports it
+function payment(memo: { run?: string; period: string }, type: 'Payment' | 'CheckCreate' = 'Payment') {
+  return {
+    hash: crypto.randomUUID(),
+    ledger_index: 100,
+    close_time_iso: '2026-02-01T12:00:00Z',
+    meta: { TransactionResult: 'tesSUCCESS', TransactionIndex: 0 },
+    tx_json: {
+      TransactionType: type,
+      Account: COMPANY,
+      Destination: EMPLOYEE,
+      ...(type === 'Payment' ? { DeliverMax: '1000000000' } : { SendMax: '1000000000' }),
+      Fee: '12',
+      Memos: [encodePayrollMemo({ ...memo, employee: EMPLOYEE })],
+    },
+  };
+}
+
+function ledger(transactions: unknown[]): Client {
+  return { request: async () => ({ result: { transactions } }) } as unknown as Client;
+}
+
+describe('getPaidPeriods', () => {
+  it('counts payments and checks made by a payroll run', async () => {
+    const paid = await getPaidPeriods(ledger([
+      payment({ run: 'run-1', period: JANUARY }),
+      payment({ run: 'run-2', period: '2026-02-01/2026-02-28' }, 'CheckCreate'),
+    ]), COMPANY, '2026-01-01');
+    expect([...paid]).toEqual([paidKey(EMPLOYEE, JANUARY), paidKey(EMPLOYEE, '2026-02-01/2026-02-28')]);
+  });
+
+  it('does not let a one-off payment clear a due period', async () => {
+    const schedule: PaySchedule = { frequency: 'monthly', anchorDate: '2026-01-31', amount: '1000', currency: 'XRP' };
+    const paid = await getPaidPeriods(ledger([payment({ period: JANUARY })]), COMPANY, '2026-01-01');
+
+    expect(paid.size).toBe(0);
+    const due = getDuePayrolls([{ address: EMPLOYEE, schedule }], '2026-02-01', paid);
+    expect(due.map(item => item.period.id)).toEqual([JANUARY]);
+  });
+});
@@ -0,0 +1,488 @@
+import { CheckCreate, Client, Payment, Wallet, isValidClassicAddress } from 'xrpl';
+import { PaymentAmount } from './currency';
+import { XRPLNetwork } from './networks';
+import { assertTrustLine } from './trustlines';
+import { encodePayrollMemo, encodeTextMemo } from './memos';
+import { PaymentOptions, buildPayment, isRippledError, requiresDestinationTag } from './payments';
+import { buildCheck, defaultCheckExpiration } from './checks';
+import { resolveSubmission } from './submission-tracker';
+import { paidKey } from './schedules';
+import { toTransactionRecord } from './history';
+import { DeductionRule, applyDeductions } from './payroll-calc';
+import { PayslipDeduction } from './payslips';
+import { FxConversion, toMemoFx } from './fx';
+import { assertAffordable, projectPayments } from './preflight';
+
+const RUN_STORAGE_KEY = 'renmo_payroll_runs';
+const POLL_INTERVAL_MS = 1000;
+const LEDGER_WINDOW = 20;
+// How long a run waits for its lines to settle before handing back control.
+// Lines still open then stay pending and the run is picked up again later.
+const SETTLE_TIMEOUT_MS = 5 * 60_000;
+const HISTORY_PAGE_SIZE = 200;
+
+export type PayrollLineStatus = 'pending' | 'validated' | 'failed' | 'expired';
+// Runs of a multi-signed company account wait in `awaiting_approval` until
+// enough approvers have signed the proposal built from them
+export type PayrollRunStatus = 'draft' | 'awaiting_approval' | 'in_progress' | 'completed' | 'needs_attention';
+
+export interface PayrollLineInput {
+  destination: string;
+  destinationTag?: number;
+  amount: PaymentAmount;
+  // Set when `amount` is net pay worked out from a gross salary
+  gross?: string;
+  deductions?: PayslipDeduction[];
+  // Set when the salary is in fiat; the rate stays locked on the line so a
+  // resumed run pays what was first worked out
+  fx?: FxConversion;
+  memo?: string;
+  name?: string;
+  period?: string;
+  // Pay with a CheckCreate the employee cashes later, e.g. because they
+  // have no trust line for the currency yet
+  byCheck?: boolean;
+}
+
+export interface PayrollLine extends PayrollLineInput {
+  id: string;
+  status: PayrollLineStatus;
+  sequence?: number;
+  // The open ledger when the line was signed, the first it can validate in
+  minLedger?: number;
+  lastLedgerSequence?: number;
+  hash?: string;
+  txBlob?: string;
+  resultCode?: string;
+  ledgerIndex?: number;
+  error?: string;
+  // Fixed when a check line is signed, so a re-signed line keeps its expiry
+  checkExpiration?: string;
+}
+
+export interface PayrollRun {
+  id: string;
+  account: string;
+  network: XRPLNetwork;
+  createdAt: string;
+  updatedAt: string;
+  status: PayrollRunStatus;
+  lines: PayrollLine[];
+  // Id of the approval proposal when the run is multi-signed
+  proposal?: string;
+}
+
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+// Runs are written to storage after every state change so a run interrupted
+// by a closed tab can be picked up again with its signed hashes intact.
+export class PayrollRunStore {
+  private storage: KeyValueStorage | null;
+
+  constructor(storage?: KeyValueStorage) {
+    this.storage = storage || (typeof window !== 'undefined' ? window.localStorage : null);
+  }
+
+  list(): PayrollRun[] {
+    if (!this.storage) {
+      return [];
+    }
+    try {
+      return JSON.parse(this.storage.getItem(RUN_STORAGE_KEY) || '[]');
+    } catch (error) {
+      console.error('Error loading payroll runs from storage:', error);
+      return [];
+    }
+  }
+
+  get(id: string): PayrollRun | null {
+    return this.list().find(run => run.id === id) || null;
+  }
+
+  save(run: PayrollRun) {
+    if (!this.storage) {
+      return;
+    }
+    run.updatedAt = new Date().toISOString();
+    const runs = this.list().filter(r => r.id !== run.id);
+    runs.unshift(run);
+    this.storage.setItem(RUN_STORAGE_KEY, JSON.stringify(runs));
+  }
+
+  // A run can only be settled against the ledger it was submitted to. Looked
+  // up on another network its hashes are never found, and its lines would
+  // look expired and be paid a second time.
+  // Multi-signed runs are resumed from their proposal instead.
+  getResumable(network: XRPLNetwork): PayrollRun[] {
+    return this.list().filter(run =>
+      (run.status === 'in_progress' || hasUnsettledLines(run)) && !run.proposal && run.network === network);
+  }
+
+  // Employee/period pairs that are paid or may still be paid by a line in
+  // flight, whatever the run's status. Failed and expired lines are left out
+  // so they show as due again.
+  getCommittedPeriods(network: XRPLNetwork): Set<string> {
+    const committed = new Set<string>();
+    for (const run of this.list().filter(r => r.network === network)) {
+      for (const line of run.lines) {
+        if (!line.period || line.status === 'failed' || line.status === 'expired') {
+          continue;
+        }
+        if (line.status === 'validated' || line.hash || run.status === 'in_progress' || run.status === 'awaiting_approval') {
+          committed.add(paidKey(line.destination, line.period));
+        }
+      }
+    }
+    return committed;
+  }
+}
+
+// Employee/period pairs `account` has paid since `since` (YYYY-MM-DD), read
+// from the payroll memos of its validated payments and checks. Unlike
+// PayrollRunStore.getCommittedPeriods this sees every run, whether it was
+// made from the dashboard on any device or by the scheduler. Only memos
+// with a run id count: a one-off payment such as a bonus also names the
+// employee's current period, but does not pay its salary.
+export async function getPaidPeriods(client: Client, account: string, since: string): Promise<Set<string>> {
+  const paid = new Set<string>();
+  const cutoff = Date.parse(`${since}T00:00:00Z`);
+  let marker: unknown;
+  do {
+    const response = await client.request({
+      command: 'account_tx',
+      account,
+      ledger_index_min: -1,
+      ledger_index_max: -1,
+      forward: false,
+      limit: HISTORY_PAGE_SIZE,
+      marker,
+    });
+    for (const entry of response.result.transactions) {
+      const record = toTransactionRecord(entry);
+      // Newest first: a period is paid after it ends, so nothing older matters
+      if (record.date.getTime() < cutoff) {
+        return paid;
+      }
+      const tx = entry.tx_json;
+      const employee = record.payroll?.employee;
+      const period = record.payroll?.period;
+      if (record.status !== 'success' || record.account !== account || !record.payroll?.run || !employee || !period) {
+        continue;
+      }
+      if ((tx?.TransactionType === 'Payment' || tx?.TransactionType === 'CheckCreate') && tx.Destination === employee) {
+        paid.add(paidKey(employee, period));
+      }
+    }
+    marker = response.result.marker;
+  } while (marker);
+  return paid;
+}
+
+export interface PayrollRunSummary {
+  total: number;
+  pending: number;
+  validated: number;
+  failed: number;
+  expired: number;
+}
+
+export function summarizePayrollRun(run: PayrollRun): PayrollRunSummary {
+  const summary: PayrollRunSummary = { total: run.lines.length, pending: 0, validated: 0, failed: 0, expired: 0 };
+  for (const line of run.lines) {
+    summary[line.status]++;
+  }
+  return summary;
+}
+
+// Lines submitted, or signed for submission, whose outcome is not known yet
+export function hasUnsettledLines(run: PayrollRun): boolean {
+  return run.lines.some(line => line.status === 'pending' && !!line.hash);
+}
+
+// Treats the line's amount as gross pay and replaces it with net pay, keeping
+// the breakdown on the line. Throws if the deductions cannot be applied.
+export function withDeductions(input: PayrollLineInput, rules: DeductionRule[]): PayrollLineInput {
+  const { amount, calculation } = applyDeductions(input.amount, rules);
+  return {
+    ...input,
+    amount,
+    gross: calculation.gross,
+    deductions: calculation.items.map(({ label, amount }) => ({ label, amount })),
+  };
+}
+
+export function createPayrollRun(account: string, inputs: PayrollLineInput[], network: XRPLNetwork): PayrollRun {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    account,
+    network,
+    createdAt: now,
+    updatedAt: now,
+    status: 'draft',
+    lines: inputs.map(input => ({
+      ...input,
+      id: crypto.randomUUID(),
+      status: 'pending',
+    })),
+  };
+}
+
+// Checks every line before anything is signed. Returns a map of line id to
+// the reason that line cannot be paid; an empty map means the run is ready.
+export async function validatePayrollRun(client: Client, run: PayrollRun): Promise<Record<string, string>> {
+  const problems: Record<string, string> = {};
+
+  await Promise.all(run.lines.map(async line => {
+    if (!isValidClassicAddress(line.destination)) {
+      problems[line.id] = 'Invalid XRPL address';
+      return;
+    }
+    if (line.destination === run.account) {
+      problems[line.id] = 'Cannot pay the company account';
+      return;
+    }
+    const value = Number(line.amount.value);
+    if (!Number.isFinite(value) || value <= 0) {
+      problems[line.id] = 'Amount must be greater than zero';
+      return;
+    }
+
+    try {
+      const accountInfo = await client.request({
+        command: 'account_info',
+        account: line.destination,
+        ledger_index: 'validated',
+      });
+      if (line.destinationTag === undefined && requiresDestinationTag(accountInfo.result.account_data.Flags)) {
+        problems[line.id] = 'Destination requires a destination tag';
+        return;
+      }
+      // The employee can add the trust line before cashing a check
+      if (!line.byCheck) {
+        await assertTrustLine(client, line.destination, line.amount);
+      }
+    } catch (error) {
+      if (isRippledError(error, 'actNotFound')) {
+        problems[line.id] = 'Destination account not found';
+      } else {
+        problems[line.id] = error instanceof Error ? error.message : 'Validation failed';
+      }
+    }
+  }));
+
+  return problems;
+}
+
+// Failed and expired lines are known not to have been applied, so they can be
+// re-signed with fresh sequence numbers on the next execute.
+export function retryFailedLines(run: PayrollRun): PayrollRun {
+  for (const line of run.lines) {
+    if (line.status === 'failed' || line.status === 'expired') {
+      line.status = 'pending';
+      delete line.sequence;
+      delete line.minLedger;
+      delete line.lastLedgerSequence;
+      delete line.hash;
+      delete line.txBlob;
+      delete line.resultCode;
+      delete line.ledgerIndex;
+      delete line.error;
+      delete line.checkExpiration;
+    }
+  }
+  // A multi-signed retry needs approving again, under a new proposal
+  delete run.proposal;
+  run.status = 'in_progress';
+  return run;
+}
+
+// The destination tag and memos a line's payment carries, however it is signed
+export function linePaymentOptions(run: PayrollRun, line: PayrollLine): Pick<PaymentOptions, 'destinationTag' | 'memos'> {
+  return {
+    destinationTag: line.destinationTag,
+    memos: [
+      encodePayrollMemo({
+        run: run.id,
+        period: line.period,
+        employee: line.destination,
+        fx: line.fx && toMemoFx(line.fx),
+      }),
+      ...(line.memo ? [encodeTextMemo(line.memo)] : []),
+    ],
+  };
+}
+
+// The transaction that pays a line, however it is signed. Check lines get
+// their expiration here the first time they are built.
+export function buildLineTransaction(
+  run: PayrollRun,
+  line: PayrollLine,
+  options: Pick<PaymentOptions, 'sequence' | 'lastLedgerSequence' | 'fee'>
+): Payment | CheckCreate {
+  const fields = { ...linePaymentOptions(run, line), ...options };
+  if (!line.byCheck) {
+    return buildPayment(run.account, line.destination, line.amount, fields);
+  }
+  line.checkExpiration = line.checkExpiration || defaultCheckExpiration().toISOString();
+  return buildCheck(run.account, line.destination, line.amount, { ...fields, expiration: new Date(line.checkExpiration) });
+}
+
+export interface ExecutePayrollRunOptions {
+  store?: PayrollRunStore;
+  onUpdate?: (run: PayrollRun) => void;
+}
+
+export async function executePayrollRun(
+  client: Client,
+  wallet: Wallet,
+  run: PayrollRun,
+  options: ExecutePayrollRunOptions = {}
+): Promise<PayrollRun> {
+  if (run.account !== wallet.address) {
+    throw new Error('Payroll run belongs to a different account');
+  }
+
+  const persist = () => {
+    options.store?.save(run);
+    options.onUpdate?.({ ...run, lines: run.lines.map(line => ({ ...line })) });
+  };
+
+  // Lines still in flight may yet be paid, so they count against the
+  // balance too. Nothing is recorded if the account cannot cover the run.
+  const unpaid = run.lines.filter(line => line.status === 'pending');
+  const projection = unpaid.length > 0
+    ? await projectPayments(client, wallet.address, unpaid.map(line => line.amount), 0, unpaid.filter(line => line.byCheck).length)
+    : null;
+  if (projection) {
+    assertAffordable(projection);
+  }
+
+  run.status = 'in_progress';
+  persist();
+
+  // Lines signed in an earlier session must settle before their sequence
+  // numbers can be reused, otherwise a late validation would double-pay.
+  // Nothing new is signed while any of them is still open.
+  if (!await settleSubmittedLines(client, run, persist)) {
+    run.status = 'needs_attention';
+    persist();
+    return run;
+  }
+
+  const fresh = run.lines.filter(line => line.status === 'pending' && !line.hash);
+  if (fresh.length > 0) {
+    const accountInfo = await client.request({
+      command: 'account_info',
+      account: wallet.address,
+      ledger_index: 'current',
+    });
+    const ledgerResponse = await client.request({ command: 'ledger_current' });
+
+    let sequence = accountInfo.result.account_data.Sequence;
+    const minLedger = ledgerResponse.result.ledger_current_index;
+    const lastLedgerSequence = minLedger + LEDGER_WINDOW + fresh.length;
+
+    for (const line of fresh) {
+      try {
+        const prepared = await client.autofill(buildLineTransaction(run, line, {
+          sequence,
+          lastLedgerSequence,
+          fee: projection?.fee.drops,
+        }));
+        const signed = wallet.sign(prepared);
+        line.sequence = sequence;
+        line.minLedger = minLedger;
+        line.lastLedgerSequence = lastLedgerSequence;
+        line.hash = signed.hash;
+        line.txBlob = signed.tx_blob;
+        sequence++;
+      } catch (error) {
+        line.status = 'failed';
+        line.error = error instanceof Error ? error.message : 'Failed to sign payment';
+      }
+    }
+
+    // Record every hash before anything reaches the network
+    persist();
+
+    await submitSignedLines(client, fresh, persist);
+  }
+
+  await settleSubmittedLines(client, run, persist);
+
+  run.status = run.lines.every(line => line.status === 'validated') ? 'completed' : 'needs_attention';
+  persist();
+  return run;
+}
+
+// Sends lines whose blobs are signed and recorded. Submitting a blob that
+// already reached the network is harmless, the ledger applies it only once.
+export async function submitSignedLines(client: Client, lines: PayrollLine[], persist: () => void) {
+  for (const line of lines) {
+    if (!line.txBlob || line.status !== 'pending') {
+      continue;
+    }
+    try {
+      const response = await client.submit(line.txBlob);
+      line.resultCode = response.result.engine_result;
+      // Malformed transactions can never be applied; anything else is
+      // settled by looking the hash up on a validated ledger.
+      if (line.resultCode.startsWith('tem')) {
+        line.status = 'failed';
+        line.error = response.result.engine_result_message;
+      }
+    } catch (error) {
+      console.error('Error submitting payroll line:', error);
+    }
+    persist();
+  }
+}
+
+// Polls until every submitted line is validated, failed or expired, giving up
+// after `timeoutMs`. A line that cannot be settled by then stays pending, never
+// expired, since the ledger may still apply it. Returns whether all settled.
+export async function settleSubmittedLines(
+  client: Client,
+  run: PayrollRun,
+  persist: () => void,
+  timeoutMs: number = SETTLE_TIMEOUT_MS
+): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const outstanding = run.lines.filter(line => line.status === 'pending' && line.hash);
+    if (outstanding.length === 0) {
+      return true;
+    }
+
+    try {
+      // Read the validated ledger first: a hash missing from every ledger up to
+      // this one cannot appear later once this index passes LastLedgerSequence.
+      const validatedLedger = await client.getLedgerIndex();
+
+      for (const line of outstanding) {
+        const resolution = await resolveSubmission(client, line.hash!, line.lastLedgerSequence, validatedLedger, line.minLedger!);
+        if (resolution.status !== 'pending') {
+          line.status = resolution.status;
+          line.resultCode = resolution.resultCode ?? line.resultCode;
+          line.ledgerIndex = resolution.ledgerIndex;
+          line.error = resolution.error;
+        }
+      }
+      persist();
+    } catch (error) {
+      console.error('Error reading the validated ledger:', error);
+    }
+
+    if (!hasUnsettledLines(run)) {
+      return true;
+    }
+    if (Date.now() >= deadline) {
+      return false;
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
@@ -0,0 +1,211 @@
+import { PaymentAmount } from './currency';
+import { XRPLNetwork } from './networks';
+import { PayPeriod } from './schedules';
+
+export interface PayslipDeduction {
+  label: string;
+  amount: string;
+}
+
+// The document pinned to IPFS before the payment is submitted. Amounts are
+// decimal strings in `currency`; `net` is what the payment delivers.
+export interface Payslip {
+  version: 1;
+  network: XRPLNetwork;
+  employer: string;
+  employeeName: string;
+  employeeAddress: string;
+  period: PayPeriod;
+  gross: string;
+  deductions: PayslipDeduction[];
+  net: string;
+  currency: string;
+  issuer?: string;
+  issuedAt: string;
+}
+
+// A payslip once its payment is validated. The transaction hash is not
+// known when the JSON is pinned, so it lives here and in the ledger memo
+// that points back at `cid`.
+export interface IssuedPayslip extends Payslip {
+  cid: string;
+  hash: string;
+  ledgerIndex: number;
+}
+
+export interface PayslipInput {
+  network: XRPLNetwork;
+  employer: string;
+  employeeName: string;
+  employeeAddress: string;
+  period: PayPeriod;
+  net: PaymentAmount;
+  // Without deductions the gross pay is the amount paid
+  gross?: string;
+  deductions?: PayslipDeduction[];
+}
+
+export function createPayslip(input: PayslipInput, issuedAt: Date = new Date()): Payslip {
+  return {
+    version: 1,
+    network: input.network,
+    employer: input.employer,
+    employeeName: input.employeeName,
+    employeeAddress: input.employeeAddress,
+    period: input.period,
+    gross: input.gross ?? input.net.value,
+    deductions: input.deductions ?? [],
+    net: input.net.value,
+    currency: input.net.currency,
+    issuer: input.net.issuer,
+    issuedAt: issuedAt.toISOString(),
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Label and value pairs shared by the HTML and PDF layouts so both always
+// show the same fields in the same order.
+function payslipRows(payslip: IssuedPayslip): [string, string][] {
+  return [
+    ['Employee', payslip.employeeName],
+    ['Address', payslip.employeeAddress],
+    ['Pay period', `${payslip.period.start} to ${payslip.period.end}`],
+    ['Employer', payslip.employer],
+    ['Issued', payslip.issuedAt],
+  ];
+}
+
+function ledgerRows(payslip: IssuedPayslip): [string, string][] {
+  return [
+    ['Network', payslip.network],
+    ['Transaction hash', payslip.hash],
+    ['Validated ledger', String(payslip.ledgerIndex)],
+    ['Payslip CID', payslip.cid],
+  ];
+}
+
+function amountRows(payslip: IssuedPayslip): [string, string][] {
+  return [
+    ['Gross pay', `${payslip.gross} ${payslip.currency}`],
+    ...payslip.deductions.map(({ label, amount }): [string, string] => [label, `-${amount} ${payslip.currency}`]),
+    ['Net pay', `${payslip.net} ${payslip.currency}`],
+  ];
+}
+
+export function payslipFileName(payslip: IssuedPayslip, extension: string): string {
+  return `payslip_${payslip.employeeAddress}_${payslip.period.id.replace('/', '_')}.${extension}`;
+}
+
+// A standalone document with print styles, suitable for window.print() or
+// saving as a file.
+export function renderPayslipHtml(payslip: IssuedPayslip): string {
+  const table = (rows: [string, string][]) => rows
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Payslip ${escapeHtml(payslip.employeeName)} ${escapeHtml(payslip.period.id)}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; color: #111; max-width: 720px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1rem; margin-top: 1.5rem; border-bottom: 1px solid #ccc; padding-bottom: 0.25rem; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+  th { text-align: left; font-weight: normal; color: #555; width: 35%; padding: 0.25rem 0; vertical-align: top; }
+  td { padding: 0.25rem 0; word-break: break-all; }
+  tr.net th, tr.net td { font-weight: bold; color: #111; border-top: 1px solid #ccc; }
+  p.note { font-size: 0.75rem; color: #555; margin-top: 1.5rem; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>Payslip</h1>
+<table>
+${table(payslipRows(payslip))}
+</table>
+<h2>Pay</h2>
+<table>
+${table(amountRows(payslip).slice(0, -1))}
+<tr class="net"><th>Net pay</th><td>${escapeHtml(`${payslip.net} ${payslip.currency}`)}</td></tr>
+</table>
+<h2>Ledger record</h2>
+<table>
+${table(ledgerRows(payslip))}
+</table>
+<p class="note">The payment transaction carries the payslip CID in its memo. Look up the transaction hash on the ${escapeHtml(payslip.network)} ledger to verify this payslip.</p>
+</body>
+</html>
+`;
+}
+
+// Only printable ASCII is written so one character is one byte and the
+// offsets in the cross-reference table stay exact.
+function pdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/[\\()]/g, match => `\\${match}`);
+}
+
+// A single A4 page drawn with the built-in Helvetica fonts. Small enough to
+// write by hand, which keeps a PDF library out of the bundle.
+export function renderPayslipPdf(payslip: IssuedPayslip): Uint8Array {
+  const lines: string[] = [];
+  let y = 790;
+  const text = (font: 'F1' | 'F2', size: number, x: number, value: string) => {
+    lines.push(`BT /${font} ${size} Tf ${x} ${y} Td (${pdfText(value)}) Tj ET`);
+  };
+  const section = (title: string, rows: [string, string][], boldLast = false) => {
+    y -= 28;
+    text('F2', 12, 50, title);
+    y -= 6;
+    lines.push(`50 ${y} m 545 ${y} l S`);
+    rows.forEach(([label, value], index) => {
+      y -= 16;
+      const font = boldLast && index === rows.length - 1 ? 'F2' : 'F1';
+      text(font, 9, 50, label);
+      text(font, 9, 190, value);
+    });
+  };
+
+  text('F2', 20, 50, 'Payslip');
+  section('Details', payslipRows(payslip));
+  section('Pay', amountRows(payslip), true);
+  section('Ledger record', ledgerRows(payslip));
+  y -= 32;
+  text('F1', 8, 50, 'The payment transaction carries the payslip CID in its memo.');
+  y -= 12;
+  text('F1', 8, 50, `Look up the transaction hash on the ${payslip.network} ledger to verify this payslip.`);
+
+  const stream = lines.join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold >>',
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new TextEncoder().encode(pdf);
+}
@@ -0,0 +1,199 @@
+import { Client, dropsToXrp, xrpToDrops } from 'xrpl';
+import { PaymentAmount, XRP_CURRENCY, isXRP } from './currency';
+import { getTrustLineStatus } from './trustlines';
+
+// What one transaction costs to get into the open ledger right now. Under
+// load the open-ledger fee escalates above the base fee, and paying only the
+// base fee leaves the transaction queued or dropped.
+export interface FeeEstimate {
+  drops: string;
+  baseDrops: string;
+  openLedgerDrops: string;
+  // True when the open-ledger fee is above the base fee
+  escalated: boolean;
+  // True when the estimate hit the client's maxFeeXRP cap
+  capped: boolean;
+}
+
+// Reserve values from the last validated ledger, in drops
+export interface ReserveRequirement {
+  baseDrops: string;
+  incrementDrops: string;
+}
+
+export interface AccountFunds {
+  balanceDrops: string;
+  ownerCount: number;
+  // Base reserve plus one increment per owned object
+  reserveDrops: string;
+  // What can leave the account without dipping into the reserve
+  spendableDrops: string;
+}
+
+// Everything a set of payments needs in one currency, against what the
+// account can spend of it. XRP requirements include the fees.
+export interface FundingRequirement {
+  currency: string;
+  issuer?: string;
+  required: string;
+  available: string;
+  shortfall: string;
+}
+
+export interface PaymentProjection {
+  account: string;
+  fee: FeeEstimate;
+  reserve: ReserveRequirement;
+  funds: AccountFunds;
+  requirements: FundingRequirement[];
+  affordable: boolean;
+}
+
+export class InsufficientFundsError extends Error {
+  constructor(public projection: PaymentProjection) {
+    super(describeProjection(projection));
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+const ZERO = BigInt(0);
+
+export async function estimateFee(client: Client): Promise<FeeEstimate> {
+  const response = await client.request({ command: 'fee' });
+  const { base_fee: baseDrops, open_ledger_fee: openLedgerDrops } = response.result.drops;
+  const cap = BigInt(xrpToDrops(client.maxFeeXRP));
+  const wanted = BigInt(openLedgerDrops) > BigInt(baseDrops) ? BigInt(openLedgerDrops) : BigInt(baseDrops);
+
+  return {
+    drops: (wanted > cap ? cap : wanted).toString(),
+    baseDrops,
+    openLedgerDrops,
+    escalated: BigInt(openLedgerDrops) > BigInt(baseDrops),
+    capped: wanted > cap,
+  };
+}
+
+export async function getReserves(client: Client): Promise<ReserveRequirement> {
+  const response = await client.request({ command: 'server_info' });
+  const ledger = response.result.info.validated_ledger;
+  if (!ledger) {
+    throw new Error('The server has no validated ledger yet');
+  }
+  return {
+    baseDrops: xrpToDrops(ledger.reserve_base_xrp),
+    incrementDrops: xrpToDrops(ledger.reserve_inc_xrp),
+  };
+}
+
+export async function getAccountFunds(client: Client, account: string, reserve: ReserveRequirement): Promise<AccountFunds> {
+  const response = await client.request({
+    command: 'account_info',
+    account,
+    ledger_index: 'validated',
+  });
+  const { Balance: balanceDrops, OwnerCount: ownerCount = 0 } = response.result.account_data;
+  const reserveDrops = BigInt(reserve.baseDrops) + BigInt(reserve.incrementDrops) * BigInt(ownerCount);
+  const spendable = BigInt(balanceDrops) - reserveDrops;
+
+  return {
+    balanceDrops,
+    ownerCount,
+    reserveDrops: reserveDrops.toString(),
+    spendableDrops: (spendable > ZERO ? spendable : ZERO).toString(),
+  };
+}
+
+// Issued currencies are spent from the account's trust line balance. An
+// issuer paying out its own currency has no such limit.
+async function getTokenBalance(client: Client, account: string, currency: Pick<PaymentAmount, 'currency' | 'issuer'>): Promise<number> {
+  if (currency.issuer === account) {
+    return Infinity;
+  }
+  const status = await getTrustLineStatus(client, account, currency);
+  return Math.max(Number(status.balance || 0), 0);
+}
+
+function tokenKey(amount: Pick<PaymentAmount, 'currency' | 'issuer'>): string {
+  return `${amount.currency.toUpperCase()}:${amount.issuer || ''}`;
+}
+
+// Multi-signed transactions pay the fee once more for every signature
+export function multisignFee(fee: FeeEstimate, signerCount: number): string {
+  return (BigInt(fee.drops) * BigInt(1 + signerCount)).toString();
+}
+
+// Projects whether `account` can send every payment in `amounts`, each as
+// its own transaction at the current fee, without touching its reserve.
+// `signerCount` prices multi-signed transactions. `newObjects` counts the
+// escrows, checks and payment channels the payments create: each raises the
+// owner reserve by one increment, which must stay in the account.
+export async function projectPayments(
+  client: Client,
+  account: string,
+  amounts: PaymentAmount[],
+  signerCount: number = 0,
+  newObjects: number = 0
+): Promise<PaymentProjection> {
+  const [fee, reserve] = await Promise.all([estimateFee(client), getReserves(client)]);
+  const funds = await getAccountFunds(client, account, reserve);
+
+  let xrpRequired = BigInt(multisignFee(fee, signerCount)) * BigInt(amounts.length)
+    + BigInt(reserve.incrementDrops) * BigInt(newObjects);
+  const tokens = new Map<string, { amount: Pick<PaymentAmount, 'currency' | 'issuer'>; total: number }>();
+  for (const amount of amounts) {
+    if (isXRP(amount)) {
+      xrpRequired += BigInt(xrpToDrops(amount.value));
+      continue;
+    }
+    const entry = tokens.get(tokenKey(amount)) || { amount, total: 0 };
+    entry.total += Number(amount.value);
+    tokens.set(tokenKey(amount), entry);
+  }
+
+  const xrpShortfall = xrpRequired - BigInt(funds.spendableDrops);
+  const requirements: FundingRequirement[] = [{
+    currency: XRP_CURRENCY,
+    required: String(dropsToXrp(xrpRequired.toString())),
+    available: String(dropsToXrp(funds.spendableDrops)),
+    shortfall: String(dropsToXrp((xrpShortfall > ZERO ? xrpShortfall : ZERO).toString())),
+  }];
+
+  for (const { amount, total } of tokens.values()) {
+    const available = await getTokenBalance(client, account, amount);
+    requirements.push({
+      currency: amount.currency,
+      issuer: amount.issuer,
+      required: String(total),
+      available: Number.isFinite(available) ? String(available) : 'unlimited',
+      shortfall: String(total > available ? total - available : 0),
+    });
+  }
+
+  return {
+    account,
+    fee,
+    reserve,
+    funds,
+    requirements,
+    affordable: requirements.every(requirement => Number(requirement.shortfall) === 0),
+  };
+}
+
+export function describeShortfall(requirement: FundingRequirement): string {
+  return `${requirement.shortfall} ${requirement.currency} short (need ${requirement.required}, can spend ${requirement.available})`;
+}
+
+export function describeProjection(projection: PaymentProjection): string {
+  const short = projection.requirements.filter(requirement => Number(requirement.shortfall) > 0);
+  if (short.length === 0) {
+    return 'The account can cover these payments';
+  }
+  return `Insufficient funds: ${short.map(describeShortfall).join('; ')}. `
+    + `${dropsToXrp(projection.funds.reserveDrops)} XRP is held as the account reserve and cannot be sent.`;
+}
+
+export function assertAffordable(projection: PaymentProjection): void {
+  if (!projection.affordable) {
+    throw new InsufficientFundsError(projection);
+  }
+}
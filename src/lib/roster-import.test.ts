@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { AccountMetadata } from './metadata-store';
+import { diffRoster } from './roster-import';
+
+const ADDRESS = 'rPEPPER7kfTD9w2To4CQk6UCfuHM9c6GDY';
+const TODAY = '2026-01-01';
+
+const existing: AccountMetadata = {
+  name: 'Pepper',
+  address: ADDRESS,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  lastUsed: '2025-01-01T00:00:00.000Z',
+  department: 'Engineering',
+  tags: ['remote'],
+  destinationTag: 42,
+  schedule: { frequency: 'monthly', anchorDate: '2025-01-31', amount: '1000', currency: 'RLUSD' },
+};
+
+describe('diffRoster', () => {
+  it('keeps fields whose columns are not in the file', () => {
+    const [row] = diffRoster(`name,address\nPepper Potts,${ADDRESS}`, [existing], TODAY);
+    expect(row.kind).toBe('changed');
+    expect(row.changes).toEqual(['name']);
+    expect(row.metadata).toMatchObject({
+      name: 'Pepper Potts',
+      department: 'Engineering',
+      tags: ['remote'],
+      destinationTag: 42,
+      schedule: existing.schedule,
+    });
+  });
+
+  it('reports a name-and-address re-import as unchanged', () => {
+    const [row] = diffRoster(`name,address\nPepper,${ADDRESS}`, [existing], TODAY);
+    expect(row.kind).toBe('unchanged');
+  });
+
+  it('clears fields whose column is present but empty', () => {
+    const csv = `name,address,destination_tag,salary,schedule,department,tags\nPepper,${ADDRESS},,,,,`;
+    const [row] = diffRoster(csv, [existing], TODAY);
+    expect(row.changes).toEqual(['schedule', 'department', 'destination tag', 'tags']);
+    expect(row.metadata?.schedule).toBeUndefined();
+    expect(row.metadata?.department).toBeUndefined();
+    expect(row.metadata?.destinationTag).toBeUndefined();
+    expect(row.metadata?.tags).toBeUndefined();
+  });
+
+  it('replaces fields whose column has a value', () => {
+    const csv = `name,address,destination_tag,department\nPepper,${ADDRESS},7,Finance`;
+    const [row] = diffRoster(csv, [existing], TODAY);
+    expect(row.metadata).toMatchObject({ destinationTag: 7, department: 'Finance', schedule: existing.schedule });
+  });
+
+  it('keeps the anchor date when the schedule cell has none', () => {
+    const csv = `name,address,salary,schedule\nPepper,${ADDRESS},1200,monthly`;
+    const [row] = diffRoster(csv, [existing], TODAY);
+    expect(row.metadata?.schedule).toMatchObject({ anchorDate: '2025-01-31', amount: '1200' });
+  });
+
+  it('leaves optional fields unset for new employees', () => {
+    const [row] = diffRoster(`name,address\nPepper,${ADDRESS}`, [], TODAY);
+    expect(row.kind).toBe('new');
+    expect(row.metadata).toMatchObject({ name: 'Pepper', address: ADDRESS });
+    expect(row.metadata?.schedule).toBeUndefined();
+  });
+
+  it('changes only salaries from a file without a schedule column', () => {
+    const [row] = diffRoster(`name,address,salary\nPepper,${ADDRESS},1200`, [existing], TODAY);
+    expect(row.changes).toEqual(['schedule']);
+    expect(row.metadata?.schedule).toEqual({ ...existing.schedule, amount: '1200', salaryCurrency: undefined });
+  });
+
+  it('changes only the frequency from a file without a salary column', () => {
+    const [row] = diffRoster(`name,address,schedule\nPepper,${ADDRESS},biweekly`, [existing], TODAY);
+    expect(row.metadata?.schedule).toMatchObject({ frequency: 'biweekly', anchorDate: '2025-01-31', amount: '1000', currency: 'RLUSD' });
+  });
+
+  it('needs a schedule to give a new employee a salary', () => {
+    const [row] = diffRoster(`name,address,salary\nPepper,${ADDRESS},1200`, [], TODAY);
+    expect(row.kind).toBe('invalid');
+    expect(row.errors).toEqual(['schedule is required to add a salary']);
+  });
+
+  it('first pays a new employee at the end of a full period', () => {
+    const [row] = diffRoster(`name,address,salary,schedule\nPepper,${ADDRESS},1000,monthly`, [], TODAY);
+    expect(row.metadata?.schedule).toMatchObject({ frequency: 'monthly', anchorDate: '2026-01-31' });
+  });
+});
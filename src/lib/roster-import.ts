@@ -0,0 +1,309 @@
+import { AccountMetadata, MetadataStore, getMetadataStore, updateMetadata } from './metadata-store';
+import { RLUSD_CURRENCY, XRP_CURRENCY } from './currency';
+import { FREQUENCY_LABELS, PayFrequency, PaySchedule, getFirstPayDate, parseDate } from './schedules';
+import { FIAT_CURRENCIES, isFiatCurrency } from './fx';
+import { parseDestinationTag, resolveAddress } from './employees';
+
+export const ROSTER_COLUMNS = ['name', 'address', 'destination_tag', 'salary', 'currency', 'payout', 'schedule', 'department', 'tags'] as const;
+
+export type RosterRowKind = 'new' | 'changed' | 'unchanged' | 'invalid';
+
+// One data row of the file. `row` is the line number as a spreadsheet shows
+// it, so the header is row 1 and the first employee is row 2.
+export interface RosterDiffRow {
+  row: number;
+  kind: RosterRowKind;
+  name: string;
+  address: string;
+  errors: string[];
+  changes: string[];
+  metadata?: AccountMetadata;
+}
+
+export interface RosterImportResult {
+  row: number;
+  address: string;
+  error?: string;
+}
+
+// Splits CSV text into rows of cells. Handles quoted cells with embedded
+// delimiters, doubled quotes and line breaks. Tab-separated text, as pasted
+// from a spreadsheet, is detected from the header line.
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function isPayFrequency(value: string): value is PayFrequency {
+  return value in FREQUENCY_LABELS;
+}
+
+// The schedule cell is a frequency, optionally followed by the anchor date:
+// `monthly` or `biweekly:2026-01-09`. Cells left empty, or in columns the
+// file does not have, keep the employee's current schedule values, so a file
+// with only a `salary` column changes only salaries. A row with every
+// schedule cell empty clears the schedule. Without a date the current anchor
+// is kept; someone new is first paid at the end of a full period from `today`.
+function parseSchedule(
+  cells: Record<string, string>,
+  existing: PaySchedule | undefined,
+  today: string,
+  errors: string[]
+): PaySchedule | undefined {
+  const scheduleCell = cells.schedule.toLowerCase();
+  if (!cells.salary && !scheduleCell) {
+    return undefined;
+  }
+  const salary = cells.salary || existing?.amount;
+  if (!salary) {
+    errors.push('salary is required to add a pay schedule');
+    return undefined;
+  }
+  if (!scheduleCell && !existing) {
+    errors.push('schedule is required to add a salary');
+    return undefined;
+  }
+
+  const amount = Number(salary);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    errors.push(`salary must be a positive number, got "${salary}"`);
+  }
+
+  // `currency` is the contract currency. Fiat salaries are paid out in the
+  // `payout` currency, RLUSD unless given.
+  const isPayout = (code: string) => code === RLUSD_CURRENCY || code === XRP_CURRENCY;
+  const salaryCurrency = (cells.currency || existing?.salaryCurrency || existing?.currency || RLUSD_CURRENCY).toUpperCase();
+  if (!isPayout(salaryCurrency) && !isFiatCurrency(salaryCurrency)) {
+    errors.push(`currency must be one of ${[RLUSD_CURRENCY, XRP_CURRENCY, ...FIAT_CURRENCIES].join(', ')}, got "${cells.currency}"`);
+  }
+  const keptPayout = existing?.salaryCurrency ? existing.currency : RLUSD_CURRENCY;
+  const currency = (cells.payout || (isPayout(salaryCurrency) ? salaryCurrency : keptPayout)).toUpperCase();
+  if (!isPayout(currency)) {
+    errors.push(`payout must be ${RLUSD_CURRENCY} or ${XRP_CURRENCY}, got "${cells.payout}"`);
+  } else if (isPayout(salaryCurrency) && salaryCurrency !== currency) {
+    errors.push(`a ${salaryCurrency} salary cannot be paid out in ${currency}`);
+  }
+
+  const [frequency, anchor] = scheduleCell ? scheduleCell.split(':').map(part => part.trim()) : [existing?.frequency ?? ''];
+  if (!isPayFrequency(frequency)) {
+    errors.push(`schedule must be one of ${Object.keys(FREQUENCY_LABELS).join(', ')}, got "${cells.schedule}"`);
+    return undefined;
+  }
+  if (anchor) {
+    try {
+      parseDate(anchor);
+    } catch {
+      errors.push(`schedule date must be YYYY-MM-DD, got "${anchor}"`);
+    }
+  }
+
+  return {
+    frequency,
+    anchorDate: anchor || existing?.anchorDate || getFirstPayDate(frequency, today),
+    amount: salary,
+    currency,
+    salaryCurrency: isFiatCurrency(salaryCurrency) ? salaryCurrency : undefined,
+  };
+}
+
+function sameSchedule(a?: PaySchedule, b?: PaySchedule): boolean {
+  if (!a || !b) {
+    return !a && !b;
+  }
+  return a.frequency === b.frequency
+    && a.anchorDate === b.anchorDate
+    && Number(a.amount) === Number(b.amount)
+    && a.currency.toUpperCase() === b.currency.toUpperCase()
+    && a.salaryCurrency === b.salaryCurrency;
+}
+
+function sameTags(a: string[] = [], b: string[] = []): boolean {
+  return a.length === b.length && a.every((tag, i) => tag === b[i]);
+}
+
+// Compares every row of the file with the current roster without writing
+// anything. Only `new` and `changed` rows are written by applyRosterImport.
+// A column left out of the file keeps each employee's current value; only an
+// empty cell in a column that is there clears it.
+export function diffRoster(csv: string, existing: AccountMetadata[], today: string): RosterDiffRow[] {
+  const [header, ...rows] = parseCsv(csv);
+  if (!header) {
+    throw new Error('The file is empty');
+  }
+
+  const columns = header.map(cell => cell.trim().toLowerCase());
+  const missing = ['name', 'address'].filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`Missing required column(s): ${missing.join(', ')}`);
+  }
+
+  const hasColumn = (column: typeof ROSTER_COLUMNS[number]) => columns.includes(column);
+  const hasSchedule = hasColumn('salary') || hasColumn('schedule');
+  const current = new Map(existing.filter(account => account?.address).map(account => [account.address, account]));
+  const seen = new Map<string, number>();
+  const diff: RosterDiffRow[] = [];
+
+  rows.forEach((cellsInRow, index) => {
+    const row = index + 2;
+    if (cellsInRow.every(cell => cell.trim() === '')) {
+      return;
+    }
+
+    const cells: Record<string, string> = {};
+    ROSTER_COLUMNS.forEach(column => {
+      const position = columns.indexOf(column);
+      cells[column] = position === -1 ? '' : (cellsInRow[position] || '').trim();
+    });
+
+    const errors: string[] = [];
+    let address = cells.address;
+    let destinationTag: number | undefined;
+    try {
+      destinationTag = parseDestinationTag(cells.destination_tag);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'invalid destination tag');
+    }
+    try {
+      const resolved = resolveAddress(cells.address);
+      address = resolved.address;
+      if (resolved.tag !== undefined && destinationTag !== undefined && resolved.tag !== destinationTag) {
+        errors.push(`the X-address carries destination tag ${resolved.tag}, which does not match ${destinationTag}`);
+      }
+      destinationTag = resolved.tag ?? destinationTag;
+    } catch {
+      errors.push(`invalid XRPL address "${cells.address}"`);
+    }
+
+    if (!cells.name) {
+      errors.push('name is required');
+    }
+    if (seen.has(address)) {
+      errors.push(`address already appears on row ${seen.get(address)}`);
+    } else if (address) {
+      seen.set(address, row);
+    }
+
+    const previous = current.get(address);
+    const schedule = hasSchedule ? parseSchedule(cells, previous?.schedule, today, errors) : previous?.schedule;
+    const tags = !hasColumn('tags')
+      ? previous?.tags
+      : cells.tags ? cells.tags.split(';').map(tag => tag.trim()).filter(Boolean) : undefined;
+    const department = hasColumn('department') ? cells.department || undefined : previous?.department;
+    // An X-address carries its own tag
+    if (destinationTag === undefined && !hasColumn('destination_tag')) {
+      destinationTag = previous?.destinationTag;
+    }
+
+    if (errors.length > 0) {
+      diff.push({ row, kind: 'invalid', name: cells.name, address, errors, changes: [] });
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const metadata: AccountMetadata = {
+      ...previous,
+      name: cells.name,
+      address,
+      createdAt: previous?.createdAt || now,
+      lastUsed: previous?.lastUsed || now,
+      schedule,
+      department,
+      destinationTag,
+      tags,
+    };
+
+    if (!previous) {
+      diff.push({ row, kind: 'new', name: cells.name, address, errors, changes: [], metadata });
+      return;
+    }
+
+    const changes: string[] = [];
+    if (previous.name !== metadata.name) changes.push('name');
+    if (!sameSchedule(previous.schedule, metadata.schedule)) changes.push('schedule');
+    if ((previous.department || undefined) !== metadata.department) changes.push('department');
+    if (previous.destinationTag !== metadata.destinationTag) changes.push('destination tag');
+    if (!sameTags(previous.tags, metadata.tags)) changes.push('tags');
+
+    diff.push({
+      row,
+      kind: changes.length > 0 ? 'changed' : 'unchanged',
+      name: cells.name,
+      address,
+      errors,
+      changes,
+      metadata,
+    });
+  });
+
+  return diff;
+}
+
+// Writes new and changed rows one at a time. A failing row is reported and
+// the rest of the import carries on.
+export async function applyRosterImport(
+  diff: RosterDiffRow[],
+  store: MetadataStore = getMetadataStore()
+): Promise<RosterImportResult[]> {
+  const results: RosterImportResult[] = [];
+
+  for (const entry of diff) {
+    if (!entry.metadata || (entry.kind !== 'new' && entry.kind !== 'changed')) {
+      continue;
+    }
+    try {
+      if (entry.kind === 'new') {
+        await store.put(entry.metadata);
+      } else {
+        await updateMetadata(store, entry.address, entry.metadata);
+      }
+      results.push({ row: entry.row, address: entry.address });
+    } catch (error) {
+      results.push({
+        row: entry.row,
+        address: entry.address,
+        error: error instanceof Error ? error.message : 'Failed to save metadata',
+      });
+    }
+  }
+
+  return results;
+}
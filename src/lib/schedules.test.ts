@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { CATCH_UP_DAYS, PaySchedule, getDuePayrolls, getFirstPayDate, getPayPeriod, getPayPeriods, paidKey } from './schedules';
+
+const EMPLOYEE = 'rPEPPER7kfTD9w2To4CQk6UCfuHM9c6GDY';
+
+function schedule(frequency: PaySchedule['frequency'], anchorDate: string): PaySchedule {
+  return { frequency, anchorDate, amount: '1000', currency: 'XRP' };
+}
+
+function period(start: string, end: string) {
+  return { id: `${start}/${end}`, start, end };
+}
+
+describe('getPayPeriod', () => {
+  describe('monthly', () => {
+    it('pulls a pay date on the 31st back to the end of shorter months', () => {
+      const monthly = schedule('monthly', '2023-01-31');
+      expect(getPayPeriod(monthly, '2023-04-10')).toEqual(period('2023-04-01', '2023-04-30'));
+      expect(getPayPeriod(monthly, '2023-05-01')).toEqual(period('2023-05-01', '2023-05-31'));
+    });
+
+    it('pays on February 28th outside leap years', () => {
+      const monthly = schedule('monthly', '2023-01-31');
+      expect(getPayPeriod(monthly, '2023-02-15')).toEqual(period('2023-02-01', '2023-02-28'));
+      expect(getPayPeriod(monthly, '2023-03-01')).toEqual(period('2023-03-01', '2023-03-31'));
+    });
+
+    it('pays on February 29th in leap years', () => {
+      const monthly = schedule('monthly', '2024-01-31');
+      expect(getPayPeriod(monthly, '2024-02-29')).toEqual(period('2024-02-01', '2024-02-29'));
+      expect(getPayPeriod(monthly, '2024-03-01')).toEqual(period('2024-03-01', '2024-03-31'));
+    });
+
+    it('keeps a mid-month anchor on its day', () => {
+      const monthly = schedule('monthly', '2024-01-20');
+      expect(getPayPeriod(monthly, '2024-01-20')).toEqual(period('2023-12-21', '2024-01-20'));
+      expect(getPayPeriod(monthly, '2024-01-21')).toEqual(period('2024-01-21', '2024-02-20'));
+    });
+
+    it('crosses the year end', () => {
+      expect(getPayPeriod(schedule('monthly', '2024-01-31'), '2024-12-31')).toEqual(period('2024-12-01', '2024-12-31'));
+      expect(getPayPeriod(schedule('monthly', '2024-01-15'), '2024-12-20')).toEqual(period('2024-12-16', '2025-01-15'));
+    });
+  });
+
+  describe('semimonthly', () => {
+    const semimonthly = schedule('semimonthly', '2024-01-15');
+
+    it('splits the month on the 15th', () => {
+      expect(getPayPeriod(semimonthly, '2024-04-01')).toEqual(period('2024-04-01', '2024-04-15'));
+      expect(getPayPeriod(semimonthly, '2024-04-15')).toEqual(period('2024-04-01', '2024-04-15'));
+      expect(getPayPeriod(semimonthly, '2024-04-16')).toEqual(period('2024-04-16', '2024-04-30'));
+    });
+
+    it('ends the second half on the last day of the month', () => {
+      expect(getPayPeriod(semimonthly, '2024-01-20')).toEqual(period('2024-01-16', '2024-01-31'));
+      expect(getPayPeriod(semimonthly, '2024-06-30')).toEqual(period('2024-06-16', '2024-06-30'));
+    });
+
+    it('follows leap years in February', () => {
+      expect(getPayPeriod(semimonthly, '2024-02-20')).toEqual(period('2024-02-16', '2024-02-29'));
+      expect(getPayPeriod(semimonthly, '2025-02-20')).toEqual(period('2025-02-16', '2025-02-28'));
+    });
+
+    it('follows the century rule for leap years', () => {
+      expect(getPayPeriod(schedule('semimonthly', '2000-01-15'), '2000-02-16')).toEqual(period('2000-02-16', '2000-02-29'));
+      expect(getPayPeriod(schedule('semimonthly', '2100-01-15'), '2100-02-16')).toEqual(period('2100-02-16', '2100-02-28'));
+    });
+  });
+
+  describe('weekly and biweekly', () => {
+    it('ends every period on a multiple of the length from the anchor', () => {
+      const weekly = schedule('weekly', '2024-01-05');
+      expect(getPayPeriod(weekly, '2024-01-05')).toEqual(period('2023-12-30', '2024-01-05'));
+      expect(getPayPeriod(weekly, '2024-01-06')).toEqual(period('2024-01-06', '2024-01-12'));
+    });
+
+    it('counts across February 29th', () => {
+      const biweekly = schedule('biweekly', '2024-02-16');
+      expect(getPayPeriod(biweekly, '2024-02-29')).toEqual(period('2024-02-17', '2024-03-01'));
+    });
+  });
+
+  it('returns null for a period that ends before the schedule starts', () => {
+    expect(getPayPeriod(schedule('semimonthly', '2024-05-31'), '2024-05-10')).toBeNull();
+  });
+});
+
+describe('getPayPeriods', () => {
+  it('lists periods whose pay date falls in the range', () => {
+    expect(getPayPeriods(schedule('semimonthly', '2024-01-15'), '2024-02-10', '2024-03-15')).toEqual([
+      period('2024-02-01', '2024-02-15'),
+      period('2024-02-16', '2024-02-29'),
+      period('2024-03-01', '2024-03-15'),
+    ]);
+  });
+
+  it('starts at the anchor', () => {
+    expect(getPayPeriods(schedule('monthly', '2024-03-31'), '2024-01-01', '2024-05-01')).toEqual([
+      period('2024-03-01', '2024-03-31'),
+      period('2024-04-01', '2024-04-30'),
+    ]);
+  });
+});
+
+describe('getFirstPayDate', () => {
+  it.each<[PaySchedule['frequency'], string, string]>([
+    ['weekly', '2026-01-05', '2026-01-11'],
+    ['biweekly', '2026-01-05', '2026-01-18'],
+    ['semimonthly', '2026-01-01', '2026-01-15'],
+    ['semimonthly', '2026-01-10', '2026-01-31'],
+    ['semimonthly', '2026-01-16', '2026-01-31'],
+    ['semimonthly', '2026-01-20', '2026-02-15'],
+    ['monthly', '2026-01-01', '2026-01-31'],
+    ['monthly', '2026-01-15', '2026-02-14'],
+    ['monthly', '2026-01-31', '2026-02-28'],
+    ['monthly', '2026-12-01', '2026-12-31'],
+  ])('starts a %s schedule on %s with a first pay date of %s', (frequency, start, payDate) => {
+    expect(getFirstPayDate(frequency, start)).toBe(payDate);
+  });
+
+  it.each<PaySchedule['frequency']>(['weekly', 'biweekly', 'semimonthly', 'monthly'])(
+    'makes nothing due on the day a %s schedule starts', frequency => {
+      const start = '2026-01-15';
+      const employees = [{ address: EMPLOYEE, schedule: schedule(frequency, getFirstPayDate(frequency, start)) }];
+      expect(getDuePayrolls(employees, start, new Set())).toEqual([]);
+    }
+  );
+});
+
+describe('getDuePayrolls', () => {
+  const employees = [{ address: EMPLOYEE, name: 'Pepper', schedule: schedule('monthly', '2024-01-31') }];
+
+  it('pays in arrears, not before the period has ended', () => {
+    expect(getDuePayrolls(employees, '2024-02-28', new Set([paidKey(EMPLOYEE, '2024-01-01/2024-01-31')]))).toEqual([]);
+  });
+
+  it('makes a period due on its last day', () => {
+    const due = getDuePayrolls(employees, '2024-02-29', new Set([paidKey(EMPLOYEE, '2024-01-01/2024-01-31')]));
+    expect(due.map(item => item.period.id)).toEqual(['2024-02-01/2024-02-29']);
+  });
+
+  it('keeps unpaid past periods due, oldest first', () => {
+    const due = getDuePayrolls(employees, '2024-04-10', new Set([paidKey(EMPLOYEE, '2024-02-01/2024-02-29')]));
+    expect(due.map(item => item.period.id)).toEqual(['2024-01-01/2024-01-31', '2024-03-01/2024-03-31']);
+  });
+
+  it('looks back no further than CATCH_UP_DAYS', () => {
+    const weekly = [{ address: EMPLOYEE, schedule: schedule('weekly', '2020-01-03') }];
+    const due = getDuePayrolls(weekly, '2024-06-01', new Set());
+    expect(due.length).toBe(Math.floor(CATCH_UP_DAYS / 7) + 1);
+    expect(due[due.length - 1].period.end).toBe('2024-05-31');
+  });
+
+  it('skips employees without a schedule or whose schedule has not started', () => {
+    const due = getDuePayrolls([
+      { address: EMPLOYEE },
+      { address: 'rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH', schedule: schedule('monthly', '2024-06-30') },
+    ], '2024-06-29', new Set());
+    expect(due).toEqual([]);
+  });
+
+  it('carries the salary and payout currency', () => {
+    const [item] = getDuePayrolls(employees, '2024-01-31', new Set());
+    expect(item).toMatchObject({
+      name: 'Pepper',
+      salary: { currency: 'XRP', value: '1000' },
+      payout: { currency: 'XRP' },
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { PaymentAmount, paymentAmount } from './currency';
+import { FiatCurrency, SalaryAmount } from './fx';
+import { XRPLNetwork, DEFAULT_NETWORK } from './networks';
+
+export type PayFrequency = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly';
+
+// Stored on each employee's AccountMetadata. Dates are calendar dates in
+// YYYY-MM-DD form and all arithmetic is done in UTC so that a pay period
+// never shifts with the browser's time zone.
+export interface PaySchedule {
+  frequency: PayFrequency;
+  anchorDate: string;
+  amount: string;
+  // The payout currency
+  currency: string;
+  // Set when the contract is in fiat; `amount` is then in this currency and
+  // is converted to `currency` when the payroll runs
+  salaryCurrency?: FiatCurrency;
+}
+
+// A pay period runs from `start` to `end` inclusive and is paid in arrears on
+// `end`. The id is the ISO 8601 interval and is stable for a given schedule.
+export interface PayPeriod {
+  id: string;
+  start: string;
+  end: string;
+}
+
+export const FREQUENCY_LABELS: Record<PayFrequency, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every two weeks',
+  semimonthly: 'Twice a month (15th and last day)',
+  monthly: 'Monthly',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Periods that ended longer ago than this are never paid automatically, so a
+// schedule anchored far in the past or a lost run history cannot trigger
+// years of back pay. Older gaps are settled by hand.
+export const CATCH_UP_DAYS = 90;
+
+export function parseDate(date: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) {
+    throw new Error(`Invalid date: ${date}`);
+  }
+  return new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function toCalendarDate(date: Date): string {
+  return formatDate(new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate())));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// The anchor's day of month, pulled back to the last day of shorter months
+// (an anchor on the 31st pays on Feb 28th, or the 29th in a leap year).
+function monthlyPayDate(year: number, month: number, anchorDay: number): Date {
+  const normalized = new Date(Date.UTC(year, month, 1));
+  const y = normalized.getUTCFullYear();
+  const m = normalized.getUTCMonth();
+  return new Date(Date.UTC(y, m, Math.min(anchorDay, daysInMonth(y, m))));
+}
+
+function toPeriod(start: Date, end: Date): PayPeriod {
+  return { id: `${formatDate(start)}/${formatDate(end)}`, start: formatDate(start), end: formatDate(end) };
+}
+
+// Returns the pay period containing `date`, or null if the schedule has not
+// started yet. The anchor date is the first pay date of the schedule.
+export function getPayPeriod(schedule: PaySchedule, date: string): PayPeriod | null {
+  const anchor = parseDate(schedule.anchorDate);
+  const day = parseDate(date);
+  let start: Date;
+  let end: Date;
+
+  switch (schedule.frequency) {
+    case 'weekly':
+    case 'biweekly': {
+      const length = schedule.frequency === 'weekly' ? 7 : 14;
+      const periods = Math.ceil(daysBetween(anchor, day) / length);
+      end = addDays(anchor, periods * length);
+      start = addDays(end, 1 - length);
+      break;
+    }
+    case 'semimonthly': {
+      const year = day.getUTCFullYear();
+      const month = day.getUTCMonth();
+      if (day.getUTCDate() <= 15) {
+        start = new Date(Date.UTC(year, month, 1));
+        end = new Date(Date.UTC(year, month, 15));
+      } else {
+        start = new Date(Date.UTC(year, month, 16));
+        end = new Date(Date.UTC(year, month, daysInMonth(year, month)));
+      }
+      break;
+    }
+    case 'monthly': {
+      const anchorDay = anchor.getUTCDate();
+      const year = day.getUTCFullYear();
+      const month = day.getUTCMonth();
+      const thisMonth = monthlyPayDate(year, month, anchorDay);
+      if (day <= thisMonth) {
+        end = thisMonth;
+        start = addDays(monthlyPayDate(year, month - 1, anchorDay), 1);
+      } else {
+        end = monthlyPayDate(year, month + 1, anchorDay);
+        start = addDays(thisMonth, 1);
+      }
+      break;
+    }
+    default:
+      throw new Error(`Unknown pay frequency: ${schedule.frequency}`);
+  }
+
+  if (end < anchor) {
+    return null;
+  }
+  return toPeriod(start, end);
+}
+
+// Checks a YYYY-MM-DD string names a real calendar day
+export function isCalendarDate(date: string): boolean {
+  try {
+    return formatDate(parseDate(date)) === date;
+  } catch {
+    return false;
+  }
+}
+
+// The earliest pay date getDuePayrolls looks back to from `date`
+export function getCatchUpStart(date: string): string {
+  return formatDate(addDays(parseDate(date), -CATCH_UP_DAYS));
+}
+
+// The default first pay date of a schedule starting on `start`: the end of
+// the first full period from that day. Anchoring on `start` itself would
+// make a whole period's salary due on day one.
+export function getFirstPayDate(frequency: PayFrequency, start: string): string {
+  const day = parseDate(start);
+  const year = day.getUTCFullYear();
+  const month = day.getUTCMonth();
+  switch (frequency) {
+    case 'weekly':
+      return formatDate(addDays(day, 6));
+    case 'biweekly':
+      return formatDate(addDays(day, 13));
+    case 'semimonthly':
+      // Halves are fixed to the calendar, so the first full one may start later
+      if (day.getUTCDate() === 1) {
+        return formatDate(new Date(Date.UTC(year, month, 15)));
+      }
+      if (day.getUTCDate() <= 16) {
+        return formatDate(new Date(Date.UTC(year, month, daysInMonth(year, month))));
+      }
+      return formatDate(new Date(Date.UTC(year, month + 1, 15)));
+    case 'monthly':
+      // The day before the same day next month; a start on the 1st pays on
+      // the last day of that month
+      return formatDate(monthlyPayDate(year, month + 1, day.getUTCDate() - 1));
+    default:
+      throw new Error(`Unknown pay frequency: ${frequency}`);
+  }
+}
+
+// Every period whose pay date, its end, falls between `from` and `to`
+// inclusive, oldest first
+export function getPayPeriods(schedule: PaySchedule, from: string, to: string): PayPeriod[] {
+  const last = parseDate(to);
+  const periods: PayPeriod[] = [];
+  // Before the anchor there are no periods; the first one ends on it
+  let period = getPayPeriod(schedule, from) || getPayPeriod(schedule, schedule.anchorDate);
+  while (period && parseDate(period.end) <= last) {
+    if (period.end >= from) {
+      periods.push(period);
+    }
+    period = getPayPeriod(schedule, formatDate(addDays(parseDate(period.end), 1)));
+  }
+  return periods;
+}
+
+export interface DuePayroll {
+  address: string;
+  destinationTag?: number;
+  name: string;
+  period: PayPeriod;
+  salary: SalaryAmount;
+  payout: Pick<PaymentAmount, 'currency' | 'issuer'>;
+}
+
+export function getScheduleSalary(schedule: PaySchedule): SalaryAmount {
+  return { currency: schedule.salaryCurrency || schedule.currency, value: schedule.amount };
+}
+
+// Every period paid in arrears by `date` that has not been paid yet, oldest
+// first and going back at most CATCH_UP_DAYS. A period is due from its last
+// day on. `paid` holds `${address}:${period.id}` keys.
+export function getDuePayrolls(
+  employees: { address: string; name?: string; destinationTag?: number; schedule?: PaySchedule }[],
+  date: string,
+  paid: Set<string>,
+  network: XRPLNetwork = DEFAULT_NETWORK
+): DuePayroll[] {
+  const due: DuePayroll[] = [];
+
+  for (const employee of employees) {
+    if (!employee.schedule) {
+      continue;
+    }
+    const { currency, issuer } = paymentAmount(employee.schedule.currency, employee.schedule.amount, network);
+    for (const period of getPayPeriods(employee.schedule, getCatchUpStart(date), date)) {
+      if (paid.has(paidKey(employee.address, period))) {
+        continue;
+      }
+      due.push({
+        address: employee.address,
+        destinationTag: employee.destinationTag,
+        name: employee.name || employee.address,
+        period,
+        salary: getScheduleSalary(employee.schedule),
+        payout: { currency, issuer },
+      });
+    }
+  }
+
+  return due;
+}
+
+export function paidKey(address: string, period: PayPeriod | string): string {
+  return `${address}:${typeof period === 'string' ? period : period.id}`;
+}
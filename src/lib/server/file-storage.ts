@@ -0,0 +1,88 @@
+import fs from 'fs';
+import path from 'path';
+import { KeyValueStorage } from '../payroll-runs';
+
+export const DATA_DIR = process.env.PAYROLL_DATA_DIR || path.join(process.cwd(), '.data');
+
+// A localStorage stand-in for route handlers: one JSON file per key under the
+// data directory. Writes go through a temp file so a crash never leaves a
+// half-written run record behind.
+export class FileStorage implements KeyValueStorage {
+  constructor(private directory: string = DATA_DIR) {
+    fs.mkdirSync(this.directory, { recursive: true });
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.directory, `${key.replace(/[^a-z0-9_-]/gi, '_')}.json`);
+  }
+
+  getItem(key: string): string | null {
+    try {
+      return fs.readFileSync(this.filePath(key), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  setItem(key: string, value: string): void {
+    const target = this.filePath(key);
+    const temp = `${target}.${process.pid}.tmp`;
+    fs.writeFileSync(temp, value);
+    fs.renameSync(temp, target);
+  }
+
+  removeItem(key: string): void {
+    fs.rmSync(this.filePath(key), { force: true });
+  }
+}
+
+const LOCK_STALE_MS = 5 * 60 * 1000;
+const LOCK_HEARTBEAT_MS = 30 * 1000;
+
+// Exclusive lock so two overlapping cron calls never sign the same period.
+// The holder touches the lock file every LOCK_HEARTBEAT_MS for as long as it
+// runs, however long settling takes, so only a lock left untouched for
+// LOCK_STALE_MS is taken to belong to a crashed process.
+export function acquireLock(name: string, directory: string = DATA_DIR): (() => void) | null {
+  fs.mkdirSync(directory, { recursive: true });
+  const lockPath = path.join(directory, `${name}.lock`);
+
+  try {
+    const stat = fs.statSync(lockPath);
+    if (Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+      fs.rmSync(lockPath, { force: true });
+    }
+  } catch {
+    // No existing lock
+  }
+
+  try {
+    const fd = fs.openSync(lockPath, 'wx');
+    fs.writeSync(fd, String(process.pid));
+    fs.closeSync(fd);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return null;
+    }
+    throw error;
+  }
+
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+    try {
+      fs.utimesSync(lockPath, now, now);
+    } catch (error) {
+      console.error('Error refreshing the scheduler lock:', error);
+    }
+  }, LOCK_HEARTBEAT_MS);
+  // The heartbeat alone must not keep the process alive
+  heartbeat.unref();
+
+  return () => {
+    clearInterval(heartbeat);
+    fs.rmSync(lockPath, { force: true });
+  };
+}
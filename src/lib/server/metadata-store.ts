@@ -0,0 +1,12 @@
+import { FileStorage } from './file-storage';
+import { JsonMetadataStore, MetadataStore, MetadataStoreKind, createMetadataStore } from '../metadata-store';
+
+// Route handlers read the roster from METADATA_STORE: `pinata` (the
+// default), or `file` for a JSON file in the payroll data directory
+export function getServerMetadataStore(): MetadataStore {
+  const kind = process.env.METADATA_STORE || 'pinata';
+  if (kind === 'file') {
+    return new JsonMetadataStore(new FileStorage());
+  }
+  return createMetadataStore(kind as MetadataStoreKind);
+}
@@ -0,0 +1,173 @@
+import { Client, RippledError, decode, hashes, isValidClassicAddress } from 'xrpl';
+
+interface MockAccount {
+  balance: string;
+  sequence: number;
+}
+
+interface MockTransaction {
+  hash: string;
+  ledgerIndex: number;
+  result: string;
+  tx: Record<string, unknown>;
+  closeTime: string;
+}
+
+type MockRequest = { command: string } & Record<string, unknown>;
+
+// An in-memory ledger that answers the handful of commands the payroll
+// scheduler uses. Unknown but well-formed addresses are treated as funded
+// accounts with open trust lines so dry runs need no setup. Each submitted
+// transaction is applied in its own ledger, and every getLedgerIndex call
+// closes another one so unapplied transactions eventually expire.
+export class MockClient {
+  private accounts = new Map<string, MockAccount>();
+  private transactions = new Map<string, MockTransaction>();
+  private ledgerIndex = 1000;
+  private connected = false;
+
+  readonly url = 'mock://ledger';
+  readonly maxFeeXRP = '2';
+
+  async connect() {
+    this.connected = true;
+  }
+
+  async disconnect() {
+    this.connected = false;
+  }
+
+  isConnected() {
+    return this.connected;
+  }
+
+  async getLedgerIndex() {
+    this.ledgerIndex++;
+    return this.ledgerIndex;
+  }
+
+  private account(address: string): MockAccount {
+    if (!isValidClassicAddress(address)) {
+      throw new RippledError('Account not found.', { error: 'actNotFound' });
+    }
+    let account = this.accounts.get(address);
+    if (!account) {
+      account = { balance: '100000000000', sequence: 1 };
+      this.accounts.set(address, account);
+    }
+    return account;
+  }
+
+  async request(request: MockRequest) {
+    switch (request.command) {
+      case 'account_info': {
+        const account = this.account(request.account as string);
+        return {
+          result: {
+            account_data: { Account: request.account, Balance: account.balance, Sequence: account.sequence, OwnerCount: 0 },
+            ledger_current_index: this.ledgerIndex + 1,
+          },
+        };
+      }
+      case 'account_lines':
+        this.account(request.account as string);
+        return {
+          result: {
+            lines: request.peer ? [{
+              account: request.peer,
+              currency: '524C555344000000000000000000000000000000',
+              balance: '1000000',
+              limit: '1000000000',
+              limit_peer: '0',
+            }] : [],
+          },
+        };
+      case 'ledger_current':
+        return { result: { ledger_current_index: this.ledgerIndex + 1 } };
+      case 'fee':
+        return { result: { drops: { base_fee: '10', minimum_fee: '10', open_ledger_fee: '10', median_fee: '5000' } } };
+      case 'server_info':
+        return {
+          result: {
+            info: { validated_ledger: { seq: this.ledgerIndex, reserve_base_xrp: 1, reserve_inc_xrp: 0.2 } },
+          },
+        };
+      case 'tx': {
+        const tx = this.transactions.get(request.transaction as string);
+        if (!tx) {
+          // The mock keeps every ledger, so a bounded search is complete
+          // once the range has closed
+          const searchedAll = request.max_ledger !== undefined && (request.max_ledger as number) <= this.ledgerIndex;
+          throw new RippledError('Transaction not found.', { error: 'txnNotFound', searched_all: searchedAll });
+        }
+        return {
+          result: {
+            hash: tx.hash,
+            ledger_index: tx.ledgerIndex,
+            validated: tx.ledgerIndex <= this.ledgerIndex,
+            tx_json: tx.tx,
+            meta: { TransactionResult: tx.result },
+          },
+        };
+      }
+      case 'account_tx': {
+        // The whole history on one page, newest first
+        this.account(request.account as string);
+        const transactions = [...this.transactions.values()]
+          .filter(tx => tx.tx.Account === request.account || tx.tx.Destination === request.account)
+          .sort((a, b) => b.ledgerIndex - a.ledgerIndex)
+          .map(tx => ({
+            hash: tx.hash,
+            ledger_index: tx.ledgerIndex,
+            close_time_iso: tx.closeTime,
+            validated: true,
+            tx_json: tx.tx,
+            meta: { TransactionResult: tx.result, TransactionIndex: 0 },
+          }));
+        return { result: { account: request.account, transactions } };
+      }
+      default:
+        throw new RippledError(`Unsupported command in mock client: ${request.command}`, { error: 'unknownCmd' });
+    }
+  }
+
+  async autofill<T extends { Account: string; Sequence?: number; Fee?: string; LastLedgerSequence?: number }>(tx: T): Promise<T> {
+    const account = this.account(tx.Account);
+    return {
+      ...tx,
+      Sequence: tx.Sequence ?? account.sequence,
+      Fee: tx.Fee ?? '12',
+      LastLedgerSequence: tx.LastLedgerSequence ?? this.ledgerIndex + 20,
+    };
+  }
+
+  async submit(txBlob: string) {
+    const tx = decode(txBlob) as Record<string, unknown>;
+    const hash = hashes.hashSignedTx(txBlob);
+    const account = this.account(tx.Account as string);
+
+    let result = 'tesSUCCESS';
+    if (tx.Sequence !== account.sequence) {
+      result = (tx.Sequence as number) < account.sequence ? 'tefPAST_SEQ' : 'terPRE_SEQ';
+    } else if ((tx.LastLedgerSequence as number) <= this.ledgerIndex) {
+      result = 'tefMAX_LEDGER';
+    } else {
+      account.sequence++;
+      this.ledgerIndex++;
+      this.transactions.set(hash, { hash, ledgerIndex: this.ledgerIndex, result, tx, closeTime: new Date().toISOString() });
+    }
+
+    return {
+      result: {
+        engine_result: result,
+        engine_result_message: result,
+        tx_blob: txBlob,
+        tx_json: { ...tx, hash },
+      },
+    };
+  }
+}
+
+export function createMockClient(): Client {
+  return new MockClient() as unknown as Client;
+}
@@ -0,0 +1,227 @@
+import { Client, Wallet } from 'xrpl';
+import { XRPLNetwork, DEFAULT_NETWORK, getNetwork, isXRPLNetwork } from '../networks';
+import { AccountMetadata } from '../metadata-store';
+import { DuePayroll, getCatchUpStart, getDuePayrolls, formatDate } from '../schedules';
+import {
+  PayrollLineInput,
+  PayrollRun,
+  PayrollRunStore,
+  PayrollRunSummary,
+  createPayrollRun,
+  summarizePayrollRun,
+  withDeductions,
+} from '../payroll-runs';
+import { DeductionTableStore } from '../deduction-table';
+import { InsufficientFundsError } from '../preflight';
+import { FxRate, convertSalary, fxPair, getRequiredPairs, manualRate, parseRateList } from '../fx';
+import { XRPLService } from '../xrpl';
+import { walletForAccount } from '../account-keys';
+import { FileStorage, acquireLock } from './file-storage';
+import { createMockClient } from './mock-client';
+
+export interface SchedulerResult {
+  date: string;
+  network: XRPLNetwork;
+  due: number;
+  resumed: { id: string; summary: PayrollRunSummary }[];
+  run?: { id: string; summary: PayrollRunSummary };
+  skipped: { address: string; period: string; reason: string }[];
+}
+
+export class SchedulerBusyError extends Error {
+  constructor() {
+    super('A scheduled payroll run is already in progress');
+    this.name = 'SchedulerBusyError';
+  }
+}
+
+let mockClient: Client | null = null;
+
+export function getServerNetwork(): XRPLNetwork {
+  const network = process.env.XRPL_NETWORK || DEFAULT_NETWORK;
+  if (!isXRPLNetwork(network)) {
+    throw new Error(`Unknown XRPL_NETWORK: ${network}`);
+  }
+  return network;
+}
+
+// Drives XRPLService on the server: one signing wallet, one client and a
+// file-backed run store. XRPL_SERVER_URL=mock swaps in an in-memory ledger;
+// point it at ws://localhost:6006 for a rippled standalone node.
+export class ServerPayrollSigner {
+  private service: XRPLService;
+  private store: PayrollRunStore;
+  private deductions: DeductionTableStore;
+  private manualRates: Record<string, string>;
+  readonly network: XRPLNetwork;
+  readonly address: string;
+
+  constructor(
+    client: Client,
+    wallet: Wallet,
+    store: PayrollRunStore,
+    network: XRPLNetwork = DEFAULT_NETWORK,
+    deductions: DeductionTableStore = new DeductionTableStore(),
+    // Fixed rates by pair, e.g. { 'USD/RLUSD': '1' }; other pairs are read
+    // from the order book
+    manualRates: Record<string, string> = {}
+  ) {
+    this.service = new XRPLService({ client, network, signer: wallet, runStore: store });
+    this.store = store;
+    this.deductions = deductions;
+    this.manualRates = manualRates;
+    this.network = network;
+    this.address = wallet.address;
+  }
+
+  static fromEnv(): ServerPayrollSigner {
+    const seed = process.env.PAYROLL_SIGNER_SEED;
+    if (!seed) {
+      throw new Error('PAYROLL_SIGNER_SEED is not configured');
+    }
+
+    const network = getServerNetwork();
+    const url = process.env.XRPL_SERVER_URL || getNetwork(network).url;
+    let client: Client;
+    if (url === 'mock') {
+      // Keep one mock ledger per process so repeated calls see earlier payments
+      mockClient = mockClient || createMockClient();
+      client = mockClient;
+    } else {
+      client = new Client(url);
+    }
+
+    const storage = new FileStorage();
+    const account = process.env.PAYROLL_SIGNER_ACCOUNT;
+    return new ServerPayrollSigner(
+      client,
+      // A regular key signs for the account named in PAYROLL_SIGNER_ACCOUNT
+      account ? walletForAccount(account, seed) : Wallet.fromSeed(seed),
+      new PayrollRunStore(storage),
+      network,
+      new DeductionTableStore(storage),
+      parseRateList(process.env.PAYROLL_FX_RATES || '')
+    );
+  }
+
+  async connect() {
+    await this.service.connect();
+  }
+
+  async disconnect() {
+    await this.service.disconnect();
+  }
+
+  // Periods due by `date` that neither the ledger nor a run in flight on this
+  // server shows as paid. Payroll memos on the ledger cover runs made from
+  // the dashboard too.
+  async getDuePayrolls(accounts: AccountMetadata[], date: string = formatDate(new Date())): Promise<DuePayroll[]> {
+    await this.connect();
+    const committed = await this.service.getCommittedPeriods(getCatchUpStart(date), this.address);
+    return getDuePayrolls(accounts, date, committed, this.network);
+  }
+
+  // Pays every period due by `date`. Safe to call any number of times:
+  // periods already paid or in flight are skipped, and runs left unfinished
+  // by an earlier call are settled before anything new is signed.
+  async runDuePayrolls(accounts: AccountMetadata[], date: string = formatDate(new Date())): Promise<SchedulerResult> {
+    const release = acquireLock('payroll-scheduler');
+    if (!release) {
+      throw new SchedulerBusyError();
+    }
+
+    try {
+      await this.connect();
+      const result: SchedulerResult = { date, network: this.network, due: 0, resumed: [], skipped: [] };
+
+      for (const unfinished of this.store.getResumable(this.network).filter(run => run.account === this.address)) {
+        const settled = await this.service.runPayroll(unfinished);
+        result.resumed.push({ id: settled.id, summary: summarizePayrollRun(settled) });
+      }
+
+      const due = await this.getDuePayrolls(accounts, date);
+      result.due = due.length;
+      if (due.length === 0) {
+        return result;
+      }
+
+      const rates = await this.resolveRates(getRequiredPairs(due));
+
+      // Schedules hold gross salaries, converted from fiat first. Lines whose
+      // rate or deductions fail stay due. An unreadable deduction table
+      // throws and stops the whole run rather than paying gross.
+      const rules = this.deductions.list();
+      const lines: PayrollLineInput[] = [];
+      for (const item of due) {
+        try {
+          const { amount, fx } = convertSalary(item.salary, item.payout, rates.resolved);
+          lines.push(withDeductions({
+            destination: item.address,
+            destinationTag: item.destinationTag,
+            name: item.name,
+            amount,
+            fx,
+            period: item.period.id,
+            memo: `Salary ${item.period.start} to ${item.period.end}`,
+          }, rules));
+        } catch (error) {
+          const pair = fxPair(item.salary.currency, item.payout.currency);
+          result.skipped.push({
+            address: item.address,
+            period: item.period.id,
+            reason: rates.problems[pair] || (error instanceof Error ? error.message : 'Could not apply deductions'),
+          });
+        }
+      }
+      if (lines.length === 0) {
+        return result;
+      }
+
+      const draft = createPayrollRun(this.address, lines, this.network);
+
+      // Lines that fail validation stay due and are picked up by a later call
+      const problems = await this.service.validatePayrollRun(draft);
+      for (const line of draft.lines.filter(l => problems[l.id])) {
+        result.skipped.push({ address: line.destination, period: line.period || '', reason: problems[line.id] });
+      }
+      draft.lines = draft.lines.filter(line => !problems[line.id]);
+
+      if (draft.lines.length > 0) {
+        try {
+          const run: PayrollRun = await this.service.runPayroll(draft);
+          result.run = { id: run.id, summary: summarizePayrollRun(run) };
+        } catch (error) {
+          // Nothing was signed, so every line stays due until the account is topped up
+          if (!(error instanceof InsufficientFundsError)) {
+            throw error;
+          }
+          for (const line of draft.lines) {
+            result.skipped.push({ address: line.destination, period: line.period || '', reason: error.message });
+          }
+        }
+      }
+
+      return result;
+    } finally {
+      release();
+    }
+  }
+
+  // One rate per pair for the whole run, so everyone paid in the same
+  // currencies gets the same rate
+  private async resolveRates(pairs: ReturnType<typeof getRequiredPairs>) {
+    const resolved: FxRate[] = [];
+    const problems: Record<string, string> = {};
+    for (const { fiat, payout } of pairs) {
+      const pair = fxPair(fiat, payout.currency);
+      try {
+        resolved.push(this.manualRates[pair]
+          ? manualRate(fiat, payout.currency, this.manualRates[pair])
+          : await this.service.getFxRate(fiat, payout));
+      } catch (error) {
+        problems[pair] = error instanceof Error ? error.message : `No ${pair} rate`;
+      }
+    }
+    return { resolved, problems };
+  }
+}
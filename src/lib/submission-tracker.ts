@@ -0,0 +1,312 @@
+import { Client } from 'xrpl';
+import { XRPLNetwork } from './networks';
+import { KeyValueStorage } from './payroll-runs';
+import { isRippledError } from './payments';
+
+const SUBMISSION_STORAGE_KEY = 'renmo_submissions';
+const POLL_INTERVAL_MS = 1000;
+// Settled submissions kept for reference; pending ones are never dropped
+const MAX_SETTLED = 200;
+// rippled searches at most this many ledgers past `min_ledger` per `tx` request
+const MAX_LEDGER_RANGE = 1000;
+
+// `pending` covers everything that may still validate: submitted, queued,
+// or never acknowledged because the connection dropped. `failed` and
+// `expired` are final and mean nothing was paid.
+export type SubmissionStatus = 'pending' | 'validated' | 'failed' | 'expired';
+
+// One signed transaction for one obligation, such as a salary payment. The
+// blob and hash are written before the blob is submitted, so a crash or a
+// dropped connection never leaves a transaction in flight that the app has
+// forgotten about.
+export interface Submission {
+  obligation: string;
+  account: string;
+  network: XRPLNetwork;
+  hash: string;
+  txBlob: string;
+  // The open ledger when the transaction was signed, the first it can be in
+  minLedger: number;
+  lastLedgerSequence: number;
+  status: SubmissionStatus;
+  resultCode?: string;
+  ledgerIndex?: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The state of a transaction on the ledger, as far as can be told right now
+export interface SubmissionResolution {
+  status: SubmissionStatus;
+  resultCode?: string;
+  ledgerIndex?: number;
+  error?: string;
+}
+
+// Thrown when an earlier transaction for the same obligation can still
+// validate. Signing another one could pay twice.
+export class SubmissionPendingError extends Error {
+  constructor(public submission: Submission) {
+    super(`An earlier transaction for this payment (${submission.hash}) has not settled yet. `
+      + `It validates or expires by ledger ${submission.lastLedgerSequence}; check again after that.`);
+    this.name = 'SubmissionPendingError';
+  }
+}
+
+// Thrown when the obligation was already paid by a validated transaction
+export class SubmissionSettledError extends Error {
+  constructor(public submission: Submission) {
+    super(`This payment was already made in transaction ${submission.hash} (ledger ${submission.ledgerIndex}).`);
+    this.name = 'SubmissionSettledError';
+  }
+}
+
+// Thrown when waiting stopped before the outcome was known, e.g. on a
+// timeout or disconnect. The transaction may still validate.
+export class SubmissionUnknownError extends Error {
+  constructor(public submission: Submission) {
+    super(`The outcome of transaction ${submission.hash} is not known yet. `
+      + `It is tracked and will not be sent again while it can still validate (until ledger ${submission.lastLedgerSequence}).`);
+    this.name = 'SubmissionUnknownError';
+  }
+}
+
+export class SubmissionStore {
+  private storage: KeyValueStorage | null;
+
+  constructor(storage?: KeyValueStorage) {
+    this.storage = storage || (typeof window !== 'undefined' ? window.localStorage : null);
+  }
+
+  list(): Submission[] {
+    if (!this.storage) {
+      return [];
+    }
+    try {
+      return JSON.parse(this.storage.getItem(SUBMISSION_STORAGE_KEY) || '[]');
+    } catch (error) {
+      console.error('Error loading submissions from storage:', error);
+      return [];
+    }
+  }
+
+  // The latest submission for an obligation
+  get(obligation: string): Submission | null {
+    return this.list().find(submission => submission.obligation === obligation) || null;
+  }
+
+  getPending(network: XRPLNetwork): Submission[] {
+    return this.list().filter(submission => submission.status === 'pending' && submission.network === network);
+  }
+
+  save(submission: Submission) {
+    if (!this.storage) {
+      return;
+    }
+    submission.updatedAt = new Date().toISOString();
+    const others = this.list().filter(s => s.hash !== submission.hash);
+    const pending = others.filter(s => s.status === 'pending');
+    const settled = others.filter(s => s.status !== 'pending').slice(0, MAX_SETTLED);
+    this.storage.setItem(SUBMISSION_STORAGE_KEY, JSON.stringify([submission, ...pending, ...settled]));
+  }
+}
+
+function searchedAll(error: unknown): boolean {
+  const data = (error as { data?: { searched_all?: boolean } }).data;
+  return data?.searched_all === true;
+}
+
+// Whether a server holding every ledger from `minLedger` to `maxLedger`
+// confirms `hash` is in none of them. Longer windows are searched in parts.
+// Anything short of that, a gap in the server's history included, is no.
+async function isMissingFromLedgers(client: Client, hash: string, minLedger: number, maxLedger: number): Promise<boolean> {
+  for (let max = maxLedger; max >= minLedger; max -= MAX_LEDGER_RANGE + 1) {
+    try {
+      await client.request({
+        command: 'tx',
+        transaction: hash,
+        min_ledger: Math.max(minLedger, max - MAX_LEDGER_RANGE),
+        max_ledger: max,
+      });
+      return false;
+    } catch (error) {
+      if (!isRippledError(error, 'txnNotFound')) {
+        console.error('Error searching ledgers for transaction:', error);
+        return false;
+      }
+      if (!searchedAll(error)) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+// Looks a transaction up by hash. `validatedLedger` must be read before the
+// lookup. Only once it is past `lastLedgerSequence`, and a server with the
+// full history of the window from `minLedger` reports the hash in none of its
+// ledgers, is the transaction expired. Lookup errors leave it pending.
+export async function resolveSubmission(
+  client: Client,
+  hash: string,
+  lastLedgerSequence: number | undefined,
+  validatedLedger: number,
+  minLedger: number
+): Promise<SubmissionResolution> {
+  try {
+    const response = await client.request({ command: 'tx', transaction: hash });
+    if (response.result.validated) {
+      const meta = response.result.meta;
+      const resultCode = typeof meta === 'object' ? meta.TransactionResult : undefined;
+      return resultCode === 'tesSUCCESS'
+        ? { status: 'validated', resultCode, ledgerIndex: response.result.ledger_index }
+        : { status: 'failed', resultCode, ledgerIndex: response.result.ledger_index, error: `Transaction failed: ${resultCode}` };
+    }
+  } catch (error) {
+    if (!isRippledError(error, 'txnNotFound')) {
+      console.error('Error looking up transaction:', error);
+      return { status: 'pending' };
+    }
+  }
+
+  if (lastLedgerSequence === undefined || validatedLedger <= lastLedgerSequence) {
+    return { status: 'pending' };
+  }
+  if (await isMissingFromLedgers(client, hash, Math.max(1, minLedger), lastLedgerSequence)) {
+    return { status: 'expired', error: 'Transaction expired before it was validated' };
+  }
+  return { status: 'pending' };
+}
+
+export interface TrackedTransaction {
+  hash: string;
+  txBlob: string;
+  minLedger: number;
+  lastLedgerSequence: number;
+}
+
+// Submits signed transactions so that every one is accounted for. Each is
+// recorded under its obligation before it reaches the network, and a new one
+// is refused while an earlier one for the same obligation can still validate.
+export class SubmissionTracker {
+  constructor(
+    private client: Client,
+    private store: SubmissionStore = new SubmissionStore()
+  ) {}
+
+  // Settles any earlier submission for `obligation` and throws unless it is
+  // safe to sign a new transaction for it
+  async assertCanSubmit(obligation: string): Promise<void> {
+    const previous = this.store.get(obligation);
+    if (!previous) {
+      return;
+    }
+    const current = previous.status === 'pending' ? await this.refresh(previous) : previous;
+    if (current.status === 'pending') {
+      throw new SubmissionPendingError(current);
+    }
+    if (current.status === 'validated') {
+      throw new SubmissionSettledError(current);
+    }
+  }
+
+  // Records, submits and waits for the transaction to settle, which it does
+  // by LastLedgerSequence at the latest; `timeoutMs` only matters when the
+  // ledger cannot be reached. Resolves with the validated submission, throws
+  // if it definitely failed, or SubmissionUnknownError if it is still open.
+  async submit(
+    obligation: string,
+    account: string,
+    network: XRPLNetwork,
+    tx: TrackedTransaction,
+    timeoutMs: number = 120_000
+  ): Promise<Submission> {
+    await this.assertCanSubmit(obligation);
+
+    const now = new Date().toISOString();
+    const submission: Submission = {
+      obligation,
+      account,
+      network,
+      hash: tx.hash,
+      txBlob: tx.txBlob,
+      minLedger: tx.minLedger,
+      lastLedgerSequence: tx.lastLedgerSequence,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.store.save(submission);
+
+    try {
+      const response = await this.client.submit(tx.txBlob);
+      submission.resultCode = response.result.engine_result;
+      // Malformed transactions can never be applied; every other result is
+      // provisional until the hash shows up in a validated ledger
+      if (submission.resultCode.startsWith('tem')) {
+        submission.status = 'failed';
+        submission.error = response.result.engine_result_message;
+        this.store.save(submission);
+      }
+    } catch (error) {
+      // The blob may or may not have reached the network
+      console.error('Error submitting transaction:', error);
+    }
+
+    const settled = submission.status === 'pending' ? await this.wait(submission, timeoutMs) : submission;
+    switch (settled.status) {
+      case 'validated':
+        return settled;
+      case 'pending':
+        throw new SubmissionUnknownError(settled);
+      default:
+        throw new Error(settled.error || `Transaction ${settled.status}`);
+    }
+  }
+
+  // Checks a pending submission once against the ledger
+  async refresh(submission: Submission): Promise<Submission> {
+    let validatedLedger: number;
+    try {
+      validatedLedger = await this.client.getLedgerIndex();
+    } catch (error) {
+      console.error('Error reading the validated ledger:', error);
+      return submission;
+    }
+
+    const resolution = await resolveSubmission(
+      this.client,
+      submission.hash,
+      submission.lastLedgerSequence,
+      validatedLedger,
+      submission.minLedger
+    );
+    if (resolution.status === 'pending') {
+      return submission;
+    }
+    const updated = { ...submission, ...resolution };
+    this.store.save(updated);
+    return updated;
+  }
+
+  // Settles every pending submission that can be settled now, e.g. after
+  // reconnecting. Returns them all in their current state.
+  async reconcile(network: XRPLNetwork): Promise<Submission[]> {
+    const results: Submission[] = [];
+    for (const submission of this.store.getPending(network)) {
+      results.push(await this.refresh(submission));
+    }
+    return results;
+  }
+
+  private async wait(submission: Submission, timeoutMs: number): Promise<Submission> {
+    const deadline = Date.now() + timeoutMs;
+    let current = submission;
+    while (current.status === 'pending' && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+      current = await this.refresh(current);
+    }
+    return current;
+  }
+}
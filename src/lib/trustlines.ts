@@ -0,0 +1,112 @@
+import { Client, Wallet, TrustSet } from 'xrpl';
+import { PaymentAmount, encodeCurrencyCode, isXRP } from './currency';
+
+// Default limit offered when an employee opens a trust line for salary.
+export const DEFAULT_TRUST_LIMIT = '1000000';
+
+export type TrustLineState = 'none' | 'limit_too_low' | 'frozen' | 'ok';
+
+export interface TrustLineStatus {
+  state: TrustLineState;
+  currency: string;
+  issuer: string;
+  limit?: string;
+  balance?: string;
+}
+
+export const TRUST_LINE_LABELS: Record<TrustLineState, string> = {
+  none: 'No trust line',
+  limit_too_low: 'Limit too low',
+  frozen: 'Frozen',
+  ok: 'Trust line OK',
+};
+
+// Reads the account's side of its trust line to the issuer. When `required`
+// is given the line must also have that much room left under its limit.
+export async function getTrustLineStatus(
+  client: Client,
+  account: string,
+  currency: Pick<PaymentAmount, 'currency' | 'issuer'>,
+  required?: string
+): Promise<TrustLineStatus> {
+  if (!currency.issuer) {
+    throw new Error(`No issuer configured for ${currency.currency}`);
+  }
+
+  const response = await client.request({
+    command: 'account_lines',
+    account,
+    peer: currency.issuer,
+    ledger_index: 'validated',
+  });
+
+  const code = encodeCurrencyCode(currency.currency);
+  const line = response.result.lines.find(l => encodeCurrencyCode(l.currency) === code);
+  const status: TrustLineStatus = {
+    state: 'none',
+    currency: currency.currency,
+    issuer: currency.issuer,
+  };
+
+  if (!line) {
+    return status;
+  }
+
+  status.limit = line.limit;
+  status.balance = line.balance;
+
+  if (line.freeze || line.freeze_peer) {
+    status.state = 'frozen';
+  } else if (Number(line.limit) - Number(line.balance) < Number(required || 0) || Number(line.limit) <= 0) {
+    status.state = 'limit_too_low';
+  } else {
+    status.state = 'ok';
+  }
+
+  return status;
+}
+
+// Before an issued-currency payment can succeed the destination must hold a
+// trust line to the issuer with enough room left under its limit.
+export async function assertTrustLine(client: Client, destination: string, amount: PaymentAmount): Promise<void> {
+  if (isXRP(amount)) {
+    return;
+  }
+
+  const status = await getTrustLineStatus(client, destination, amount, amount.value);
+  switch (status.state) {
+    case 'none':
+      throw new Error(`Destination has no ${amount.currency} trust line to ${amount.issuer}`);
+    case 'frozen':
+      throw new Error(`Destination ${amount.currency} trust line is frozen`);
+    case 'limit_too_low':
+      throw new Error(
+        `Destination ${amount.currency} trust line limit is too low (limit ${status.limit}, balance ${status.balance}, need ${amount.value})`
+      );
+  }
+}
+
+export async function createTrustLine(
+  client: Client,
+  wallet: Wallet,
+  currency: Pick<PaymentAmount, 'currency' | 'issuer'>,
+  limit: string = DEFAULT_TRUST_LIMIT
+) {
+  if (!currency.issuer) {
+    throw new Error(`No issuer configured for ${currency.currency}`);
+  }
+
+  const trustSet: TrustSet = {
+    TransactionType: 'TrustSet',
+    Account: wallet.address,
+    LimitAmount: {
+      currency: encodeCurrencyCode(currency.currency),
+      issuer: currency.issuer,
+      value: limit,
+    },
+  };
+
+  const prepared = await client.autofill(trustSet);
+  const signed = wallet.sign(prepared);
+  return client.submitAndWait(signed.tx_blob);
+}
@@ -0,0 +1,304 @@
+const VAULT_STORAGE_KEY = 'renmo_vault';
+const LEGACY_WALLET_STORAGE_KEY = 'renmo_wallets';
+const PBKDF2_ITERATIONS = 310000;
+const AUTO_LOCK_MS = 15 * 60 * 1000;
+const CHECK_PLAINTEXT = 'renmo-vault';
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'scroll'];
+
+export interface Ciphertext {
+  iv: string;
+  data: string;
+}
+
+interface VaultEntry {
+  address: string;
+  name?: string;
+  seed: Ciphertext;
+}
+
+interface VaultFile {
+  version: 1;
+  salt: string;
+  iterations: number;
+  check: Ciphertext;
+  entries: VaultEntry[];
+}
+
+export interface VaultWallet {
+  address: string;
+  name?: string;
+}
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('The wallet vault is locked. Unlock it with your passphrase first.');
+    this.name = 'VaultLockedError';
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Seeds are encrypted with AES-GCM under a key derived from the passphrase
+// with PBKDF2. Only addresses and names are readable while locked; decrypted
+// seeds live in memory for the unlocked session and are wiped on lock.
+export class SeedVault {
+  private static instance: SeedVault;
+  private key: CryptoKey | null = null;
+  private seeds = new Map<string, string>();
+  private lockTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<(locked: boolean) => void>();
+
+  private constructor() {
+    this.touch = this.touch.bind(this);
+  }
+
+  static getInstance(): SeedVault {
+    if (!SeedVault.instance) {
+      SeedVault.instance = new SeedVault();
+    }
+    return SeedVault.instance;
+  }
+
+  private read(): VaultFile | null {
+    if (typeof window === 'undefined') {
+      return null;
+    }
+    const stored = localStorage.getItem(VAULT_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  private write(vault: VaultFile) {
+    localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(vault));
+  }
+
+  private async encrypt(plaintext: string, address: string): Promise<Ciphertext> {
+    if (!this.key) {
+      throw new VaultLockedError();
+    }
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(address) },
+      this.key,
+      new TextEncoder().encode(plaintext)
+    );
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+  }
+
+  private async decrypt(ciphertext: Ciphertext, address: string, key: CryptoKey): Promise<string> {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(ciphertext.iv), additionalData: new TextEncoder().encode(address) },
+      key,
+      fromBase64(ciphertext.data)
+    );
+    return new TextDecoder().decode(plaintext);
+  }
+
+  private static async deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      baseKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  isInitialized(): boolean {
+    return this.read() !== null;
+  }
+
+  isLocked(): boolean {
+    return this.key === null;
+  }
+
+  listWallets(): VaultWallet[] {
+    return (this.read()?.entries || []).map(({ address, name }) => ({ address, name }));
+  }
+
+  // Creates the vault on first use. Seeds left in plaintext by older
+  // versions under `renmo_wallets` are encrypted and then deleted.
+  async unlock(passphrase: string): Promise<void> {
+    if (!passphrase) {
+      throw new Error('Passphrase is required');
+    }
+
+    let vault = this.read();
+    let key: CryptoKey;
+
+    if (!vault) {
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      key = await SeedVault.deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+      this.key = key;
+      vault = {
+        version: 1,
+        salt: toBase64(salt),
+        iterations: PBKDF2_ITERATIONS,
+        check: await this.encrypt(CHECK_PLAINTEXT, ''),
+        entries: [],
+      };
+      this.write(vault);
+    } else {
+      key = await SeedVault.deriveKey(passphrase, fromBase64(vault.salt), vault.iterations);
+      try {
+        await this.decrypt(vault.check, '', key);
+      } catch {
+        throw new Error('Incorrect passphrase');
+      }
+    }
+
+    const seeds = new Map<string, string>();
+    for (const entry of vault.entries) {
+      seeds.set(entry.address, await this.decrypt(entry.seed, entry.address, key));
+    }
+
+    this.key = key;
+    this.seeds = seeds;
+    await this.migrateLegacyWallets();
+
+    this.startAutoLock();
+    this.notify();
+  }
+
+  lock() {
+    this.key = null;
+    this.seeds.clear();
+    this.stopAutoLock();
+    this.notify();
+  }
+
+  getSeed(address: string): string | null {
+    if (this.isLocked()) {
+      throw new VaultLockedError();
+    }
+    this.touch();
+    return this.seeds.get(address) || null;
+  }
+
+  async putSeed(address: string, seed: string, name?: string): Promise<void> {
+    const vault = this.read();
+    if (!vault || this.isLocked()) {
+      throw new VaultLockedError();
+    }
+
+    const entry: VaultEntry = { address, name, seed: await this.encrypt(seed, address) };
+    vault.entries = vault.entries.filter(e => e.address !== address).concat(entry);
+    this.write(vault);
+    this.seeds.set(address, seed);
+    this.touch();
+    this.notify();
+  }
+
+  removeSeed(address: string) {
+    const vault = this.read();
+    if (!vault) {
+      return;
+    }
+    vault.entries = vault.entries.filter(e => e.address !== address);
+    this.write(vault);
+    this.seeds.delete(address);
+    this.notify();
+  }
+
+  // Encrypts a secret kept outside the vault, such as an escrow fulfillment,
+  // under the vault key. `label` binds the ciphertext to what it belongs to
+  // and must be given again to decrypt it.
+  async encryptSecret(secret: string, label: string): Promise<Ciphertext> {
+    if (this.isLocked()) {
+      throw new VaultLockedError();
+    }
+    this.touch();
+    return this.encrypt(secret, label);
+  }
+
+  async decryptSecret(ciphertext: Ciphertext, label: string): Promise<string> {
+    if (!this.key) {
+      throw new VaultLockedError();
+    }
+    this.touch();
+    return this.decrypt(ciphertext, label, this.key);
+  }
+
+  subscribe(listener: (locked: boolean) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Resets the inactivity timer. Called on user activity and on every use of
+  // a seed, so the vault only locks when nobody is working with it.
+  touch() {
+    if (this.isLocked() || typeof window === 'undefined') {
+      return;
+    }
+    if (this.lockTimer) {
+      clearTimeout(this.lockTimer);
+    }
+    this.lockTimer = setTimeout(() => this.lock(), AUTO_LOCK_MS);
+  }
+
+  private startAutoLock() {
+    if (typeof window === 'undefined') {
+      return;
+    }
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, this.touch, { passive: true }));
+    this.touch();
+  }
+
+  private stopAutoLock() {
+    if (this.lockTimer) {
+      clearTimeout(this.lockTimer);
+      this.lockTimer = null;
+    }
+    if (typeof window !== 'undefined') {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, this.touch));
+    }
+  }
+
+  private notify() {
+    const locked = this.isLocked();
+    this.listeners.forEach(listener => listener(locked));
+  }
+
+  private async migrateLegacyWallets() {
+    const stored = localStorage.getItem(LEGACY_WALLET_STORAGE_KEY);
+    if (!stored) {
+      return;
+    }
+
+    try {
+      const legacy: { address: string; seed?: string; name?: string }[] = JSON.parse(stored);
+      for (const wallet of legacy) {
+        if (wallet.seed && !this.seeds.has(wallet.address)) {
+          await this.putSeed(wallet.address, wallet.seed, wallet.name);
+        }
+      }
+      localStorage.removeItem(LEGACY_WALLET_STORAGE_KEY);
+      console.log(`Migrated ${legacy.length} wallet(s) into the encrypted vault`);
+    } catch (error) {
+      console.error('Error migrating legacy wallets into the vault:', error);
+    }
+  }
+}
@@ -1,117 +1,318 @@
-import { Client, Wallet, Payment } from 'xrpl';
+import { Client, Wallet, dropsToXrp } from 'xrpl';
 import { PinataService } from './pinata';
+import { AccountMetadata, MetadataStore, getMetadataStore, updateMetadata } from './metadata-store';
+import { PaymentAmount, formatAmount, getDeliveredAmount, rlusd } from './currency';
+import { TransactionPage, toTransactionRecord } from './history';
+import { assertDestinationTag, signPayment } from './payments';
+import { Submission, SubmissionStore, SubmissionTracker, SubmissionUnknownError } from './submission-tracker';
+import { encodePayrollMemo } from './memos';
+import { IssuedPayslip, Payslip, PayslipDeduction, createPayslip } from './payslips';
+import { PayPeriod, getPayPeriod, toCalendarDate } from './schedules';
+import { PayrollRun, PayrollRunStore, executePayrollRun, getPaidPeriods, validatePayrollRun } from './payroll-runs';
+import {
+  PaymentProposal,
+  ProposalStore,
+  SignerListConfig,
+  closeRejectedRun,
+  createProposal,
+  getSignerList,
+  isProposalDefeated,
+  mergeProposal,
+  rejectProposal,
+  setSignerList,
+  signProposal,
+  submitProposal,
+  validateProposalTransactions,
+  verifyProposalRejection,
+  verifyProposalSignature,
+} from './multisig';
+import { assertTrustLine, createTrustLine, getTrustLineStatus, DEFAULT_TRUST_LIMIT } from './trustlines';
+import { SeedVault, VaultWallet, VaultLockedError } from './vault';
+import { AccountKeys, assertCanSign, getAccountKeys, getSigningKeyKind, setMasterKeyDisabled, setRegularKey, walletForAccount } from './account-keys';
+import { onboardEmployee, removeEmployeeSeeds, resolveAddress, resolveDestination } from './employees';
+import { FiatCurrency, FxRate, getBookRate } from './fx';
+import { PaymentProjection, assertAffordable, getAccountFunds, getReserves, projectPayments } from './preflight';
+import {
+  EscrowEntry,
+  EscrowParams,
+  EscrowRecord,
+  EscrowStore,
+  cancelEscrow,
+  finishEscrow,
+  fulfillmentLabel,
+  generateCondition,
+  getEscrowedTotal,
+  getEscrows,
+  signEscrow,
+} from './escrows';
+import {
+  ChannelClaim,
+  ChannelEntry,
+  ChannelParams,
+  ChannelRecord,
+  ChannelStore,
+  approveHours,
+  closeChannel,
+  getApprovedTotal,
+  getChannels,
+  openChannel,
+  redeemClaim,
+  verifyClaim,
+} from './channels';
+import { CheckRecord, CheckStore, cancelCheck, defaultCheckExpiration, reconcileChecks, signCheck } from './checks';
+import { XRPLNetwork, assertFaucet, getNetwork, getSavedNetwork, saveNetwork } from './networks';
 
-const TESTNET_URL = 'wss://s.altnet.rippletest.net:51233';
-const WALLET_STORAGE_KEY = 'renmo_wallets';
+export interface XRPLServiceOptions {
+  network?: XRPLNetwork;
+  // An already constructed client, e.g. a mock ledger or a standalone node
+  client?: Client;
+  // Builds the client for a network when the network is switched
+  createClient?: (network: XRPLNetwork) => Client;
+  // A wallet held outside the vault, such as a server-side signing seed
+  signer?: Wallet;
+  vault?: SeedVault;
+  pinata?: PinataService;
+  metadata?: MetadataStore;
+  runStore?: PayrollRunStore;
+  submissionStore?: SubmissionStore;
+  proposalStore?: ProposalStore;
+  escrowStore?: EscrowStore;
+  checkStore?: CheckStore;
+  channelStore?: ChannelStore;
+}
+
+export interface XRPLServiceState {
+  network: XRPLNetwork;
+  isConnected: boolean;
+  walletAddress: string | null;
+  wallets: VaultWallet[];
+  isVaultLocked: boolean;
+  isVaultInitialized: boolean;
+}
+
+// The destination tag and payslip fields default to the employee's
+// metadata; gross defaults to the amount paid.
+export interface SendPaymentOptions {
+  // Defaults to the tag in the employee's metadata or the X-address
+  destinationTag?: number;
+  employeeName?: string;
+  period?: PayPeriod;
+  gross?: string;
+  deductions?: PayslipDeduction[];
+  // What the payment settles. Sending again with the same id is refused
+  // while the first transaction can still validate, and once it has.
+  // Defaults to a new id, which makes every call a separate payment.
+  obligation?: string;
+}
+
+// XRP amounts. `available` is what can be sent without touching the
+// reserve; `escrowed` has left the balance but is not released yet.
+export interface AccountBalance {
+  xrp: string;
+  available: string;
+  escrowed: string;
+}
 
-interface StoredWallet {
-  seed: string;
-  address: string;
-  name?: string;
+// Settings for a check written in place of a one-off payment. The
+// expiration defaults to DEFAULT_CHECK_EXPIRY_DAYS from now.
+export interface SendCheckOptions extends SendPaymentOptions {
+  expiration?: Date;
 }
 
+export interface SentPayment {
+  hash: string;
+  resultCode: string;
+  amount: PaymentAmount;
+  payslip: IssuedPayslip;
+}
+
+export interface SentCheck {
+  check: CheckRecord;
+  payslip: IssuedPayslip;
+}
+
+const defaultClient = (network: XRPLNetwork) => new Client(getNetwork(network).url);
+
+// Ledgers a one-off payment has to validate in before it expires
+const LEDGER_WINDOW = 20;
+
+// The one ledger layer of the app. The dashboard reaches it through the
+// XRPL context and server routes construct their own instance around an
+// injected client and signer. Methods throw on failure; adapters decide how
+// errors are presented.
 export class XRPLService {
+  private static instance: XRPLService;
   private client: Client;
-  private wallet: Wallet | null = null;
+  private createClient: (network: XRPLNetwork) => Client;
+  private network: XRPLNetwork;
+  private walletAddress: string | null = null;
+  private signer: Wallet | null;
   private isConnected: boolean = false;
-  private wallets: StoredWallet[] = [];
+  private wallets: VaultWallet[] = [];
   private pinataService: PinataService;
+  private metadata?: MetadataStore;
+  private vault: SeedVault;
+  private runStore: PayrollRunStore;
+  private submissionStore: SubmissionStore;
+  private proposalStore: ProposalStore;
+  private escrowStore: EscrowStore;
+  private checkStore: CheckStore;
+  private channelStore: ChannelStore;
+  private listeners = new Set<(state: XRPLServiceState) => void>();
 
-  constructor() {
-    this.client = new Client(TESTNET_URL);
-    this.pinataService = PinataService.getInstance();
+  constructor(options: XRPLServiceOptions = {}) {
+    this.network = options.network || getSavedNetwork();
+    this.createClient = options.createClient || defaultClient;
+    this.client = options.client || this.createClient(this.network);
+    this.signer = options.signer || null;
+    this.pinataService = options.pinata || PinataService.getInstance();
+    this.metadata = options.metadata;
+    this.vault = options.vault || SeedVault.getInstance();
+    this.runStore = options.runStore || new PayrollRunStore();
+    this.submissionStore = options.submissionStore || new SubmissionStore();
+    this.proposalStore = options.proposalStore || new ProposalStore();
+    this.escrowStore = options.escrowStore || new EscrowStore();
+    this.checkStore = options.checkStore || new CheckStore();
+    this.channelStore = options.channelStore || new ChannelStore();
+    this.walletAddress = this.signer?.address || null;
     this.loadWallets();
-    this.autoConnect();
+
+    // Seeds only become available once the vault is unlocked
+    this.vault.subscribe(() => this.loadWallets());
   }
 
-  private async autoConnect() {
-    try {
-      await this.connect();
-      if (this.wallets.length > 0) {
-        this.wallet = Wallet.fromSeed(this.wallets[0].seed);
-        await this.getBalance();
-      }
-    } catch (error) {
-      console.error('Error in auto-connect:', error);
+  // Looked up on first use: the service is also built during server
+  // rendering, where the `local` store cannot be created
+  private get metadataStore(): MetadataStore {
+    return this.metadata || getMetadataStore();
+  }
+
+  static getInstance(): XRPLService {
+    if (!XRPLService.instance) {
+      XRPLService.instance = new XRPLService();
     }
+    return XRPLService.instance;
+  }
+
+  getState(): XRPLServiceState {
+    return {
+      network: this.network,
+      isConnected: this.isConnected,
+      walletAddress: this.walletAddress,
+      wallets: this.wallets,
+      isVaultLocked: this.vault.isLocked(),
+      isVaultInitialized: this.vault.isInitialized(),
+    };
+  }
+
+  subscribe(listener: (state: XRPLServiceState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
   }
 
   private async loadWallets() {
-    if (typeof window !== 'undefined') {
-      const storedWallets = localStorage.getItem(WALLET_STORAGE_KEY);
-      if (storedWallets) {
-        try {
-          this.wallets = JSON.parse(storedWallets);
-          if (this.wallets.length > 0) {
-            this.wallet = Wallet.fromSeed(this.wallets[0].seed);
-            // Load metadata for all wallets
-            await Promise.all(this.wallets.map(async (wallet) => {
-              const metadata = await this.pinataService.getAccountMetadata(wallet.address);
-              if (metadata) {
-                wallet.name = metadata.name;
-              }
-            }));
-          }
-        } catch (error) {
-          console.error('Error loading wallets from storage:', error);
-          localStorage.removeItem(WALLET_STORAGE_KEY);
+    this.wallets = this.vault.listWallets();
+    if (!this.walletAddress && this.wallets.length > 0) {
+      this.walletAddress = this.wallets[0].address;
+    }
+    this.notify();
+
+    try {
+      // Load metadata for all wallets
+      await Promise.all(this.wallets.map(async (wallet) => {
+        const metadata = await this.metadataStore.get(wallet.address);
+        if (metadata) {
+          wallet.name = metadata.name;
         }
-      }
+      }));
+      this.wallets = [...this.wallets];
+      this.notify();
+    } catch (error) {
+      console.error('Error loading wallet metadata:', error);
     }
   }
 
-  private saveWallets() {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(WALLET_STORAGE_KEY, JSON.stringify(this.wallets));
+  private signingWallet(address: string | null = this.walletAddress): Wallet {
+    if (!address) {
+      throw new Error('No wallet connected');
+    }
+    if (this.signer?.address === address) {
+      return this.signer;
     }
+    const seed = this.getSecretKey(address);
+    if (!seed) {
+      throw new Error('Wallet seed not found');
+    }
+    return walletForAccount(address, seed);
+  }
+
+  private async ensureConnected() {
+    if (!this.isConnected) {
+      await this.connect();
+    }
+  }
+
+  async unlockVault(passphrase: string) {
+    await this.vault.unlock(passphrase);
+  }
+
+  lockVault() {
+    this.vault.lock();
   }
 
   getWallets() {
     return this.wallets;
   }
 
+  getWalletAddress() {
+    return this.walletAddress;
+  }
+
   async switchWallet(address: string) {
     const walletData = this.wallets.find(w => w.address === address);
     if (!walletData) {
       throw new Error('Wallet not found');
     }
-    
-    this.wallet = Wallet.fromSeed(walletData.seed);
-    if (!this.isConnected) {
-      await this.connect();
-    }
 
-    // Update last used timestamp in metadata
-    await this.pinataService.updateAccountMetadata(address, {
-      lastUsed: new Date().toISOString()
-    });
+    this.walletAddress = address;
+    this.notify();
 
-    await this.getBalance();
+    // Update last used timestamp in metadata, if the account has any
+    try {
+      if (await this.metadataStore.get(address)) {
+        await updateMetadata(this.metadataStore, address, {
+          lastUsed: new Date().toISOString()
+        });
+      }
+    } catch (error) {
+      console.error('Error updating last used timestamp:', error);
+    }
   }
 
-  async addWallet(name?: string, secretKey?: string): Promise<StoredWallet> {
-    if (!this.isConnected) {
-      await this.connect();
+  // Company wallets live only in the vault. They are kept out of the metadata store so
+  // they never appear on the employee roster.
+  async addWallet(name?: string, secretKey?: string): Promise<VaultWallet> {
+    if (this.vault.isLocked()) {
+      throw new VaultLockedError();
     }
 
     let newWallet: Wallet;
     if (secretKey) {
       try {
         newWallet = Wallet.fromSeed(secretKey);
-        if (!newWallet.address) {
-          throw new Error('Invalid wallet address generated from secret key');
-        }
-        // Check if wallet already exists
-        const existingWallet = this.wallets.find(w => w.address === newWallet.address);
-        if (existingWallet) {
-          throw new Error('This account is already imported');
-        }
-      } catch (error) {
-        if (error instanceof Error && error.message === 'This account is already imported') {
-          throw error;
-        }
+      } catch {
         throw new Error('Invalid secret key');
       }
+      if (this.wallets.some(w => w.address === newWallet.address)) {
+        throw new Error('This account is already imported');
+      }
     } else {
       newWallet = Wallet.generate();
       if (!newWallet.address || !newWallet.seed) {
@@ -119,57 +320,74 @@ export class XRPLService {
       }
     }
 
-    const walletData: StoredWallet = {
-      seed: (secretKey || newWallet.seed) as string,
-      address: newWallet.address as string,
+    const walletData: VaultWallet = {
+      address: newWallet.address,
       name: name || `Account ${this.wallets.length + 1}`
     };
 
-    console.log('Saving wallet metadata to Pinata:', walletData);
-    try {
-      await this.pinataService.saveAccountMetadata(walletData.address, {
-        name: walletData.name,
-        address: walletData.address,
-        createdAt: new Date().toISOString(),
-        lastUsed: new Date().toISOString()
-      });
-      console.log('Wallet metadata saved to Pinata successfully');
-    } catch (error) {
-      console.error('Error saving wallet metadata to Pinata:', error);
-      throw error;
-    }
-
-    this.wallets.push(walletData);
-    this.saveWallets();
-    this.wallet = newWallet;
+    await this.vault.putSeed(walletData.address, (secretKey || newWallet.seed) as string, walletData.name);
+    this.walletAddress = walletData.address;
+    this.notify();
 
-    // Only fund the wallet if it's newly generated
-    if (!secretKey) {
+    // Only fund the wallet if it's newly generated and a faucet exists
+    if (!secretKey && getNetwork(this.network).faucet) {
       console.log('Funding new wallet...');
-      await this.fundWallet();
+      await this.fundWallet(walletData.address);
       console.log('Waiting for funding to complete...');
-      await this.waitForFunding();
+      await this.waitForFunding(walletData.address);
     }
 
     return walletData;
   }
 
-  async removeWallet(address: string) {
-    const index = this.wallets.findIndex(w => w.address === address);
-    if (index === -1) {
-      throw new Error('Wallet not found');
+  async addEmployee(name: string, address: string, destinationTag?: number) {
+    await this.ensureConnected();
+
+    try {
+      return await onboardEmployee(this.client, this.metadataStore, name, address, destinationTag);
+    } catch (error) {
+      console.error('Error adding employee:', error);
+      throw error;
+    }
+  }
+
+  // Waits until the paying account is known so it is never removed
+  removeEmployeeSeeds(employeeAddresses: string[]): string[] {
+    if (!this.walletAddress) {
+      return [];
     }
+    return removeEmployeeSeeds(this.vault, employeeAddresses, this.walletAddress);
+  }
 
-    this.wallets.splice(index, 1);
-    this.saveWallets();
+  removeWallet(address: string) {
+    this.vault.removeSeed(address);
 
-    if (this.wallet?.address === address) {
-      this.wallet = this.wallets.length > 0 ? 
-        Wallet.fromSeed(this.wallets[0].seed) : 
-        null;
+    if (this.walletAddress === address) {
+      const next = this.vault.listWallets()[0];
+      this.walletAddress = next ? next.address : null;
+      this.notify();
     }
   }
 
+  getNetwork() {
+    return this.network;
+  }
+
+  // Balances, trust lines and issuers all differ between networks, so the
+  // connection is dropped and rebuilt rather than reused.
+  async setNetwork(network: XRPLNetwork) {
+    if (network === this.network) {
+      return;
+    }
+
+    await this.disconnect();
+    this.network = network;
+    this.client = this.createClient(network);
+    saveNetwork(network);
+    this.notify();
+    await this.connect();
+  }
+
   async connect() {
     if (this.isConnected) {
       return;
@@ -178,7 +396,8 @@ export class XRPLService {
     try {
       await this.client.connect();
       this.isConnected = true;
-      console.log('Connected to XRPL Testnet');
+      console.log(`Connected to XRPL ${getNetwork(this.network).label}`);
+      this.notify();
     } catch (error) {
       console.error('Error connecting to XRPL:', error);
       throw error;
@@ -190,7 +409,8 @@ export class XRPLService {
       if (this.isConnected) {
         await this.client.disconnect();
         this.isConnected = false;
-        console.log('Disconnected from XRPL Testnet');
+        console.log(`Disconnected from XRPL ${getNetwork(this.network).label}`);
+        this.notify();
       }
     } catch (error) {
       console.error('Error disconnecting from XRPL:', error);
@@ -198,19 +418,15 @@ export class XRPLService {
     }
   }
 
-  private async waitForFunding(maxAttempts = 20) {
-    if (!this.wallet) {
-      throw new Error('No wallet connected');
-    }
-
+  private async waitForFunding(address: string, maxAttempts = 20) {
     for (let i = 0; i < maxAttempts; i++) {
       try {
         const response = await this.client.request({
           command: 'account_info',
-          account: this.wallet.address,
+          account: address,
           ledger_index: 'validated',
         });
-        
+
         if (response.result.account_data.Balance) {
           console.log('Wallet funded successfully');
           return true;
@@ -223,132 +439,953 @@ export class XRPLService {
           throw error;
         }
       }
-      
+
       await new Promise(resolve => setTimeout(resolve, 3000)); // Wait time of 3 seconds
     }
-    
+
     throw new Error('Wallet funding timed out. Please try again in a few minutes.');
   }
 
-  async generateWallet() {
+  // Faucets only exist on test networks; on mainnet this always refuses
+  async fundWallet(address: string | null = this.walletAddress) {
+    assertFaucet(this.network);
+    const wallet = this.signingWallet(address);
+    await this.ensureConnected();
+
+    try {
+      const response = await this.client.fundWallet(wallet);
+      console.log('Funding request sent:', response);
+      return response;
+    } catch (error) {
+      console.error('Error funding wallet:', error);
+      throw error;
+    }
+  }
+
+  // Every payment carries a payslip. It is pinned before submitting so the
+  // transaction memo can reference its CID; if pinning fails nothing is sent.
+  async sendPayment(destination: string, amount: PaymentAmount, options: SendPaymentOptions = {}): Promise<SentPayment> {
+    const wallet = this.signingWallet();
+    await this.ensureConnected();
+    const tracker = new SubmissionTracker(this.client, this.submissionStore);
+    const obligation = options.obligation || crypto.randomUUID();
+
     try {
-      if (!this.isConnected) {
-        await this.connect();
+      await tracker.assertCanSubmit(obligation);
+      const employee = await this.findEmployee(resolveAddress(destination).address);
+      const { address, tag } = resolveDestination(destination, options.destinationTag ?? employee?.destinationTag);
+      await assertTrustLine(this.client, address, amount);
+      await assertDestinationTag(this.client, address, tag);
+
+      // Checked before the payslip is pinned so a payment that cannot be
+      // afforded leaves nothing behind
+      const projection = await projectPayments(this.client, wallet.address, [amount]);
+      assertAffordable(projection);
+
+      const payslip = this.preparePayslip(wallet.address, address, amount, options, employee);
+      const cid = await this.pinataService.pinPayslip(payslip);
+      const ledgerResponse = await this.client.request({
+        command: 'ledger_current',
+      });
+      const minLedger = ledgerResponse.result.ledger_current_index;
+      const lastLedgerSequence = minLedger + LEDGER_WINDOW;
+      const signed = await signPayment(this.client, wallet, address, amount, {
+        destinationTag: tag,
+        memos: [encodePayrollMemo({ period: payslip.period.id, employee: address, payslip: cid })],
+        fee: projection.fee.drops,
+        lastLedgerSequence,
+      });
+
+      // Waits out the LastLedgerSequence window; throws if the payment
+      // failed or its outcome is still unknown
+      const submission = await tracker.submit(obligation, wallet.address, this.network, {
+        hash: signed.hash,
+        txBlob: signed.txBlob,
+        minLedger,
+        lastLedgerSequence,
+      });
+      const result = await this.client.request({ command: 'tx', transaction: submission.hash });
+
+      const meta = result.result.meta;
+      const resultCode = typeof meta === 'object' ? meta.TransactionResult : 'unknown';
+      const hash = submission.hash;
+      return {
+        hash,
+        resultCode,
+        amount: getDeliveredAmount(meta, amount),
+        payslip: { ...payslip, cid, hash, ledgerIndex: submission.ledgerIndex ?? result.result.ledger_index ?? 0 },
+      };
+    } catch (error) {
+      console.error(`Error sending ${formatAmount(amount)} payment:`, error);
+      throw error;
+    }
+  }
+
+  // One-off payments on this network whose outcome is not known yet,
+  // settled against the ledger where possible
+  async reconcileSubmissions(): Promise<Submission[]> {
+    await this.ensureConnected();
+
+    try {
+      const tracker = new SubmissionTracker(this.client, this.submissionStore);
+      return (await tracker.reconcile(this.network)).filter(submission => submission.account === this.walletAddress);
+    } catch (error) {
+      console.error('Error reconciling submissions:', error);
+      throw error;
+    }
+  }
+
+  // Metadata supplies the destination tag and payslip defaults. A payment
+  // to someone off the roster, or while the store is unreachable, goes ahead
+  // without it.
+  private async findEmployee(address: string): Promise<AccountMetadata | null> {
+    try {
+      return await this.metadataStore.get(address);
+    } catch (error) {
+      console.error('Error loading employee metadata:', error);
+      return null;
+    }
+  }
+
+  private preparePayslip(
+    employer: string,
+    destination: string,
+    amount: PaymentAmount,
+    options: SendPaymentOptions,
+    metadata: AccountMetadata | null
+  ): Payslip {
+    // Off-schedule payments cover the day they are made
+    const today = toCalendarDate(new Date());
+    const period = options.period
+      || (metadata?.schedule && getPayPeriod(metadata.schedule, today))
+      || { id: `${today}/${today}`, start: today, end: today };
+
+    return createPayslip({
+      network: this.network,
+      employer,
+      employeeName: options.employeeName || metadata?.name || destination,
+      employeeAddress: destination,
+      period,
+      net: amount,
+      gross: options.gross,
+      deductions: options.deductions,
+    });
+  }
+
+  async validatePayrollRun(run: PayrollRun) {
+    await this.ensureConnected();
+
+    try {
+      return await validatePayrollRun(this.client, run);
+    } catch (error) {
+      console.error('Error validating payroll run:', error);
+      throw error;
+    }
+  }
+
+  // Employee/period pairs that must not be paid again: those paid on the
+  // ledger since `since`, from whichever device or server, and those still
+  // in flight in runs recorded here
+  async getCommittedPeriods(since: string, address: string | null = this.walletAddress): Promise<Set<string>> {
+    if (!address) {
+      throw new Error('No wallet connected');
+    }
+
+    await this.ensureConnected();
+
+    try {
+      const committed = await getPaidPeriods(this.client, address, since);
+      for (const key of this.runStore.getCommittedPeriods(this.network)) {
+        committed.add(key);
       }
+      return committed;
+    } catch (error) {
+      console.error('Error reading paid periods:', error);
+      throw error;
+    }
+  }
+
+  async runPayroll(run: PayrollRun, onUpdate?: (run: PayrollRun) => void) {
+    if (run.network !== this.network) {
+      throw new Error(`This run belongs to ${getNetwork(run.network).label}. Switch networks to continue it.`);
+    }
+
+    const wallet = this.signingWallet(run.account);
+    await this.ensureConnected();
+
+    try {
+      const result = await executePayrollRun(this.client, wallet, run, {
+        store: this.runStore,
+        onUpdate,
+      });
+      this.recordLineChecks(result);
+      return result;
+    } catch (error) {
+      console.error('Error executing payroll run:', error);
+      throw error;
+    }
+  }
+
+  async getAccountKeys(address: string | null = this.walletAddress): Promise<AccountKeys> {
+    if (!address) {
+      throw new Error('No wallet connected');
+    }
+
+    await this.ensureConnected();
+
+    try {
+      return await getAccountKeys(this.client, address);
+    } catch (error) {
+      console.error('Error loading account keys:', error);
+      throw error;
+    }
+  }
+
+  // Whether the vault holds the master or the regular key of `address`
+  getVaultKeyKind(address: string | null = this.walletAddress) {
+    return getSigningKeyKind(this.signingWallet(address));
+  }
+
+  // Replaces the regular key of the connected account with a new one and
+  // points the vault at it. `signer` defaults to the key in the vault; pass
+  // the master key to recover from a lost or compromised regular key.
+  async rotateRegularKey(signer?: Wallet): Promise<string> {
+    const account = this.walletAddress;
+    if (!account) {
+      throw new Error('No wallet connected');
+    }
+    const wallet = signer || this.signingWallet(account);
+    if (wallet.address !== account) {
+      throw new Error('This key does not belong to the connected account');
+    }
+    const name = this.wallets.find(w => w.address === account)?.name;
 
-      let wallet: Wallet;
-      let isNewWallet = false;
-      
-      if (this.wallet) {
-        wallet = this.wallet;
-      } else {
-        wallet = Wallet.generate();
-        this.wallet = wallet;
-        this.saveWallets();
-        isNewWallet = true;
+    await this.ensureConnected();
+
+    // Claims on a channel can only be signed by the key that opened it, and
+    // rotating removes that key from the vault. Recovery goes ahead anyway:
+    // the key it replaces is already lost or compromised.
+    if (!signer) {
+      const bound = (await getChannels(this.client, account))
+        .filter(channel => channel.publicKey.toUpperCase() === wallet.publicKey.toUpperCase());
+      if (bound.length > 0) {
+        throw new Error(`${bound.length} open payment channel(s) were opened with this key and need it to sign claims. `
+          + 'End those contracts before rotating the key.');
       }
+    }
 
-      // Fund the wallet if it's new
-      if (isNewWallet) {
-        console.log('Funding new wallet...');
-        await this.fundWallet();
-        console.log('Waiting for funding to complete...');
-        await this.waitForFunding();
+    // The new seed is stored under its own address before it goes on the
+    // ledger, so it survives a crash between the two
+    const next = Wallet.generate();
+    await this.vault.putSeed(next.classicAddress, next.seed as string, `Pending regular key for ${name || account}`);
+
+    try {
+      await setRegularKey(this.client, wallet, next.classicAddress);
+    } catch (error) {
+      console.error('Error setting regular key:', error);
+      // A timeout does not mean the key was not set
+      const keys = await getAccountKeys(this.client, account).catch(() => null);
+      if (keys?.regularKey !== next.classicAddress) {
+        if (keys) {
+          this.vault.removeSeed(next.classicAddress);
+        }
+        throw error;
       }
+    }
+
+    await this.vault.putSeed(account, next.seed as string, name);
+    this.vault.removeSeed(next.classicAddress);
+    return next.classicAddress;
+  }
+
+  // Recovery when the regular key is lost: the master seed signs a new
+  // regular key, which replaces whatever the vault held. Fails once the
+  // master key is disabled.
+  async recoverWithMasterKey(masterSeed: string): Promise<string> {
+    let master: Wallet;
+    try {
+      master = Wallet.fromSeed(masterSeed.trim());
+    } catch {
+      throw new Error('Invalid secret key');
+    }
+    return this.rotateRegularKey(master);
+  }
+
+  // Adds a backed-up key to the vault, e.g. on a new device. The key must be
+  // one the account accepts now: its regular key, or its enabled master key.
+  async importAccountKey(account: string, seed: string, name?: string) {
+    let wallet: Wallet;
+    try {
+      wallet = walletForAccount(account, seed.trim());
+    } catch {
+      throw new Error('Invalid secret key');
+    }
+
+    assertCanSign(await this.getAccountKeys(account), wallet);
+
+    await this.vault.putSeed(account, seed.trim(), name);
+    this.walletAddress = account;
+    this.notify();
+  }
 
-      return wallet;
+  async setMasterKeyDisabled(disabled: boolean) {
+    const wallet = this.signingWallet();
+    await this.ensureConnected();
+
+    try {
+      return await setMasterKeyDisabled(this.client, wallet, disabled);
     } catch (error) {
-      console.error('Error generating wallet:', error);
+      console.error('Error changing the master key:', error);
       throw error;
     }
   }
 
-  async fundWallet() {
-    if (!this.wallet) {
+  async getSignerList(address: string | null = this.walletAddress): Promise<SignerListConfig | null> {
+    if (!address) {
       throw new Error('No wallet connected');
     }
 
-    if (!this.isConnected) {
-      await this.connect();
+    await this.ensureConnected();
+
+    try {
+      return await getSignerList(this.client, address);
+    } catch (error) {
+      console.error('Error loading signer list:', error);
+      throw error;
     }
+  }
+
+  // Signed by the connected wallet's own key
+  async setSignerList(config: SignerListConfig) {
+    const wallet = this.signingWallet();
+    await this.ensureConnected();
 
     try {
-      const response = await this.client.fundWallet(this.wallet);
-      console.log('Funding request sent:', response);
-      return response;
+      const result = await setSignerList(this.client, wallet, config);
+      const meta = result.result.meta;
+      const resultCode = typeof meta === 'object' ? meta.TransactionResult : 'unknown';
+      if (resultCode !== 'tesSUCCESS') {
+        throw new Error(`SignerListSet failed: ${resultCode}`);
+      }
+      return result;
     } catch (error) {
-      console.error('Error funding wallet:', error);
+      console.error('Error setting signer list:', error);
       throw error;
     }
   }
 
-  async sendPayment(destination: string, amount: string): Promise<any> {
-    if (!this.wallet) {
-      throw new Error('No wallet connected');
+  // Every proposal on this network, including those imported for signing
+  // on behalf of other accounts
+  getProposals(): PaymentProposal[] {
+    return this.proposalStore.list().filter(proposal => proposal.network === this.network);
+  }
+
+  // Turns a run of a multi-signed account into a proposal for its approvers
+  async proposePayroll(run: PayrollRun): Promise<{ proposal: PaymentProposal; run: PayrollRun }> {
+    if (run.network !== this.network) {
+      throw new Error(`This run belongs to ${getNetwork(run.network).label}. Switch networks to continue it.`);
+    }
+    const collecting = this.proposalStore.getCollecting(run.account, this.network);
+    if (collecting) {
+      throw new Error('Another payroll proposal for this account is still collecting signatures. Submit or reject it first.');
     }
 
-    if (!this.isConnected) {
-      await this.connect();
+    const signerList = await this.getSignerList(run.account);
+    if (!signerList) {
+      throw new Error('This account has no signer list');
     }
 
     try {
-      // Convert amount to drops (1 XRP = 1,000,000 drops)
-      const amountInXRP = parseFloat(amount);
-      const drops = Math.floor(amountInXRP * 1000000).toString();
+      const created = await createProposal(this.client, run, signerList, this.network);
+      this.proposalStore.save(created.proposal);
+      this.runStore.save(created.run);
+      return created;
+    } catch (error) {
+      console.error('Error creating payroll proposal:', error);
+      throw error;
+    }
+  }
 
-      const payment: Payment = {
-        TransactionType: 'Payment',
-        Account: this.wallet.address,
-        Amount: drops,
-        Destination: destination,
-      };
+  private getProposal(id: string): { proposal: PaymentProposal; run: PayrollRun } {
+    const proposal = this.proposalStore.get(id);
+    const run = proposal && this.runStore.get(proposal.run);
+    if (!proposal || !run) {
+      throw new Error('Payroll proposal not found');
+    }
+    return { proposal, run };
+  }
 
-      // Get the current network fee
-      const feeResponse = await this.client.request({
-        command: 'fee'
+  // Signs with an approver's seed from the vault
+  approveProposal(id: string, approver: string): PaymentProposal {
+    const { proposal } = this.getProposal(id);
+    const signed = signProposal(proposal, this.signingWallet(approver));
+    this.proposalStore.save(signed);
+    return signed;
+  }
+
+  // Rejects with an approver's seed from the vault, which signs the rejection
+  rejectProposal(id: string, signer: string, reason?: string): PaymentProposal {
+    const { proposal, run } = this.getProposal(id);
+    const rejected = rejectProposal(proposal, this.signingWallet(signer), reason);
+    this.proposalStore.save(rejected);
+    if (rejected.status === 'rejected') {
+      this.runStore.save(closeRejectedRun(run));
+    }
+    return rejected;
+  }
+
+  // Submits once quorum is reached, or resumes an interrupted submission
+  async submitProposal(id: string, onUpdate?: (run: PayrollRun) => void) {
+    const { proposal, run } = this.getProposal(id);
+    if (proposal.network !== this.network) {
+      throw new Error(`This proposal belongs to ${getNetwork(proposal.network).label}. Switch networks to submit it.`);
+    }
+
+    await this.ensureConnected();
+
+    try {
+      const result = await submitProposal(this.client, proposal, run, {
+        runStore: this.runStore,
+        proposalStore: this.proposalStore,
+        onUpdate,
       });
-      const fee = feeResponse.result.drops.base_fee || '10'; // Default to 10 drops if not available
-      
-      const ledgerResponse = await this.client.request({
-        command: 'ledger_current',
+      this.recordLineChecks(result.run);
+      return result;
+    } catch (error) {
+      console.error('Error submitting payroll proposal:', error);
+      throw error;
+    }
+  }
+
+  // A proposal and its run as JSON, for approvers signing on another device
+  exportProposal(id: string): string {
+    return JSON.stringify(this.getProposal(id), null, 2);
+  }
+
+  // Adds a proposal exported elsewhere, or merges its signatures into the
+  // local copy. Signatures and rejections that do not verify are dropped, and
+  // a new proposal whose payments differ from its run is refused.
+  importProposal(json: string): PaymentProposal {
+    let bundle: { proposal: PaymentProposal; run: PayrollRun };
+    try {
+      bundle = JSON.parse(json);
+    } catch {
+      throw new Error('Not a payroll proposal file');
+    }
+    if (!bundle?.proposal?.id || !bundle.run?.id || bundle.proposal.run !== bundle.run.id) {
+      throw new Error('Not a payroll proposal file');
+    }
+
+    const local = this.proposalStore.get(bundle.proposal.id);
+    if (local) {
+      const merged = mergeProposal(local, bundle.proposal);
+      this.proposalStore.save(merged);
+      if (merged.status === 'rejected' && local.status !== 'rejected') {
+        this.runStore.save(closeRejectedRun(this.getProposal(merged.id).run));
+      }
+      return merged;
+    }
+
+    const problems = validateProposalTransactions(bundle.proposal, bundle.run);
+    if (problems.length > 0) {
+      throw new Error(`This proposal does not match its payroll run: ${problems.join('; ')}`);
+    }
+
+    const proposal: PaymentProposal = {
+      ...bundle.proposal,
+      signatures: bundle.proposal.signatures.filter(signature => verifyProposalSignature(bundle.proposal, signature)),
+      rejections: bundle.proposal.rejections.filter(rejection => verifyProposalRejection(bundle.proposal, rejection)),
+    };
+    // Only verified rejections count towards rejecting it
+    if (proposal.status === 'collecting' || proposal.status === 'rejected') {
+      proposal.status = isProposalDefeated(proposal) ? 'rejected' : 'collecting';
+    }
+    this.proposalStore.save(proposal);
+    this.runStore.save(proposal.status === 'rejected' ? closeRejectedRun(bundle.run) : bundle.run);
+    return proposal;
+  }
+
+  // Locks XRP for a contractor until a release time and/or until the
+  // fulfillment of a new crypto-condition is presented. The fulfillment is
+  // returned once and kept, encrypted with the vault, for finishing the
+  // escrow later.
+  async createEscrow(params: EscrowParams): Promise<{ escrow: EscrowRecord; fulfillment?: string }> {
+    const wallet = this.signingWallet();
+    await this.ensureConnected();
+    const tracker = new SubmissionTracker(this.client, this.submissionStore);
+
+    try {
+      const employee = await this.findEmployee(resolveAddress(params.destination).address);
+      const { address, tag } = resolveDestination(params.destination, params.destinationTag ?? employee?.destinationTag);
+      await assertDestinationTag(this.client, address, tag);
+
+      // The escrow is a new owned object, adding to the reserve
+      const projection = await projectPayments(this.client, wallet.address, [params.amount], 0, 1);
+      assertAffordable(projection);
+
+      // Encrypted before the escrow exists, so it cannot be lost to a vault
+      // that locks while the transaction is in flight
+      const condition = params.withCondition ? await generateCondition() : undefined;
+      const fulfillment = condition
+        ? await this.vault.encryptSecret(condition.fulfillment, fulfillmentLabel(condition.condition))
+        : undefined;
+
+      const ledgerResponse = await this.client.request({ command: 'ledger_current' });
+      const minLedger = ledgerResponse.result.ledger_current_index;
+      const lastLedgerSequence = minLedger + LEDGER_WINDOW;
+      const signed = await signEscrow(this.client, wallet, { ...params, destination: address, destinationTag: tag }, {
+        condition: condition?.condition,
+        fee: projection.fee.drops,
+        lastLedgerSequence,
       });
-      const currentLedgerIndex = ledgerResponse.result.ledger_current_index;
-      
-      const prepared = await this.client.autofill(payment);
-      prepared.LastLedgerSequence = currentLedgerIndex + 20;
-      prepared.Fee = fee;
-
-      const signed = this.wallet.sign(prepared);
-      const result = await this.client.submitAndWait(signed.tx_blob);
-      
+
+      // Saved before submitting: an escrow whose outcome never comes back
+      // can still validate, and must not lose its fulfillment
+      const pending: EscrowRecord = {
+        owner: wallet.address,
+        network: this.network,
+        sequence: signed.tx.Sequence as number,
+        hash: signed.hash,
+        obligation: crypto.randomUUID(),
+        status: 'pending',
+        condition: condition?.condition,
+        fulfillment,
+        createdAt: new Date().toISOString(),
+      };
+      this.escrowStore.save(pending);
+
+      let submission: Submission;
+      try {
+        submission = await tracker.submit(pending.obligation, wallet.address, this.network, {
+          hash: signed.hash,
+          txBlob: signed.txBlob,
+          minLedger,
+          lastLedgerSequence,
+        });
+      } catch (error) {
+        // Kept while it may still validate; settled by reconcileEscrows
+        if (!(error instanceof SubmissionUnknownError)) {
+          this.escrowStore.remove(pending.owner, pending.sequence);
+        }
+        throw error;
+      }
+
+      const escrow: EscrowRecord = { ...pending, status: 'created', ledgerIndex: submission.ledgerIndex };
+      this.escrowStore.save(escrow);
+      return { escrow, fulfillment: condition?.fulfillment };
+    } catch (error) {
+      console.error('Error creating escrow:', error);
+      throw error;
+    }
+  }
+
+  async getEscrows(address: string | null = this.walletAddress): Promise<EscrowEntry[]> {
+    if (!address) {
+      throw new Error('No wallet connected');
+    }
+
+    await this.ensureConnected();
+
+    try {
+      await this.reconcileEscrows();
+      return await getEscrows(this.client, address);
+    } catch (error) {
+      console.error('Error loading escrows:', error);
+      throw error;
+    }
+  }
+
+  // Whether the fulfillment of a conditional escrow is stored here
+  hasEscrowFulfillment(escrow: EscrowEntry): boolean {
+    return !!this.escrowStore.get(escrow.owner, escrow.sequence)?.fulfillment;
+  }
+
+  // Settles escrows created while their EscrowCreate outcome was unknown:
+  // validated ones are marked created, failed or expired ones are dropped
+  private async reconcileEscrows() {
+    const tracker = new SubmissionTracker(this.client, this.submissionStore);
+    for (const record of this.escrowStore.getPending(this.network)) {
+      const submission = this.submissionStore.get(record.obligation);
+      const current = submission?.status === 'pending' ? await tracker.refresh(submission) : submission;
+      if (current?.status === 'validated') {
+        this.escrowStore.save({ ...record, status: 'created', ledgerIndex: current.ledgerIndex });
+      } else if (current?.status === 'failed' || current?.status === 'expired') {
+        this.escrowStore.remove(record.owner, record.sequence);
+      }
+    }
+  }
+
+  // The fulfillment stored when the escrow was created. Needs the vault
+  // unlocked.
+  private async getStoredFulfillment(escrow: EscrowEntry): Promise<string | undefined> {
+    const stored = this.escrowStore.get(escrow.owner, escrow.sequence)?.fulfillment;
+    if (!stored || !escrow.condition) {
+      return undefined;
+    }
+    return this.vault.decryptSecret(stored, fulfillmentLabel(escrow.condition));
+  }
+
+  // `fulfillment` defaults to the one stored when the escrow was created
+  async finishEscrow(escrow: EscrowEntry, fulfillment?: string) {
+    const wallet = this.signingWallet();
+    await this.ensureConnected();
+
+    try {
+      const result = await finishEscrow(this.client, wallet, escrow, fulfillment || await this.getStoredFulfillment(escrow));
+      const meta = result.result.meta;
+      const resultCode = typeof meta === 'object' ? meta.TransactionResult : 'unknown';
+      if (resultCode !== 'tesSUCCESS') {
+        throw new Error(`EscrowFinish failed: ${resultCode}`);
+      }
+      this.escrowStore.remove(escrow.owner, escrow.sequence);
+      return result;
+    } catch (error) {
+      console.error('Error finishing escrow:', error);
+      throw error;
+    }
+  }
+
+  async cancelEscrow(escrow: EscrowEntry) {
+    const wallet = this.signingWallet();
+    await this.ensureConnected();
+
+    try {
+      const result = await cancelEscrow(this.client, wallet, escrow);
+      const meta = result.result.meta;
+      const resultCode = typeof meta === 'object' ? meta.TransactionResult : 'unknown';
+      if (resultCode !== 'tesSUCCESS') {
+        throw new Error(`EscrowCancel failed: ${resultCode}`);
+      }
+      this.escrowStore.remove(escrow.owner, escrow.sequence);
       return result;
     } catch (error) {
-      console.error('Error sending XRP payment:', error);
+      console.error('Error cancelling escrow:', error);
       throw error;
     }
   }
 
-  async getBalance() {
-    if (!this.wallet) {
+  // For employees who cannot receive the payment yet, typically because they
+  // have no trust line for the currency. They cash the check once they do.
+  // A check cannot be written to an account that does not exist. Like a
+  // payment, it is tracked under its obligation and carries a payslip.
+  async sendCheck(destination: string, amount: PaymentAmount, options: SendCheckOptions = {}): Promise<SentCheck> {
+    const wallet = this.signingWallet();
+    await this.ensureConnected();
+    const tracker = new SubmissionTracker(this.client, this.submissionStore);
+    const obligation = options.obligation || crypto.randomUUID();
+
+    try {
+      await tracker.assertCanSubmit(obligation);
+      const employee = await this.findEmployee(resolveAddress(destination).address);
+      const { address, tag } = resolveDestination(destination, options.destinationTag ?? employee?.destinationTag);
+      await assertDestinationTag(this.client, address, tag);
+
+      // The funds stay in the account until the check is cashed, so they
+      // are checked as if paid now. The check itself adds to the reserve.
+      const projection = await projectPayments(this.client, wallet.address, [amount], 0, 1);
+      assertAffordable(projection);
+
+      const payslip = this.preparePayslip(wallet.address, address, amount, options, employee);
+      const cid = await this.pinataService.pinPayslip(payslip);
+      const expiration = options.expiration || defaultCheckExpiration();
+      const ledgerResponse = await this.client.request({ command: 'ledger_current' });
+      const minLedger = ledgerResponse.result.ledger_current_index;
+      const lastLedgerSequence = minLedger + LEDGER_WINDOW;
+      const signed = await signCheck(this.client, wallet, address, amount, {
+        destinationTag: tag,
+        memos: [encodePayrollMemo({ period: payslip.period.id, employee: address, payslip: cid })],
+        fee: projection.fee.drops,
+        lastLedgerSequence,
+        expiration,
+      });
+
+      // Waits out the LastLedgerSequence window; throws if the check was
+      // not written or its outcome is still unknown
+      const submission = await tracker.submit(obligation, wallet.address, this.network, {
+        hash: signed.hash,
+        txBlob: signed.txBlob,
+        minLedger,
+        lastLedgerSequence,
+      });
+
+      const now = new Date().toISOString();
+      const check: CheckRecord = {
+        owner: wallet.address,
+        network: this.network,
+        sequence: signed.tx.Sequence as number,
+        hash: submission.hash,
+        ledgerIndex: submission.ledgerIndex,
+        destination: address,
+        destinationTag: tag,
+        amount,
+        expiration: expiration.toISOString(),
+        employeeName: payslip.employeeName,
+        period: payslip.period.id,
+        status: 'outstanding',
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.checkStore.save(check);
+      return {
+        check,
+        payslip: { ...payslip, cid, hash: submission.hash, ledgerIndex: submission.ledgerIndex ?? 0 },
+      };
+    } catch (error) {
+      console.error(`Error writing ${formatAmount(amount)} check:`, error);
+      throw error;
+    }
+  }
+
+  // Checks written by `address` on this network, updated from the ledger.
+  // Cashed and cancelled checks stay listed for the delivery report.
+  async getChecks(address: string | null = this.walletAddress): Promise<CheckRecord[]> {
+    if (!address) {
       throw new Error('No wallet connected');
     }
 
-    if (!this.isConnected) {
-      await this.connect();
+    await this.ensureConnected();
+
+    try {
+      const records = this.checkStore.list().filter(record => record.owner === address && record.network === this.network);
+      for (const record of await reconcileChecks(this.client, address, records)) {
+        this.checkStore.save(record);
+      }
+      return this.checkStore.list().filter(record => record.owner === address && record.network === this.network);
+    } catch (error) {
+      console.error('Error loading checks:', error);
+      throw error;
     }
+  }
+
+  // Takes back an uncashed check, e.g. once it has expired
+  async cancelCheck(record: CheckRecord) {
+    const wallet = this.signingWallet(record.owner);
+    await this.ensureConnected();
 
     try {
-      // Get XRP balance
-      const response = await this.client.request({
-        command: 'account_info',
-        account: this.wallet.address,
-        ledger_index: 'validated',
+      const [current] = await reconcileChecks(this.client, record.owner, [record]);
+      const check = current || record;
+      if (check.status !== 'outstanding') {
+        this.checkStore.save(check);
+        throw new Error(`This check has already been ${check.status}`);
+      }
+      if (!check.checkId) {
+        throw new Error('This check was not found on the ledger');
+      }
+
+      const result = await cancelCheck(this.client, wallet, check.checkId);
+      this.checkStore.save({ ...check, status: 'cancelled', closedHash: result.result.hash });
+      return result;
+    } catch (error) {
+      console.error('Error cancelling check:', error);
+      throw error;
+    }
+  }
+
+  // Keeps a record of every check a payroll run wrote, so the run's
+  // delivery report can tell cashed checks from uncashed ones
+  private recordLineChecks(run: PayrollRun) {
+    for (const line of run.lines) {
+      if (!line.byCheck || line.status !== 'validated' || line.sequence === undefined || !line.hash) {
+        continue;
+      }
+      if (this.checkStore.get(run.account, line.sequence)) {
+        continue;
+      }
+      const now = new Date().toISOString();
+      this.checkStore.save({
+        owner: run.account,
+        network: run.network,
+        sequence: line.sequence,
+        hash: line.hash,
+        ledgerIndex: line.ledgerIndex,
+        destination: line.destination,
+        destinationTag: line.destinationTag,
+        amount: line.amount,
+        expiration: line.checkExpiration,
+        employeeName: line.name,
+        period: line.period,
+        run: run.id,
+        line: line.id,
+        status: 'outstanding',
+        createdAt: now,
+        updatedAt: now,
       });
-      
-      const xrpBalance = (parseInt(response.result.account_data.Balance) / 1000000).toString();
-      
+    }
+  }
+
+  // Sets XRP aside for an hourly contractor. Hours approved later are paid
+  // with claims signed off-ledger by the key that opened the channel.
+  async openChannel(params: ChannelParams, contractor: { name?: string; hourlyRate?: string } = {}): Promise<ChannelRecord> {
+    const wallet = this.signingWallet();
+    await this.ensureConnected();
+
+    try {
+      const employee = await this.findEmployee(resolveAddress(params.destination).address);
+      const { address, tag } = resolveDestination(params.destination, params.destinationTag ?? employee?.destinationTag);
+      await assertDestinationTag(this.client, address, tag);
+
+      // The channel is a new owned object, adding to the reserve
+      const projection = await projectPayments(this.client, wallet.address, [params.amount], 0, 1);
+      assertAffordable(projection);
+
+      const record = await openChannel(this.client, wallet, { ...params, destination: address, destinationTag: tag }, this.network);
+      const saved = { ...record, contractorName: contractor.name || employee?.name, hourlyRate: contractor.hourlyRate };
+      this.channelStore.save(saved);
+      return saved;
+    } catch (error) {
+      console.error('Error opening payment channel:', error);
+      throw error;
+    }
+  }
+
+  async getChannels(address: string | null = this.walletAddress): Promise<ChannelEntry[]> {
+    if (!address) {
+      throw new Error('No wallet connected');
+    }
+
+    await this.ensureConnected();
+
+    try {
+      return await getChannels(this.client, address);
+    } catch (error) {
+      console.error('Error loading payment channels:', error);
+      throw error;
+    }
+  }
+
+  // Hours, rate and signed claims of a channel opened on this device
+  getChannelRecord(id: string): ChannelRecord | null {
+    return this.channelStore.get(id);
+  }
+
+  // Signs a claim covering every hour approved so far. Nothing reaches the
+  // ledger until the contractor redeems it.
+  approveChannelHours(channel: ChannelEntry, hours: string): ChannelClaim {
+    const record = this.channelStore.get(channel.id);
+    if (!record) {
+      throw new Error('This channel was not opened on this device');
+    }
+
+    const updated = approveHours(record, channel, this.signingWallet(channel.account), hours);
+    this.channelStore.save(updated);
+    return updated.claims[updated.claims.length - 1];
+  }
+
+  // The latest claim as JSON, for a contractor redeeming it elsewhere
+  exportChannelClaim(id: string): string {
+    const claim = this.channelStore.get(id)?.claims.at(-1);
+    if (!claim) {
+      throw new Error('No claim has been signed for this channel');
+    }
+    return JSON.stringify(claim, null, 2);
+  }
+
+  // Redeems a claim for a contractor whose seed is held in the vault.
+  // `claim` defaults to the latest one signed on this device.
+  async redeemChannelClaim(channel: ChannelEntry, claim?: ChannelClaim) {
+    const wallet = this.signingWallet(channel.destination);
+    const latest = claim || this.channelStore.get(channel.id)?.claims.at(-1);
+    if (!latest) {
+      throw new Error('No claim has been signed for this channel');
+    }
+
+    await this.ensureConnected();
+
+    try {
+      const result = await redeemClaim(this.client, wallet, latest);
+      const meta = result.result.meta;
+      const resultCode = typeof meta === 'object' ? meta.TransactionResult : 'unknown';
+      if (resultCode !== 'tesSUCCESS') {
+        throw new Error(`PaymentChannelClaim failed: ${resultCode}`);
+      }
+      return result;
+    } catch (error) {
+      console.error('Error redeeming channel claim:', error);
+      throw error;
+    }
+  }
+
+  // Whether `claim` is a valid claim on `channel`
+  verifyChannelClaim(claim: ChannelClaim, channel?: ChannelEntry): boolean {
+    return verifyClaim(claim, channel);
+  }
+
+  // Ends the contract, paying out approved hours not yet redeemed
+  async closeChannel(channel: ChannelEntry) {
+    const wallet = this.signingWallet(channel.account);
+    await this.ensureConnected();
+
+    try {
+      const record = this.channelStore.get(channel.id);
+      const result = await closeChannel(this.client, wallet, channel, record ? getApprovedTotal(record) : undefined);
+      const meta = result.result.meta;
+      const resultCode = typeof meta === 'object' ? meta.TransactionResult : 'unknown';
+      if (resultCode !== 'tesSUCCESS') {
+        throw new Error(`PaymentChannelClaim failed: ${resultCode}`);
+      }
+      return result;
+    } catch (error) {
+      console.error('Error closing payment channel:', error);
+      throw error;
+    }
+  }
+
+  async getTrustLineStatus(address: string, amount: PaymentAmount = rlusd('0', this.network)) {
+    await this.ensureConnected();
+
+    try {
+      return await getTrustLineStatus(this.client, address, amount, amount.value);
+    } catch (error) {
+      console.error('Error getting trust line status:', error);
+      throw error;
+    }
+  }
+
+  // Only possible for accounts whose seed is held locally, since the
+  // TrustSet has to be signed by the receiving account itself.
+  async setTrustLine(address: string, currency: PaymentAmount = rlusd('0', this.network), limit: string = DEFAULT_TRUST_LIMIT) {
+    const seed = this.getSecretKey(address);
+    if (!seed) {
+      throw new Error('No secret key stored for this account');
+    }
+
+    await this.ensureConnected();
+
+    try {
+      const result = await createTrustLine(this.client, walletForAccount(address, seed), currency, limit);
+      const meta = result.result.meta;
+      const resultCode = typeof meta === 'object' ? meta.TransactionResult : 'unknown';
+      if (resultCode !== 'tesSUCCESS') {
+        throw new Error(`TrustSet failed: ${resultCode}`);
+      }
+      return result;
+    } catch (error) {
+      console.error('Error creating trust line:', error);
+      throw error;
+    }
+  }
+
+  async getBalance(address: string | null = this.walletAddress): Promise<AccountBalance> {
+    if (!address) {
+      throw new Error('No wallet connected');
+    }
+
+    await this.ensureConnected();
+
+    try {
+      // Every escrow is an owned object, so its reserve is held back from
+      // what can be spent on top of the escrowed amount itself
+      const reserve = await getReserves(this.client);
+      const [funds, escrowed] = await Promise.all([
+        getAccountFunds(this.client, address, reserve),
+        getEscrowedTotal(this.client, address),
+      ]);
+
       return {
-        xrp: xrpBalance
+        xrp: String(dropsToXrp(funds.balanceDrops)),
+        available: String(dropsToXrp(funds.spendableDrops)),
+        escrowed,
       };
     } catch (error) {
       console.error('Error getting balance:', error);
@@ -366,87 +1403,68 @@ export class XRPLService {
     }
   }
 
-  getWalletAddress() {
-    return this.wallet?.address || null;
-  }
-
+  // Throws VaultLockedError while the vault is locked
   getSecretKey(address: string): string | null {
-    const wallet = this.wallets.find(w => w.address === address);
-    return wallet?.seed || null;
+    return this.vault.getSeed(address);
   }
 
-  async getTransactionHistory(limit: number = 20) {
-    if (!this.wallet) {
+  // Whether the connected wallet can send `amounts` at the current fee
+  // without dipping into its reserve
+  async getPaymentProjection(amounts: PaymentAmount[]): Promise<PaymentProjection> {
+    if (!this.walletAddress) {
       throw new Error('No wallet connected');
     }
 
-    if (!this.isConnected) {
-      await this.connect();
+    await this.ensureConnected();
+
+    try {
+      return await projectPayments(this.client, this.walletAddress, amounts);
+    } catch (error) {
+      console.error('Error projecting payment costs:', error);
+      throw error;
+    }
+  }
+
+  // The current order book rate for paying a `fiat` salary in `payout`
+  async getFxRate(fiat: FiatCurrency, payout: Pick<PaymentAmount, 'currency' | 'issuer'>): Promise<FxRate> {
+    await this.ensureConnected();
+
+    try {
+      return await getBookRate(this.client, this.network, fiat, payout);
+    } catch (error) {
+      console.error(`Error reading the ${fiat} order book:`, error);
+      throw error;
+    }
+  }
+
+  // One page of account_tx, newest first. Pass the returned marker back in
+  // to continue where the previous page ended.
+  async getTransactionHistory(options: { limit?: number; marker?: unknown } = {}): Promise<TransactionPage> {
+    if (!this.walletAddress) {
+      throw new Error('No wallet connected');
     }
 
+    await this.ensureConnected();
+
     try {
       const response = await this.client.request({
         command: 'account_tx',
-        account: this.wallet.address,
-        limit: limit,
+        account: this.walletAddress,
+        limit: options.limit ?? 20,
+        marker: options.marker,
         ledger_index_min: -1,
         ledger_index_max: -1,
         binary: false,
         forward: false
       });
 
-      if (!response.result?.transactions) {
-        console.log('No transactions found in response');
-        return [];
-      }
-
-      return response.result.transactions.map((tx: any) => {
-        if (!tx?.tx_json) {
-          console.log('Transaction data missing tx_json field');
-          return {
-            hash: 'unknown',
-            type: 'Unknown',
-            amount: 'N/A',
-            destination: 'N/A',
-            date: new Date(),
-            status: 'failed',
-            resultCode: 'unknown'
-          };
-        }
-
-        // Default values
-        let txType = tx.tx_json.TransactionType || 'Unknown';
-        let amount = 'N/A';
-        let destination = 'N/A';
-        
-        // For Payment transactions
-        if (txType === 'Payment') {
-          const amountField = tx.tx_json.Amount;
-          if (amountField) {
-            // XRP amount in drops, convert to XRP
-            const drops = parseInt(amountField);
-            const xrp = drops / 1000000;
-            amount = `${xrp} XRP`;
-            destination = tx.tx_json.Destination;
-          }
-        }
-
-        const processedTx = {
-          hash: tx.hash || 'unknown',
-          type: txType,
-          amount: amount,
-          destination: destination,
-          date: new Date(tx.close_time_iso || Date.now()),
-          status: tx.meta?.TransactionResult === 'tesSUCCESS' ? 'success' : 'failed',
-          resultCode: tx.meta?.TransactionResult || 'unknown'
-        };
-
-        console.log('Processed transaction:', processedTx);
-        return processedTx;
-      });
+      return {
+        transactions: (response.result.transactions || []).map(toTransactionRecord),
+        marker: response.result.marker,
+      };
     } catch (error) {
       console.error('Error getting transaction history:', error);
       throw error;
     }
   }
-}
\ No newline at end of file
+}